@@ -3,6 +3,7 @@ import { ConfigModule } from '@nestjs/config';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { TranscriptionModule } from './modules/transcription/transcription.module';
+import { AuthModule } from './modules/auth/auth.module';
 import configuration from './config/configuration';
 
 @Module({
@@ -11,6 +12,7 @@ import configuration from './config/configuration';
       isGlobal: true,
       load: [configuration],
     }),
+    AuthModule,
     TranscriptionModule,
   ],
   controllers: [AppController],
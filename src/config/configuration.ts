@@ -6,8 +6,159 @@ export default () => ({
     accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
     secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
     s3Bucket: process.env.AWS_S3_BUCKET || '',
+    pollIntervalMs: parseInt(process.env.AWS_POLL_INTERVAL_MS || '5000', 10),
+    // Max time for upload + transcription before the job is aborted
+    timeoutMs: parseInt(process.env.AWS_TIMEOUT_MS || '1800000', 10),
+    // Transcription jobs running at once (0 = unlimited); extra calls queue
+    maxConcurrent: parseInt(process.env.AWS_MAX_CONCURRENT || '10', 10),
+    // Retries of throttled, 5xx and network failures with exponential backoff
+    retry: {
+      maxAttempts: parseInt(process.env.AWS_RETRY_MAX_ATTEMPTS || '3', 10),
+      baseDelayMs: parseInt(process.env.AWS_RETRY_BASE_DELAY_MS || '2000', 10),
+      maxDelayMs: parseInt(process.env.AWS_RETRY_MAX_DELAY_MS || '30000', 10),
+    },
   },
   deepgram: {
     apiKey: process.env.DEEPGRAM_API_KEY || '',
+    timeoutMs: parseInt(process.env.DEEPGRAM_TIMEOUT_MS || '600000', 10),
+    maxConcurrent: parseInt(process.env.DEEPGRAM_MAX_CONCURRENT || '10', 10),
+    retry: {
+      maxAttempts: parseInt(process.env.DEEPGRAM_RETRY_MAX_ATTEMPTS || '3', 10),
+      baseDelayMs: parseInt(
+        process.env.DEEPGRAM_RETRY_BASE_DELAY_MS || '1000',
+        10,
+      ),
+      maxDelayMs: parseInt(
+        process.env.DEEPGRAM_RETRY_MAX_DELAY_MS || '30000',
+        10,
+      ),
+    },
+  },
+  preprocessing: {
+    // Probe uploads and transcode them when a provider can't take the format
+    enabled: process.env.PREPROCESS_ENABLED !== 'false',
+    ffmpegPath: process.env.FFMPEG_PATH || 'ffmpeg',
+    ffprobePath: process.env.FFPROBE_PATH || 'ffprobe',
+    format: process.env.PREPROCESS_FORMAT || 'flac', // flac | wav
+    // Options below force a transcode for every upload
+    sampleRate: parseInt(process.env.PREPROCESS_SAMPLE_RATE || '0', 10), // 0 keeps the source rate
+    downmix: process.env.PREPROCESS_DOWNMIX === 'true',
+    normalizeLoudness: process.env.PREPROCESS_NORMALIZE_LOUDNESS === 'true',
+  },
+  uploads: {
+    dir: process.env.UPLOAD_DIR || './public/uploads',
+    maxFileSizeMb: parseInt(process.env.UPLOAD_MAX_FILE_SIZE_MB || '500', 10),
+    // Checked with ffprobe; 0 disables the limit
+    maxDurationSec: parseInt(
+      process.env.UPLOAD_MAX_DURATION_SEC || '14400',
+      10,
+    ),
+  },
+  retention: {
+    enabled: process.env.RETENTION_ENABLED !== 'false',
+    intervalMs: parseInt(process.env.RETENTION_INTERVAL_MS || '900000', 10),
+    // Per-status job TTLs in milliseconds (0 keeps jobs forever)
+    jobTtlMs: {
+      completed: parseInt(
+        process.env.RETENTION_COMPLETED_TTL_MS || '86400000',
+        10,
+      ),
+      failed: parseInt(process.env.RETENTION_FAILED_TTL_MS || '86400000', 10),
+      cancelled: parseInt(
+        process.env.RETENTION_CANCELLED_TTL_MS || '3600000',
+        10,
+      ),
+      // Jobs stuck in pending/processing (e.g. after a crash)
+      pending: parseInt(process.env.RETENTION_PENDING_TTL_MS || '0', 10),
+      processing: parseInt(process.env.RETENTION_PROCESSING_TTL_MS || '0', 10),
+    },
+    // Upload files not used by an active job are deleted after this age
+    orphanUploadTtlMs: parseInt(
+      process.env.RETENTION_UPLOAD_TTL_MS || '3600000',
+      10,
+    ),
+    // Optionally delete media under the transcriptions/ S3 prefix
+    s3Cleanup: process.env.RETENTION_S3_CLEANUP === 'true',
+    s3TtlMs: parseInt(process.env.RETENTION_S3_TTL_MS || '86400000', 10),
+  },
+  webhooks: {
+    // HMAC-SHA256 key for X-Notica-Signature; callbacks are rejected without it
+    secret: process.env.WEBHOOK_SECRET || '',
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10),
+    // Delay before the first retry, doubled after every failed attempt
+    retryDelayMs: parseInt(process.env.WEBHOOK_RETRY_DELAY_MS || '2000', 10),
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+    // Hosts allowed to resolve to private addresses (comma separated)
+    allowedHosts: process.env.WEBHOOK_ALLOWED_HOSTS || '',
+  },
+  auth: {
+    // Require an API key on every route except the health check
+    enabled: process.env.AUTH_ENABLED !== 'false',
+    apiKeys: process.env.API_KEYS || '', // id:key pairs, comma separated
+    adminKeys: process.env.API_ADMIN_KEYS || '', // See every client's jobs
+    // JSON array of { id, key, admin?, uploadsPerHour?, audioMinutesPerDay? }
+    keysFile: process.env.API_KEYS_FILE || './data/api-keys.json',
+    // For keys without their own quotas; 0 = unlimited
+    defaultQuotas: {
+      uploadsPerHour: parseInt(process.env.QUOTA_UPLOADS_PER_HOUR || '60', 10),
+      audioMinutesPerDay: parseInt(
+        process.env.QUOTA_AUDIO_MINUTES_PER_DAY || '600',
+        10,
+      ),
+    },
+  },
+  quota: {
+    // Uploads of the last day counted against the quotas ('' keeps them in
+    // memory only)
+    ledgerFile: process.env.QUOTA_LEDGER_FILE ?? './data/quota-ledger.json',
+  },
+  pricing: {
+    // JSON file with prices overriding those in usage/price-table.ts
+    tablePath: process.env.PRICE_TABLE_PATH || '',
+  },
+  usage: {
+    // Usage of every finished provider call, kept after jobs are purged
+    // ('' keeps it in memory only)
+    ledgerFile: process.env.USAGE_LEDGER_FILE ?? './data/usage-ledger.jsonl',
+  },
+  batch: {
+    maxFiles: parseInt(process.env.BATCH_MAX_FILES || '100', 10),
+    // Files of one batch transcribed at the same time
+    concurrency: parseInt(process.env.BATCH_CONCURRENCY || '2', 10),
+    // Total uncompressed size of a zip upload
+    maxArchiveMb: parseInt(process.env.BATCH_MAX_ARCHIVE_MB || '2048', 10),
+  },
+  consensus: {
+    // Build a consensus transcript for comparison jobs unless the upload
+    // says otherwise (?consensus=true|false)
+    enabled: process.env.CONSENSUS_ENABLED === 'true',
+    // Provider whose word wins ties (default: the job's first provider)
+    tieBreaker: process.env.CONSENSUS_TIE_BREAKER || '',
+    // Weight of word confidence against votes when providers disagree
+    confidenceWeight: parseFloat(
+      process.env.CONSENSUS_CONFIDENCE_WEIGHT || '0.5',
+    ),
+  },
+  postProcessing: {
+    // Rules created through /transcription/post-processing/rules ('' keeps
+    // them in memory only)
+    rulesFile:
+      process.env.POSTPROCESSING_RULES_FILE ??
+      './data/post-processing-rules.json',
+  },
+  streaming: {
+    // Concurrent live sessions across all clients
+    maxSessions: parseInt(process.env.STREAMING_MAX_SESSIONS || '10', 10),
+    // Sessions are stopped after this long (0 = no limit)
+    maxSessionMs: parseInt(
+      process.env.STREAMING_MAX_SESSION_MS || '3600000',
+      10,
+    ),
+  },
+  jobs: {
+    store: process.env.JOB_STORE || 'memory', // memory | file
+    storeDir: process.env.JOB_STORE_DIR || './data/jobs',
+    // What to do with jobs left in PROCESSING after a restart: resume | fail
+    recovery: process.env.JOB_RECOVERY || 'resume',
   },
 });
@@ -1,18 +1,30 @@
+import { ValidationPipe } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { NestExpressApplication } from '@nestjs/platform-express';
+import { WsAdapter } from '@nestjs/platform-ws';
 import { join } from 'path';
 
 async function bootstrap() {
   const app = await NestFactory.create<NestExpressApplication>(AppModule);
 
-  // Enable CORS
+  // Enable CORS for CORS_ORIGINS (comma-separated, default any origin).
+  // API keys travel in headers, so cookies are never needed.
+  const corsOrigins = (process.env.CORS_ORIGINS || '*')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
   app.enableCors({
-    origin: '*',
+    origin: corsOrigins.includes('*') ? '*' : corsOrigins,
     methods: 'GET,HEAD,PUT,PATCH,POST,DELETE',
-    credentials: true,
   });
 
+  // Validate DTO request bodies
+  app.useGlobalPipes(new ValidationPipe({ whitelist: true, transform: true }));
+
+  // Plain WebSockets for live transcription
+  app.useWebSocketAdapter(new WsAdapter(app));
+
   // Serve static files
   app.useStaticAssets(join(__dirname, '..', 'public'));
 
@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_ADMIN_ONLY_KEY = 'isAdminOnly';
+
+// Route or controller that requires an admin API key
+export const AdminOnly = () => SetMetadata(IS_ADMIN_ONLY_KEY, true);
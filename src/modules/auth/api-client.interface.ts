@@ -0,0 +1,21 @@
+// A caller authenticated by API key, attached to the request by ApiKeyGuard
+
+export interface ClientQuotas {
+  uploadsPerHour: number; // Audio files per rolling hour, 0 = unlimited
+  audioMinutesPerDay: number; // Uploaded audio per UTC day, 0 = unlimited
+}
+
+export interface ApiClient {
+  id: string; // Recorded on jobs as clientId
+  admin: boolean; // Sees every client's jobs
+  quotas: ClientQuotas;
+}
+
+// Entry of the API key file (auth.keysFile); missing quotas use the defaults
+export interface ApiKeyEntry {
+  id: string;
+  key: string;
+  admin?: boolean;
+  uploadsPerHour?: number;
+  audioMinutesPerDay?: number;
+}
@@ -0,0 +1,73 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import type { IncomingMessage } from 'http';
+import { ApiClient } from './api-client.interface';
+import { ApiKeyService } from './api-key.service';
+import { IS_PUBLIC_KEY } from './public.decorator';
+import { IS_ADMIN_ONLY_KEY } from './admin-only.decorator';
+
+// Read the key from the x-api-key header, an Authorization: Bearer header
+// or, for EventSource and WebSocket clients that cannot set headers, the
+// apiKey query parameter
+export function extractApiKey(request: IncomingMessage): string | undefined {
+  const header = request.headers['x-api-key'];
+  if (typeof header === 'string' && header) return header;
+
+  const authorization = request.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  const url = new URL(request.url || '/', 'http://localhost');
+  return url.searchParams.get('apiKey') || undefined;
+}
+
+// Registered globally; WebSocket connections are checked by the gateway
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private apiKeyService: ApiKeyService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    if (context.getType() !== 'http' || !this.apiKeyService.isEnabled()) {
+      return true;
+    }
+
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { apiClient?: ApiClient }>();
+    const key = extractApiKey(request);
+    if (!key) {
+      throw new UnauthorizedException('Missing API key');
+    }
+
+    const client = this.apiKeyService.authenticate(key);
+    if (!client) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+    if (
+      !client.admin &&
+      this.reflector.getAllAndOverride<boolean>(IS_ADMIN_ONLY_KEY, targets)
+    ) {
+      throw new ForbiddenException('This route requires an admin API key');
+    }
+
+    // Not `client`: IncomingMessage already has one (the socket)
+    request.apiClient = client;
+    return true;
+  }
+}
@@ -0,0 +1,58 @@
+import { ConfigService } from '@nestjs/config';
+import type { IncomingMessage } from 'http';
+import { extractApiKey } from './api-key.guard';
+import { ApiKeyService } from './api-key.service';
+
+describe('ApiKeyService', () => {
+  const createService = (auth: Record<string, unknown>) => {
+    const service = new ApiKeyService(
+      new ConfigService({
+        auth: {
+          enabled: true,
+          keysFile: '',
+          defaultQuotas: { uploadsPerHour: 60, audioMinutesPerDay: 600 },
+          ...auth,
+        },
+      }),
+    );
+    service.onModuleInit();
+    return service;
+  };
+
+  it('should authenticate configured keys with the default quotas', () => {
+    const service = createService({
+      apiKeys: 'team-a:secret-a, team-b:secret-b',
+      adminKeys: 'ops:root',
+    });
+
+    expect(service.authenticate('secret-b')).toEqual({
+      id: 'team-b',
+      admin: false,
+      quotas: { uploadsPerHour: 60, audioMinutesPerDay: 600 },
+    });
+    expect(service.authenticate('root')?.admin).toBe(true);
+    expect(service.authenticate('secret')).toBeUndefined();
+  });
+
+  it('should reject keys without an id', () => {
+    expect(() => createService({ apiKeys: 'no-separator' })).toThrow(
+      'id:key pairs',
+    );
+  });
+});
+
+describe('extractApiKey', () => {
+  const request = (url: string, headers: Record<string, string> = {}) =>
+    ({ url, headers }) as unknown as IncomingMessage;
+
+  it('should prefer headers over the query parameter', () => {
+    expect(
+      extractApiKey(request('/jobs?apiKey=query', { 'x-api-key': 'header' })),
+    ).toBe('header');
+    expect(
+      extractApiKey(request('/jobs', { authorization: 'Bearer token' })),
+    ).toBe('token');
+    expect(extractApiKey(request('/live?apiKey=query'))).toBe('query');
+    expect(extractApiKey(request('/jobs'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,130 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, timingSafeEqual } from 'crypto';
+import * as fs from 'fs';
+import { ApiClient, ApiKeyEntry, ClientQuotas } from './api-client.interface';
+
+// API keys from the environment (API_KEYS, API_ADMIN_KEYS as id:key pairs)
+// and from a local JSON file with per-key quotas. Keys are kept as SHA-256
+// digests so lookups compare fixed-length values.
+@Injectable()
+export class ApiKeyService implements OnModuleInit {
+  private clients = new Map<string, ApiClient>(); // Keyed by key digest
+
+  constructor(private configService: ConfigService) {}
+
+  onModuleInit() {
+    if (!this.isEnabled()) {
+      console.warn(
+        '[Auth] AUTH_ENABLED=false - every route is open to anyone who can reach the server',
+      );
+      return;
+    }
+
+    const entries = [
+      ...this.parseKeyList(this.configService.get<string>('auth.apiKeys')),
+      ...this.parseKeyList(
+        this.configService.get<string>('auth.adminKeys'),
+        true,
+      ),
+      ...this.readKeysFile(this.configService.get<string>('auth.keysFile')),
+    ];
+    for (const entry of entries) {
+      this.addKey(entry);
+    }
+
+    if (this.clients.size === 0) {
+      console.warn(
+        '[Auth] No API keys configured - every authenticated route will return 401',
+      );
+    } else {
+      console.log(`[Auth] Loaded ${this.clients.size} API key(s)`);
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.configService.get<boolean>('auth.enabled') !== false;
+  }
+
+  // The client the key belongs to, if any
+  authenticate(key: string): ApiClient | undefined {
+    const digest = this.digest(key);
+    for (const [candidate, client] of this.clients) {
+      if (timingSafeEqual(Buffer.from(candidate), Buffer.from(digest))) {
+        return client;
+      }
+    }
+    return undefined;
+  }
+
+  private addKey(entry: ApiKeyEntry): void {
+    if (!entry.id || !entry.key) {
+      throw new Error('Every API key needs an id and a key');
+    }
+
+    const defaults = this.getDefaultQuotas();
+    this.clients.set(this.digest(entry.key), {
+      id: entry.id,
+      admin: !!entry.admin,
+      quotas: {
+        uploadsPerHour: entry.uploadsPerHour ?? defaults.uploadsPerHour,
+        audioMinutesPerDay:
+          entry.audioMinutesPerDay ?? defaults.audioMinutesPerDay,
+      },
+    });
+  }
+
+  // 'client-a:key1,client-b:key2'
+  private parseKeyList(value = '', admin = false): ApiKeyEntry[] {
+    return value
+      .split(',')
+      .map((pair) => pair.trim())
+      .filter(Boolean)
+      .map((pair) => {
+        const separator = pair.indexOf(':');
+        if (separator <= 0) {
+          throw new Error('API keys must be given as id:key pairs');
+        }
+        return {
+          id: pair.slice(0, separator),
+          key: pair.slice(separator + 1),
+          admin,
+        };
+      });
+  }
+
+  // A missing file is treated as empty so it can be created later
+  private readKeysFile(filePath?: string): ApiKeyEntry[] {
+    if (!filePath || !fs.existsSync(filePath)) return [];
+
+    try {
+      const entries = JSON.parse(
+        fs.readFileSync(filePath, 'utf8'),
+      ) as ApiKeyEntry[];
+      if (!Array.isArray(entries)) {
+        throw new Error('expected an array of keys');
+      }
+      return entries;
+    } catch (error) {
+      throw new Error(
+        `Failed to load API keys from ${filePath}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private getDefaultQuotas(): ClientQuotas {
+    return {
+      uploadsPerHour:
+        this.configService.get<number>('auth.defaultQuotas.uploadsPerHour') ??
+        0,
+      audioMinutesPerDay:
+        this.configService.get<number>(
+          'auth.defaultQuotas.audioMinutesPerDay',
+        ) ?? 0,
+    };
+  }
+
+  private digest(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { APP_GUARD } from '@nestjs/core';
+import { ApiKeyService } from './api-key.service';
+import { ApiKeyGuard } from './api-key.guard';
+
+// API key authentication for every route not marked @Public()
+@Module({
+  imports: [ConfigModule],
+  providers: [ApiKeyService, { provide: APP_GUARD, useClass: ApiKeyGuard }],
+  exports: [ApiKeyService],
+})
+export class AuthModule {}
@@ -0,0 +1,8 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { ApiClient } from './api-client.interface';
+
+// The authenticated client, undefined when auth is disabled
+export const CurrentClient = createParamDecorator(
+  (data: unknown, context: ExecutionContext): ApiClient | undefined =>
+    context.switchToHttp().getRequest<{ apiClient?: ApiClient }>().apiClient,
+);
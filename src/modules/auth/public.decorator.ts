@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+
+// Routes that need no API key
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
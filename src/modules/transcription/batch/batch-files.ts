@@ -0,0 +1,48 @@
+import * as path from 'path';
+
+// Files of a batch upload, from the multipart fields or a zip archive
+export interface IncomingBatchFile {
+  name: string; // Original name, relative path for archive entries
+  path: string;
+  size: number;
+}
+
+export interface AudioBatchFile extends IncomingBatchFile {
+  referencePath?: string; // Matching .txt reference transcript
+}
+
+export interface PairedBatchFiles {
+  audio: AudioBatchFile[];
+  references: IncomingBatchFile[]; // Every .txt file
+  unmatchedReferences: IncomingBatchFile[];
+}
+
+// A reference transcript belongs to the audio file with the same path and
+// base name: 'set-1/call.txt' is the reference for 'set-1/call.mp3'
+export function pairReferenceFiles(
+  files: IncomingBatchFile[],
+): PairedBatchFiles {
+  const isReference = (file: IncomingBatchFile) =>
+    path.extname(file.name).toLowerCase() === '.txt';
+  const stem = (name: string) =>
+    name.slice(0, name.length - path.extname(name).length).toLowerCase();
+
+  const references = files.filter(isReference);
+  const referenceByStem = new Map(
+    references.map((file) => [stem(file.name), file]),
+  );
+
+  const audio = files
+    .filter((file) => !isReference(file))
+    .map((file) => ({
+      ...file,
+      referencePath: referenceByStem.get(stem(file.name))?.path,
+    }));
+
+  const audioStems = new Set(audio.map((file) => stem(file.name)));
+  const unmatchedReferences = references.filter(
+    (file) => !audioStems.has(stem(file.name)),
+  );
+
+  return { audio, references, unmatchedReferences };
+}
@@ -0,0 +1,119 @@
+import { JobStatus, TranscriptionJob } from '../job-manager.service';
+import { TranscriptResult } from '../providers/transcript-result.interface';
+import { AccuracyScore } from '../scoring/accuracy';
+import { pairReferenceFiles } from './batch-files';
+import { buildBatchCsv, summarizeBatch } from './batch-report';
+
+const result = (fields: Partial<TranscriptResult>) =>
+  ({ status: 'COMPLETED', error: null, ...fields }) as TranscriptResult;
+
+const score = (wer: number, errors: number, referenceLength: number) =>
+  ({
+    wer,
+    cer: wer / 2,
+    words: {
+      substitutions: errors,
+      insertions: 0,
+      deletions: 0,
+      referenceLength,
+    },
+  }) as unknown as AccuracyScore;
+
+const createJobs = (): TranscriptionJob[] => [
+  {
+    id: 'job-1',
+    status: JobStatus.COMPLETED,
+    fileName: 'short.mp3',
+    filePath: '',
+    languageCode: 'en-US',
+    createdAt: new Date(),
+    providerResults: {
+      aws: { status: 'completed', result: result({ processingTime: 4 }) },
+      deepgram: {
+        status: 'completed',
+        result: result({ processingTime: 1, transcript: '=SUM(A1), "hi"' }),
+      },
+    },
+    accuracy: { aws: score(0.5, 1, 2), deepgram: score(0, 0, 2) },
+  },
+  {
+    id: 'job-2',
+    status: JobStatus.COMPLETED,
+    fileName: 'long.mp3',
+    filePath: '',
+    languageCode: 'en-US',
+    createdAt: new Date(),
+    providerResults: {
+      aws: { status: 'completed', result: result({ processingTime: 8 }) },
+      deepgram: {
+        status: 'completed',
+        result: result({ status: 'FAILED', error: 'timeout' }),
+      },
+    },
+    accuracy: { aws: score(0.1, 2, 20) },
+  },
+];
+
+describe('summarizeBatch', () => {
+  it('should aggregate latency, failures and accuracy per provider', () => {
+    const summary = summarizeBatch(['aws', 'deepgram'], createJobs());
+
+    expect(summary.files).toMatchObject({ total: 2, completed: 2 });
+    expect(summary.providers.aws).toMatchObject({
+      completed: 2,
+      failed: 0,
+      failureRate: 0,
+      meanProcessingTime: 6,
+      medianProcessingTime: 6,
+      scored: 2,
+      meanWer: 0.3,
+      pooledWer: 3 / 22,
+    });
+    expect(summary.providers.deepgram).toMatchObject({
+      completed: 1,
+      failed: 1,
+      failureRate: 0.5,
+      meanProcessingTime: 1,
+      scored: 1,
+    });
+  });
+});
+
+describe('buildBatchCsv', () => {
+  it('should write one escaped row per file and provider', () => {
+    const lines = buildBatchCsv(['aws', 'deepgram'], createJobs()).split(
+      '\r\n',
+    );
+
+    expect(lines).toHaveLength(5);
+    expect(lines[0]).toBe(
+      'jobId,fileName,provider,status,processingTime,audioDuration,language,confidence,wer,cer,error,transcript',
+    );
+    expect(lines[2]).toBe(
+      `job-1,short.mp3,deepgram,completed,1,,,,0,0,,"'=SUM(A1), ""hi"""`,
+    );
+    expect(lines[4]).toContain('long.mp3,deepgram,failed,');
+    expect(lines[4]).toContain(',timeout,');
+  });
+});
+
+describe('pairReferenceFiles', () => {
+  it('should match references by path and base name', () => {
+    const file = (name: string) => ({ name, path: `/tmp/${name}`, size: 1 });
+    const paired = pairReferenceFiles([
+      file('set-1/Call.MP3'),
+      file('set-1/call.txt'),
+      file('set-2/call.wav'),
+      file('notes.txt'),
+    ]);
+
+    expect(paired.audio).toEqual([
+      { ...file('set-1/Call.MP3'), referencePath: '/tmp/set-1/call.txt' },
+      { ...file('set-2/call.wav'), referencePath: undefined },
+    ]);
+    expect(paired.references).toHaveLength(2);
+    expect(paired.unmatchedReferences.map((ref) => ref.name)).toEqual([
+      'notes.txt',
+    ]);
+  });
+});
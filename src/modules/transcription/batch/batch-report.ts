@@ -0,0 +1,174 @@
+import { JobStatus, TranscriptionJob } from '../job-manager.service';
+
+// Aggregate statistics and CSV export over the child jobs of a batch
+
+export type BatchProviderStatus =
+  'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface ProviderBatchStats {
+  files: number;
+  completed: number;
+  failed: number;
+  failureRate: number | null; // failed / finished files
+  meanProcessingTime: number | null; // Seconds, completed files only
+  medianProcessingTime: number | null;
+  scored: number; // Files with a WER/CER score
+  meanWer: number | null;
+  meanCer: number | null;
+  // Word errors over reference words of all scored files, so long files
+  // weigh more than short ones
+  pooledWer: number | null;
+}
+
+export interface BatchSummary {
+  files: Record<'total' | JobStatus, number>;
+  providers: Record<string, ProviderBatchStats>;
+}
+
+// Status of one provider on one file. Providers that answered with a
+// FAILED result count as failed.
+export function getProviderStatus(
+  job: TranscriptionJob,
+  providerId: string,
+): BatchProviderStatus {
+  const providerResult = job.providerResults?.[providerId];
+  if (!providerResult) return 'pending';
+  if (
+    providerResult.status === 'completed' &&
+    providerResult.result?.status === 'FAILED'
+  ) {
+    return 'failed';
+  }
+  return providerResult.status;
+}
+
+export function summarizeBatch(
+  providers: string[],
+  jobs: TranscriptionJob[],
+): BatchSummary {
+  const files = {
+    total: jobs.length,
+    [JobStatus.PENDING]: 0,
+    [JobStatus.PROCESSING]: 0,
+    [JobStatus.COMPLETED]: 0,
+    [JobStatus.FAILED]: 0,
+    [JobStatus.CANCELLED]: 0,
+  };
+  for (const job of jobs) {
+    files[job.status]++;
+  }
+
+  const summary: Record<string, ProviderBatchStats> = {};
+  for (const providerId of providers) {
+    const statuses = jobs.map((job) => getProviderStatus(job, providerId));
+    const completed = statuses.filter((status) => status === 'completed');
+    const failed = statuses.filter((status) => status === 'failed');
+
+    const processingTimes = jobs
+      .filter((job, index) => statuses[index] === 'completed')
+      .map((job) => job.providerResults?.[providerId]?.result?.processingTime)
+      .filter((time): time is number => typeof time === 'number');
+
+    const scores = jobs
+      .map((job) => job.accuracy?.[providerId])
+      .filter((score) => !!score);
+    const referenceWords = scores.reduce(
+      (sum, score) => sum + score.words.referenceLength,
+      0,
+    );
+    const wordErrors = scores.reduce(
+      (sum, score) =>
+        sum +
+        score.words.substitutions +
+        score.words.insertions +
+        score.words.deletions,
+      0,
+    );
+
+    const finished = completed.length + failed.length;
+    summary[providerId] = {
+      files: jobs.length,
+      completed: completed.length,
+      failed: failed.length,
+      failureRate: finished > 0 ? failed.length / finished : null,
+      meanProcessingTime: mean(processingTimes),
+      medianProcessingTime: median(processingTimes),
+      scored: scores.length,
+      meanWer: mean(scores.map((score) => score.wer)),
+      meanCer: mean(scores.map((score) => score.cer)),
+      pooledWer: referenceWords > 0 ? wordErrors / referenceWords : null,
+    };
+  }
+
+  return { files, providers: summary };
+}
+
+const CSV_COLUMNS = [
+  'jobId',
+  'fileName',
+  'provider',
+  'status',
+  'processingTime',
+  'audioDuration',
+  'language',
+  'confidence',
+  'wer',
+  'cer',
+  'error',
+  'transcript',
+];
+
+// One row per file and provider
+export function buildBatchCsv(
+  providers: string[],
+  jobs: TranscriptionJob[],
+): string {
+  const rows = jobs.flatMap((job) =>
+    providers.map((providerId) => {
+      const providerResult = job.providerResults?.[providerId];
+      const result = providerResult?.result;
+      const accuracy = job.accuracy?.[providerId];
+      return [
+        job.id,
+        job.fileName,
+        providerId,
+        getProviderStatus(job, providerId),
+        result?.processingTime,
+        result?.audioDuration,
+        result?.language,
+        result?.confidence,
+        accuracy?.wer,
+        accuracy?.cer,
+        providerResult?.error ?? result?.error,
+        result?.transcript,
+      ];
+    }),
+  );
+
+  return [CSV_COLUMNS, ...rows]
+    .map((row) => row.map((value) => toCsvCell(value)).join(','))
+    .join('\r\n');
+}
+
+function toCsvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return String(value);
+
+  // Spreadsheets evaluate text starting with these characters as a formula
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,247 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Ip,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+  StreamableFile,
+  UploadedFiles,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileFieldsInterceptor } from '@nestjs/platform-express';
+import type { ApiClient } from '../../auth/api-client.interface';
+import { CurrentClient } from '../../auth/current-client.decorator';
+import {
+  BatchInfo,
+  JobManagerService,
+  JobPriority,
+  TranscriptionJob,
+} from '../job-manager.service';
+import { ProviderRegistryService } from '../providers/provider-registry.service';
+import { QueueOptionsDto } from '../dto/queue-options.dto';
+import { ConsensusOptionsDto } from '../dto/consensus-options.dto';
+import { PostProcessingOptionsDto } from '../dto/post-processing-options.dto';
+import { parseProviderSettings } from '../provider-options';
+import { toJobSummary } from '../job-response';
+import { ALLOWED_EXTENSIONS } from '../upload/file-signature';
+import { createExtensionFilter } from '../upload/upload-options';
+import { RemoveUploadOnErrorInterceptor } from '../upload/remove-upload-on-error.interceptor';
+import { ProviderQueueService } from '../queue/provider-queue.service';
+import { QuotaExceededError } from '../quota/client-quota';
+import { canAccessJob } from '../job-access';
+import { LanguageService } from '../language/language.service';
+import { PostProcessingRulesService } from '../postprocessing/post-processing-rules.service';
+import { JobPostProcessingRule } from '../postprocessing/post-processing-rule';
+import { BatchService } from './batch.service';
+import { buildBatchCsv, summarizeBatch } from './batch-report';
+
+// Upper bound for multer; the configured batch.maxFiles is checked later
+const MAX_UPLOAD_FILES = 1000;
+
+const filesFilter = createExtensionFilter(
+  [...ALLOWED_EXTENSIONS, 'txt'],
+  'file type',
+);
+const archiveFilter = createExtensionFilter(['zip'], 'archive format');
+
+@Controller('transcription/batch')
+export class BatchController {
+  constructor(
+    private batchService: BatchService,
+    private jobManagerService: JobManagerService,
+    private providerRegistry: ProviderRegistryService,
+    private providerQueue: ProviderQueueService,
+    private languageService: LanguageService,
+    private postProcessingRules: PostProcessingRulesService,
+  ) {}
+
+  // Audio files (plus optional .txt references with the same base name) in
+  // the `files` field, or all of them in a zip sent as `archive`
+  @Post()
+  @UseInterceptors(
+    FileFieldsInterceptor(
+      [
+        { name: 'files', maxCount: MAX_UPLOAD_FILES },
+        { name: 'archive', maxCount: 1 },
+      ],
+      {
+        fileFilter: (req, file, cb) =>
+          (file.fieldname === 'archive' ? archiveFilter : filesFilter)(
+            req,
+            file,
+            cb,
+          ),
+      },
+    ),
+    RemoveUploadOnErrorInterceptor,
+  )
+  async createBatch(
+    @UploadedFiles()
+    uploads: { files?: Express.Multer.File[]; archive?: Express.Multer.File[] },
+    // Provider options, read by each provider that runs
+    @Query() query: Record<string, unknown>,
+    @Query() queueOptions: QueueOptionsDto,
+    @Query() consensusOptions: ConsensusOptionsDto,
+    @Query() postProcessingOptions: PostProcessingOptionsDto,
+    @Ip() clientIp: string,
+    @CurrentClient() client: ApiClient | undefined,
+    @Query('language') language?: string,
+    @Query('providers') providers?: string,
+    @Body('name') name?: string,
+  ) {
+    const files = uploads?.files ?? [];
+    const archive = uploads?.archive?.[0];
+    if (files.length === 0 && !archive) {
+      throw new BadRequestException('No files uploaded');
+    }
+
+    // Comma-separated provider ids, defaults to every registered provider
+    const providerIds = providers
+      ? providers
+          .split(',')
+          .map((id) => id.trim())
+          .filter(Boolean)
+      : [];
+    const unknown = providerIds.filter((id) => !this.providerRegistry.has(id));
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Invalid provider(s): ${unknown.join(', ')}. Choose from: ${this.providerRegistry.getIds().join(', ')}`,
+      );
+    }
+
+    const runIds =
+      providerIds.length > 0 ? providerIds : this.providerRegistry.getIds();
+    const languageCode = this.languageService.parseLanguage(language);
+    if (!languageCode) {
+      throw new BadRequestException(
+        `Invalid language "${language}". Use a code such as en-US, or auto`,
+      );
+    }
+    const { providerOptions, models } = await parseProviderSettings(
+      this.providerRegistry,
+      runIds,
+      query,
+      languageCode,
+    );
+    const languageError = this.languageService.getLanguageError(
+      runIds,
+      languageCode,
+      models,
+    );
+    if (languageError) {
+      throw new BadRequestException(languageError);
+    }
+
+    let postProcessingRules: JobPostProcessingRule[] | undefined;
+    if (postProcessingOptions.postProcessing?.length) {
+      try {
+        postProcessingRules = this.postProcessingRules.getJobRules(
+          postProcessingOptions.postProcessing,
+          client,
+        );
+      } catch (error) {
+        throw new BadRequestException((error as Error).message);
+      }
+    }
+
+    try {
+      const batch = await this.batchService.createBatch(
+        { files, archive },
+        {
+          name,
+          languageCode,
+          providerIds,
+          providerOptions,
+          models,
+          priority: queueOptions.priority,
+          consensus: consensusOptions.consensus,
+          postProcessingRules,
+          clientId: client?.id ?? clientIp,
+          client,
+        },
+      );
+
+      return {
+        success: true,
+        ...batch,
+        message:
+          'Batch started. Use GET /transcription/batch/:batchId to check progress',
+      };
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        throw new HttpException(error.message, HttpStatus.TOO_MANY_REQUESTS);
+      }
+      throw new BadRequestException((error as Error).message);
+    }
+  }
+
+  // Batch status, per-provider aggregate stats and a summary of every file
+  @Get(':batchId')
+  getBatch(
+    @Param('batchId') batchId: string,
+    @CurrentClient() client: ApiClient | undefined,
+  ) {
+    const batch = this.getBatchJob(batchId, client);
+    const jobs = this.jobManagerService.getBatchJobs(batchId);
+
+    return {
+      success: true,
+      batch: {
+        id: batch.id,
+        name: batch.fileName,
+        status: batch.status,
+        languageCode: batch.languageCode,
+        priority: batch.priority ?? JobPriority.NORMAL,
+        providers: batch.batch.providers,
+        rejected: batch.batch.rejected,
+        summary: summarizeBatch(batch.batch.providers, jobs),
+        error: batch.error,
+        createdAt: batch.createdAt,
+        completedAt: batch.completedAt,
+      },
+      jobs: jobs.map((job) =>
+        toJobSummary(job, this.providerQueue.getPositions(job.id)),
+      ),
+    };
+  }
+
+  // One CSV row per file and provider
+  @Get(':batchId/export')
+  exportBatch(
+    @Param('batchId') batchId: string,
+    @CurrentClient() client: ApiClient | undefined,
+  ) {
+    const batch = this.getBatchJob(batchId, client);
+    const csv = buildBatchCsv(
+      batch.batch.providers,
+      this.jobManagerService.getBatchJobs(batchId),
+    );
+
+    const baseName = batch.fileName
+      .replace(/\.zip$/i, '')
+      .replace(/[^\w.-]/g, '_');
+    return new StreamableFile(Buffer.from(csv, 'utf8'), {
+      type: 'text/csv; charset=utf-8',
+      disposition: `attachment; filename="${baseName}.csv"`,
+    });
+  }
+
+  // Batches of other clients, and jobs that aren't batches, are reported
+  // as missing
+  private getBatchJob(
+    batchId: string,
+    client: ApiClient | undefined,
+  ): TranscriptionJob & { batch: BatchInfo } {
+    const job = this.jobManagerService.getJob(batchId);
+    if (!job || !job.batch || !canAccessJob(client, job)) {
+      throw new NotFoundException(`Batch with ID ${batchId} not found`);
+    }
+    return { ...job, batch: job.batch };
+  }
+}
@@ -0,0 +1,274 @@
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import { ApiClient } from '../../auth/api-client.interface';
+import {
+  BatchFile,
+  BatchRejectedFile,
+  JobManagerService,
+  JobPriority,
+} from '../job-manager.service';
+import { TranscriptionService } from '../transcription.service';
+import {
+  UploadValidatorService,
+  ValidatedUpload,
+} from '../upload/upload-validator.service';
+import { ALLOWED_EXTENSIONS } from '../upload/file-signature';
+import { extractZipArchive } from '../upload/zip-archive';
+import { ClientQuotaService } from '../quota/client-quota.service';
+import { QuotaRecord } from '../quota/client-quota';
+import { JobPostProcessingRule } from '../postprocessing/post-processing-rule';
+import { IncomingBatchFile, pairReferenceFiles } from './batch-files';
+
+export interface BatchUpload {
+  files: Express.Multer.File[]; // Audio files and .txt references
+  archive?: Express.Multer.File; // Zip with the same layout
+}
+
+export interface BatchSettings {
+  name?: string;
+  languageCode: string;
+  providerIds: string[]; // Empty selects every registered provider
+  providerOptions?: Record<string, Record<string, unknown>>;
+  models?: Record<string, string>; // Keyed by provider id
+  priority?: JobPriority;
+  clientId?: string;
+  client?: ApiClient; // Quotas apply to authenticated clients
+  consensus?: boolean; // Defaults to consensus.enabled
+  postProcessingRules?: JobPostProcessingRule[];
+}
+
+export interface CreatedBatch {
+  batchId: string;
+  jobs: { jobId: string; fileName: string; hasReference: boolean }[];
+  rejected: BatchRejectedFile[];
+}
+
+@Injectable()
+export class BatchService implements OnApplicationBootstrap {
+  constructor(
+    private configService: ConfigService,
+    private jobManagerService: JobManagerService,
+    private transcriptionService: TranscriptionService,
+    private uploadValidator: UploadValidatorService,
+    private clientQuota: ClientQuotaService,
+  ) {}
+
+  // Resume the interrupted jobs of each batch through the batch runner so
+  // they stay within the batch concurrency limit
+  onApplicationBootstrap() {
+    const batches = new Map<string, string[]>();
+    for (const job of this.jobManagerService.getInterruptedJobs()) {
+      if (!job.batchId || !this.transcriptionService.prepareRecovery(job)) {
+        continue;
+      }
+      batches.set(job.batchId, [...(batches.get(job.batchId) ?? []), job.id]);
+    }
+
+    for (const [batchId, jobIds] of batches) {
+      console.log(
+        `[Batch] Resuming ${jobIds.length} interrupted job(s) of batch ${batchId}`,
+      );
+      this.runBatch(batchId, jobIds).catch((error) => {
+        console.error(`Batch ${batchId} failed:`, error);
+      });
+    }
+  }
+
+  // Validate the uploaded files, create the batch and start it in the
+  // background. Invalid files are reported in `rejected`; an Error (meant
+  // for the client) is thrown when nothing is left to transcribe, and a
+  // QuotaExceededError when the valid files exceed the client's quotas.
+  async createBatch(
+    upload: BatchUpload,
+    settings: BatchSettings,
+  ): Promise<CreatedBatch> {
+    const incoming: IncomingBatchFile[] = upload.files.map((file) => ({
+      name: file.originalname,
+      path: file.path,
+      size: file.size,
+    }));
+    const rejected: BatchRejectedFile[] = [];
+    const files: BatchFile[] = [];
+    let quota: QuotaRecord[];
+
+    try {
+      if (upload.archive) {
+        const archive = await this.extractArchive(upload.archive);
+        incoming.push(...archive.entries);
+        rejected.push(
+          ...archive.skipped.map((fileName) => ({
+            fileName,
+            error: 'Unsupported file type',
+          })),
+        );
+      }
+
+      const { audio, references, unmatchedReferences } =
+        pairReferenceFiles(incoming);
+      rejected.push(
+        ...unmatchedReferences.map((file) => ({
+          fileName: file.name,
+          error: 'No audio file matches this reference transcript',
+        })),
+      );
+
+      const maxFiles = this.configService.get<number>('batch.maxFiles') || 100;
+      if (audio.length > maxFiles) {
+        throw new Error(
+          `A batch can contain at most ${maxFiles} audio files (got ${audio.length})`,
+        );
+      }
+
+      for (const file of audio) {
+        let validated: ValidatedUpload;
+        try {
+          validated = await this.uploadValidator.validate({
+            path: file.path,
+            originalname: file.name,
+            size: file.size,
+          });
+        } catch (error) {
+          rejected.push({
+            fileName: file.name,
+            error: (error as Error).message,
+          });
+          this.removeFiles([file.path]);
+          continue;
+        }
+
+        const reference = file.referencePath
+          ? fs.readFileSync(file.referencePath, 'utf8').trim()
+          : '';
+        files.push({
+          fileName: file.name,
+          filePath: file.path,
+          referenceTranscript: reference || undefined,
+          media: validated.media,
+        });
+      }
+
+      // References are copied onto the jobs
+      this.removeFiles(references.map((file) => file.path));
+
+      if (files.length === 0) {
+        throw new Error('The batch contains no valid audio files');
+      }
+
+      // Nothing is awaited from here until the jobs are created
+      quota = this.clientQuota.reserve(
+        settings.client,
+        files.map((file) => file.media?.duration ?? null),
+      );
+    } catch (error) {
+      this.removeFiles(incoming.map((file) => file.path));
+      throw error;
+    }
+
+    const providers = this.transcriptionService
+      .resolveProviders(settings.providerIds)
+      .map((provider) => provider.id);
+    const name =
+      settings.name?.trim() ||
+      upload.archive?.originalname ||
+      `Batch of ${files.length} files`;
+
+    const batchId = this.jobManagerService.createBatchJob(
+      name,
+      settings.languageCode,
+      providers,
+      files,
+      rejected,
+      {
+        models: settings.models,
+        providerOptions: settings.providerOptions,
+        priority: settings.priority,
+        clientId: settings.clientId,
+        consensus:
+          settings.consensus ??
+          this.configService.get<boolean>('consensus.enabled'),
+        postProcessingRules: settings.postProcessingRules,
+      },
+    );
+
+    const jobs = this.jobManagerService.getBatchJobs(batchId);
+    const jobIds = jobs.map((job) => job.id);
+
+    // Run transcription in background
+    this.runBatch(batchId, jobIds).catch((error) => {
+      console.error(`Batch ${batchId} failed:`, error);
+    });
+
+    this.clientQuota.assignJobs(quota, jobIds);
+    console.log(
+      `[Batch] Created batch ${batchId} with ${jobs.length} files (${rejected.length} rejected)`,
+    );
+
+    return {
+      batchId,
+      jobs: jobs.map((job) => ({
+        jobId: job.id,
+        fileName: job.fileName,
+        hasReference: !!job.referenceTranscript,
+      })),
+      rejected,
+    };
+  }
+
+  // Work through the batch with a fixed number of jobs in flight so a large
+  // batch doesn't hit every provider with all files at once
+  private async runBatch(batchId: string, jobIds: string[]): Promise<void> {
+    const queue = [...jobIds];
+    const concurrency = Math.max(
+      1,
+      this.configService.get<number>('batch.concurrency') || 2,
+    );
+
+    const worker = async () => {
+      for (let jobId = queue.shift(); jobId; jobId = queue.shift()) {
+        try {
+          // Jobs cancelled while queued are skipped by runJob
+          await this.transcriptionService.runJob(jobId);
+        } catch (error) {
+          console.error(`Job ${jobId} of batch ${batchId} failed:`, error);
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, queue.length) }, worker),
+    );
+  }
+
+  private async extractArchive(archive: Express.Multer.File) {
+    const maxFiles = this.configService.get<number>('batch.maxFiles') || 100;
+    const maxFileSizeMb =
+      this.configService.get<number>('uploads.maxFileSizeMb') || 500;
+    const maxArchiveMb =
+      this.configService.get<number>('batch.maxArchiveMb') || 2048;
+
+    try {
+      return await extractZipArchive(
+        archive.path,
+        this.configService.get<string>('uploads.dir') || './public/uploads',
+        [...ALLOWED_EXTENSIONS, 'txt'],
+        {
+          // Every audio file may come with a reference transcript
+          maxEntries: maxFiles * 2,
+          maxEntryBytes: maxFileSizeMb * 1024 * 1024,
+          maxTotalBytes: maxArchiveMb * 1024 * 1024,
+        },
+      );
+    } finally {
+      this.removeFiles([archive.path]);
+    }
+  }
+
+  private removeFiles(filePaths: string[]): void {
+    for (const filePath of filePaths) {
+      if (fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import {
+  TranscriptResult,
+  TranscriptWord,
+} from '../providers/transcript-result.interface';
+import {
+  alignWords,
+  buildConsensusWords,
+  createConsensusResult,
+  splitAtPauses,
+} from './rover';
+
+describe('ROVER consensus', () => {
+  const word = (
+    text: string,
+    start: number,
+    confidence: number | null = 0.9,
+    speaker: number | null = null,
+  ): TranscriptWord => ({
+    text,
+    start,
+    end: start + 0.8,
+    confidence,
+    speaker,
+  });
+
+  // One word per second, with the given confidences (default 0.9)
+  const sequence = (text: string, confidences: number[] = []) =>
+    text
+      .split(' ')
+      .map((token, index) => word(token, index, confidences[index] ?? 0.9));
+
+  const result = (
+    providerId: string,
+    words: TranscriptWord[],
+  ): TranscriptResult => ({
+    provider: providerId,
+    providerId,
+    status: 'COMPLETED',
+    transcript: words.map((w) => w.text).join(' '),
+    words,
+    segments: [],
+    language: `${providerId}-language`,
+    languageConfidence: null,
+    confidence: null,
+    model: null,
+    processingTime: 1,
+    audioDuration: 10,
+    error: null,
+    metadata: {},
+  });
+
+  const texts = (words: (TranscriptWord | null)[]) =>
+    words.map((w) => w?.text ?? null);
+
+  describe('alignWords', () => {
+    it('should line up matching words ignoring case and punctuation', () => {
+      const slots = alignWords([
+        sequence('The cat, sat'),
+        sequence('the cat sat.'),
+      ]);
+
+      expect(slots.map(texts)).toEqual([
+        ['The', 'the'],
+        ['cat,', 'cat'],
+        ['sat', 'sat.'],
+      ]);
+    });
+
+    it('should give inserted and substituted words their own slots', () => {
+      const slots = alignWords([
+        sequence('the cat sat'),
+        sequence('the bat sat down'),
+      ]);
+
+      expect(slots.map(texts)).toEqual([
+        ['the', 'the'],
+        ['cat', 'bat'],
+        ['sat', 'sat'],
+        [null, 'down'],
+      ]);
+    });
+  });
+
+  describe('splitAtPauses', () => {
+    it('should cut at silence shared by every transcript', () => {
+      const a = [{ ...word('one', 0), end: 31 }, word('two', 40)];
+      const b = [{ ...word('one', 1), end: 20 }, word('two', 40.5)];
+
+      expect(splitAtPauses([a, b])).toEqual([
+        [[a[0]], [b[0]]],
+        [[a[1]], [b[1]]],
+      ]);
+    });
+
+    it('should not cut blocks shorter than 30 seconds', () => {
+      const a = [word('one', 0), word('two', 10)];
+      expect(splitAtPauses([a])).toHaveLength(1);
+    });
+  });
+
+  describe('buildConsensusWords', () => {
+    it('should keep the majority word and flag the disagreement', () => {
+      const consensus = buildConsensusWords(
+        ['a', 'b', 'c'],
+        [
+          sequence('the cat sat'),
+          sequence('the bat sat'),
+          sequence('the cat sat'),
+        ],
+        { confidenceWeight: 0 },
+      );
+
+      expect(consensus.words.map((w) => w.text)).toEqual(['the', 'cat', 'sat']);
+      expect(consensus.disagreements).toEqual([
+        {
+          start: 1,
+          end: 1.8,
+          text: 'cat',
+          alternatives: { a: 'cat', b: 'bat', c: 'cat' },
+        },
+      ]);
+    });
+
+    it('should prefer the more confident word between two providers', () => {
+      const consensus = buildConsensusWords(
+        ['a', 'b'],
+        [sequence('the cat sat', [0.9, 0.4]), sequence('the bat sat')],
+        { confidenceWeight: 0.5 },
+      );
+
+      expect(consensus.words.map((w) => w.text)).toEqual(['the', 'bat', 'sat']);
+    });
+
+    it('should resolve exact ties with the tie-breaker', () => {
+      const sequences = [sequence('the cat sat'), sequence('the bat sat')];
+
+      expect(
+        buildConsensusWords(['a', 'b'], sequences, { confidenceWeight: 0.5 })
+          .words[1].text,
+      ).toBe('cat');
+      expect(
+        buildConsensusWords(['a', 'b'], sequences, {
+          tieBreaker: 'b',
+          confidenceWeight: 0.5,
+        }).words[1].text,
+      ).toBe('bat');
+    });
+
+    it('should drop a low-confidence word only one provider heard', () => {
+      const consensus = buildConsensusWords(
+        ['a', 'b'],
+        [
+          sequence('the cat sat'),
+          sequence('the cat sat um', [0.9, 0.9, 0.9, 0.2]),
+        ],
+        { confidenceWeight: 0.5 },
+      );
+
+      expect(consensus.words.map((w) => w.text)).toEqual(['the', 'cat', 'sat']);
+      expect(consensus.disagreements).toEqual([
+        { start: 3, end: 3.8, text: '', alternatives: { a: '', b: 'um' } },
+      ]);
+    });
+  });
+
+  describe('createConsensusResult', () => {
+    it('should label words with the job speaker ids', () => {
+      const consensus = createConsensusResult(
+        {
+          aws: result('aws', [
+            word('hello', 0, 0.9, 0),
+            word('there', 2, 0.9, 1),
+          ]),
+          deepgram: result('deepgram', [
+            word('hello', 0, 0.9, 1),
+            word('there', 2, 0.9, 0),
+          ]),
+        },
+        { tieBreaker: 'deepgram', confidenceWeight: 0.5 },
+      );
+
+      expect(consensus.providerId).toBe('consensus');
+      expect(consensus.transcript).toBe('hello there');
+      expect(consensus.words.map((w) => w.speaker)).toEqual([0, 1]);
+      expect(consensus.segments.map((s) => s.speaker)).toEqual([0, 1]);
+      expect(consensus.language).toBe('deepgram-language');
+      expect(consensus.metadata).toEqual({
+        sources: ['aws', 'deepgram'],
+        tieBreaker: 'deepgram',
+        disagreements: [],
+      });
+    });
+
+    it('should fall back to the first provider for an unknown tie-breaker', () => {
+      const consensus = createConsensusResult(
+        {
+          aws: result('aws', sequence('hello')),
+          deepgram: result('deepgram', sequence('hello')),
+        },
+        { tieBreaker: 'whisper', confidenceWeight: 0.5 },
+      );
+
+      expect(consensus.metadata.tieBreaker).toBe('aws');
+      expect(consensus.segments).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,280 @@
+import {
+  averageWordConfidence,
+  groupWordsBySpeaker,
+  TranscriptResult,
+  TranscriptWord,
+} from '../providers/transcript-result.interface';
+import { compareDiarization } from '../diarization/speaker-diarization';
+
+// ROVER-style combination of provider transcripts: the word sequences are
+// aligned into slots (one candidate word, or none, per provider) and every
+// slot is decided by a vote weighted with word confidence.
+
+// Key of the combined result in providerResults
+export const CONSENSUS_PROVIDER_ID = 'consensus';
+
+export interface ConsensusOptions {
+  // Provider whose choice wins exact ties; defaults to the first provider
+  tieBreaker?: string;
+  // Weight of word confidence against the share of votes (0-1)
+  confidenceWeight: number;
+}
+
+// A run of slots where the providers did not all agree
+export interface DisagreementSpan {
+  start: number;
+  end: number;
+  text: string; // What the consensus kept
+  alternatives: Record<string, string>; // Provider id -> its words, '' for none
+}
+
+export interface ConsensusWords {
+  words: TranscriptWord[];
+  disagreements: DisagreementSpan[];
+}
+
+type Slot = (TranscriptWord | null)[]; // Indexed like the provider ids
+
+// Confidence of "no word here", the ROVER null arc score
+const NO_WORD_CONFIDENCE = 0.5;
+// Used for words the provider gave no confidence for
+const UNKNOWN_CONFIDENCE = 0.5;
+// Long transcripts are aligned in blocks of at least this many seconds
+const BLOCK_SECONDS = 30;
+
+// Lower-cased word without punctuation, so 'Hello,' matches 'hello'
+export function wordKey(word: TranscriptWord | null): string {
+  return word ? word.text.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '') : '';
+}
+
+// Align the word sequences of every provider into slots, adding one
+// provider at a time against the slots built so far
+export function alignWords(sequences: TranscriptWord[][]): Slot[] {
+  let slots: Slot[] = (sequences[0] ?? []).map((word) => [word]);
+
+  for (let index = 1; index < sequences.length; index++) {
+    const words = sequences[index];
+    const slotKeys = slots.map((slot) =>
+      wordKey(slot.find((word) => word !== null) ?? null),
+    );
+    const wordKeys = words.map((word) => wordKey(word));
+
+    // Levenshtein distance between the slots and the new words
+    const rows = slots.length + 1;
+    const columns = words.length + 1;
+    const cost: number[][] = Array.from({ length: rows }, (_, i) =>
+      Array.from({ length: columns }, (_, j) =>
+        i === 0 ? j : j === 0 ? i : 0,
+      ),
+    );
+    for (let i = 1; i < rows; i++) {
+      for (let j = 1; j < columns; j++) {
+        cost[i][j] = Math.min(
+          cost[i - 1][j - 1] + (slotKeys[i - 1] === wordKeys[j - 1] ? 0 : 1),
+          cost[i - 1][j] + 1,
+          cost[i][j - 1] + 1,
+        );
+      }
+    }
+
+    // Walk back from the end: match/substitute, slot without a word, or a
+    // word without a slot
+    const aligned: Slot[] = [];
+    let i = slots.length;
+    let j = words.length;
+    while (i > 0 || j > 0) {
+      if (
+        i > 0 &&
+        j > 0 &&
+        cost[i][j] ===
+          cost[i - 1][j - 1] + (slotKeys[i - 1] === wordKeys[j - 1] ? 0 : 1)
+      ) {
+        aligned.push([...slots[i - 1], words[j - 1]]);
+        i--;
+        j--;
+      } else if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+        aligned.push([...slots[i - 1], null]);
+        i--;
+      } else {
+        aligned.push([...new Array<null>(index).fill(null), words[j - 1]]);
+        j--;
+      }
+    }
+    slots = aligned.reverse();
+  }
+
+  return slots;
+}
+
+// Cut the sequences where no transcript has a word, at most every
+// BLOCK_SECONDS, so long files are aligned block by block instead of in
+// one quadratic pass. Returns the blocks, each holding every sequence.
+export function splitAtPauses(
+  sequences: TranscriptWord[][],
+): TranscriptWord[][][] {
+  const spans = sequences
+    .flat()
+    .map((word) => [word.start, word.end])
+    .sort((a, b) => a[0] - b[0]);
+
+  const cuts: number[] = [];
+  let coveredUntil = -Infinity;
+  let lastCut = 0;
+  for (const [start, end] of spans) {
+    if (start > coveredUntil && coveredUntil >= lastCut + BLOCK_SECONDS) {
+      lastCut = (coveredUntil + start) / 2;
+      cuts.push(lastCut);
+    }
+    coveredUntil = Math.max(coveredUntil, end);
+  }
+
+  const bounds = [-Infinity, ...cuts, Infinity];
+  return bounds
+    .slice(1)
+    .map((end, index) =>
+      sequences.map((words) =>
+        words.filter((word) => word.start >= bounds[index] && word.start < end),
+      ),
+    );
+}
+
+// Pick one candidate per slot. Each distinct word (or no word) scores
+// (1 - w) * share of providers + w * mean confidence; exact ties go to the
+// tie-breaker's candidate.
+export function buildConsensusWords(
+  providerIds: string[],
+  sequences: TranscriptWord[][],
+  options: ConsensusOptions,
+): ConsensusWords {
+  const slots = splitAtPauses(sequences).flatMap((block) => alignWords(block));
+  const tieBreaker = Math.max(
+    0,
+    providerIds.indexOf(options.tieBreaker ?? providerIds[0]),
+  );
+  const weight = Math.min(1, Math.max(0, options.confidenceWeight));
+
+  const chosen = slots.map((slot) => {
+    const groups = new Map<string, number[]>(); // Word key -> provider indexes
+    slot.forEach((word, index) => {
+      const key = wordKey(word);
+      groups.set(key, [...(groups.get(key) ?? []), index]);
+    });
+
+    const scored = [...groups.entries()].map(([key, indexes]) => {
+      const confidence =
+        indexes.reduce(
+          (sum, index) =>
+            sum +
+            (slot[index]
+              ? (slot[index].confidence ?? UNKNOWN_CONFIDENCE)
+              : NO_WORD_CONFIDENCE),
+          0,
+        ) / indexes.length;
+      return {
+        key,
+        indexes,
+        score:
+          (1 - weight) * (indexes.length / slot.length) + weight * confidence,
+      };
+    });
+    const best = scored.reduce((a, b) =>
+      b.score > a.score ||
+      (b.score === a.score && b.indexes.includes(tieBreaker))
+        ? b
+        : a,
+    );
+
+    // Timing and speaker come from the tie-breaker's copy when it has one
+    const index = best.indexes.includes(tieBreaker)
+      ? tieBreaker
+      : best.indexes[0];
+    return { word: slot[index], agreed: groups.size === 1 };
+  });
+
+  const words = chosen
+    .map((entry) => entry.word)
+    .filter((word): word is TranscriptWord => word !== null);
+
+  const disagreements: DisagreementSpan[] = [];
+  for (let start = 0; start < slots.length; start++) {
+    if (chosen[start].agreed) continue;
+
+    let end = start;
+    while (end + 1 < slots.length && !chosen[end + 1].agreed) end++;
+
+    const spanSlots = slots.slice(start, end + 1);
+    const spanWords = spanSlots.flat().filter((word) => word !== null);
+    const textOf = (words: (TranscriptWord | null)[]) =>
+      words
+        .filter((word) => word !== null)
+        .map((word) => word.text)
+        .join(' ');
+
+    disagreements.push({
+      start: Math.min(...spanWords.map((word) => word.start)),
+      end: Math.max(...spanWords.map((word) => word.end)),
+      text: textOf(chosen.slice(start, end + 1).map((entry) => entry.word)),
+      alternatives: Object.fromEntries(
+        providerIds.map((providerId, index) => [
+          providerId,
+          textOf(spanSlots.map((slot) => slot[index])),
+        ]),
+      ),
+    });
+    start = end;
+  }
+
+  return { words, disagreements };
+}
+
+// Combine completed provider results into one result. Speakers are
+// translated to the job's speaker ids (see compareDiarization) so words
+// from different providers share one set of labels.
+export function createConsensusResult(
+  results: Record<string, TranscriptResult>,
+  options: ConsensusOptions,
+): TranscriptResult {
+  const startTime = Date.now();
+  const providerIds = Object.keys(results);
+  const speakerMapping = compareDiarization(results).mapping;
+
+  const sequences = providerIds.map((providerId) =>
+    results[providerId].words.map((word) => ({
+      ...word,
+      speaker:
+        word.speaker === null
+          ? null
+          : (speakerMapping[providerId]?.[word.speaker] ?? null),
+    })),
+  );
+  const tieBreaker = providerIds.includes(options.tieBreaker ?? '')
+    ? options.tieBreaker!
+    : providerIds[0];
+  const { words, disagreements } = buildConsensusWords(providerIds, sequences, {
+    ...options,
+    tieBreaker,
+  });
+
+  const durations = providerIds
+    .map((providerId) => results[providerId].audioDuration)
+    .filter((duration): duration is number => duration !== null);
+
+  return {
+    provider: 'Consensus',
+    providerId: CONSENSUS_PROVIDER_ID,
+    status: 'COMPLETED',
+    transcript: words.map((word) => word.text).join(' '),
+    words,
+    segments: words.some((word) => word.speaker !== null)
+      ? groupWordsBySpeaker(words)
+      : [],
+    language: results[tieBreaker].language,
+    languageConfidence: null,
+    confidence: averageWordConfidence(words),
+    model: null,
+    processingTime: (Date.now() - startTime) / 1000,
+    audioDuration: durations.length > 0 ? Math.max(...durations) : null,
+    error: null,
+    metadata: { sources: providerIds, tieBreaker, disagreements },
+  };
+}
@@ -0,0 +1,87 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Patch,
+  Query,
+} from '@nestjs/common';
+import type { ApiClient } from '../../auth/api-client.interface';
+import { CurrentClient } from '../../auth/current-client.decorator';
+import { JobManagerService, TranscriptionJob } from '../job-manager.service';
+import { SpeakerNamesDto } from '../dto/speaker-names.dto';
+import { canAccessJob } from '../job-access';
+import { getJobDiarization } from './job-diarization';
+
+const MAX_NAME_LENGTH = 100;
+
+@Controller('transcription/job')
+export class DiarizationController {
+  constructor(private jobManagerService: JobManagerService) {}
+
+  // Speaker mapping across providers, diarization error rates against the
+  // reference provider (default: the anchor) and the merged timeline
+  @Get(':jobId/diarization')
+  getDiarization(
+    @Param('jobId') jobId: string,
+    @CurrentClient() client: ApiClient | undefined,
+    @Query('reference') reference?: string,
+  ) {
+    const job = this.getJobFor(jobId, client);
+
+    try {
+      return {
+        success: true,
+        ...getJobDiarization(job, reference || undefined),
+      };
+    } catch (error) {
+      throw new BadRequestException((error as Error).message);
+    }
+  }
+
+  @Patch(':jobId/speakers')
+  renameSpeakers(
+    @Param('jobId') jobId: string,
+    @Body() body: SpeakerNamesDto,
+    @CurrentClient() client: ApiClient | undefined,
+  ) {
+    this.getJobFor(jobId, client);
+
+    const names: Record<string, string> = {};
+    for (const [speaker, name] of Object.entries(body.names)) {
+      if (!/^\d+$/.test(speaker)) {
+        throw new BadRequestException(
+          `Invalid speaker id "${speaker}", use the ids from GET /transcription/job/:jobId/diarization`,
+        );
+      }
+      if (typeof name !== 'string' || name.length > MAX_NAME_LENGTH) {
+        throw new BadRequestException(
+          `Speaker names must be strings of at most ${MAX_NAME_LENGTH} characters`,
+        );
+      }
+      names[String(Number(speaker))] = name.trim();
+    }
+
+    this.jobManagerService.setSpeakerNames(jobId, names);
+
+    return {
+      success: true,
+      speakerNames: this.jobManagerService.getJob(jobId)?.speakerNames ?? {},
+    };
+  }
+
+  // Jobs of other clients are reported as missing
+  private getJobFor(
+    jobId: string,
+    client: ApiClient | undefined,
+  ): TranscriptionJob {
+    const job = this.jobManagerService.getJob(jobId);
+
+    if (!job || !canAccessJob(client, job)) {
+      throw new NotFoundException(`Job with ID ${jobId} not found`);
+    }
+    return job;
+  }
+}
@@ -0,0 +1,78 @@
+import { getProviderIds, TranscriptionJob } from '../job-manager.service';
+import { TranscriptResult } from '../providers/transcript-result.interface';
+import { CONSENSUS_PROVIDER_ID } from '../consensus/rover';
+import { compareDiarization } from './speaker-diarization';
+
+// Completed transcripts of a job's providers (not the consensus), keyed by
+// provider id
+export function getCompletedResults(
+  job: TranscriptionJob,
+): Record<string, TranscriptResult> {
+  const results: Record<string, TranscriptResult> = {};
+  if (job.providerResults) {
+    for (const providerId of getProviderIds(job)) {
+      const result = job.providerResults[providerId].result;
+      if (result?.status === 'COMPLETED') {
+        results[providerId] = result;
+      }
+    }
+  } else if (job.provider && job.result?.status === 'COMPLETED') {
+    results[job.provider] = job.result;
+  }
+  return results;
+}
+
+// Diarization comparison of a job with the speaker names given to it
+export function getJobDiarization(job: TranscriptionJob, referenceId?: string) {
+  const comparison = compareDiarization(getCompletedResults(job), referenceId);
+  const names = job.speakerNames ?? {};
+
+  const speakingTime = new Map<number, number>();
+  for (const entry of comparison.timeline) {
+    speakingTime.set(
+      entry.speaker,
+      (speakingTime.get(entry.speaker) ?? 0) + entry.end - entry.start,
+    );
+  }
+  const speakerIds = new Set([
+    ...Object.values(comparison.mapping).flatMap((speakers) =>
+      Object.values(speakers),
+    ),
+  ]);
+
+  return {
+    ...comparison,
+    speakers: [...speakerIds]
+      .sort((a, b) => a - b)
+      .map((speaker) => ({
+        speaker,
+        name: names[speaker] ?? null,
+        speakingTime:
+          Math.round((speakingTime.get(speaker) ?? 0) * 1000) / 1000,
+      })),
+    timeline: comparison.timeline.map((entry) => ({
+      ...entry,
+      name: names[entry.speaker] ?? null,
+    })),
+  };
+}
+
+// Names for one provider's speaker labels, translated from the names given
+// to the job's speakers
+export function getProviderSpeakerNames(
+  job: TranscriptionJob,
+  providerId: string,
+): Record<number, string> {
+  const names = job.speakerNames ?? {};
+  if (Object.keys(names).length === 0) return {};
+  // The consensus is labelled with the job's speaker ids already
+  if (providerId === CONSENSUS_PROVIDER_ID) return names;
+
+  const mapping =
+    compareDiarization(getCompletedResults(job)).mapping[providerId] ?? {};
+  const providerNames: Record<number, string> = {};
+  for (const [speaker, jobSpeaker] of Object.entries(mapping)) {
+    if (names[jobSpeaker]) providerNames[Number(speaker)] = names[jobSpeaker];
+  }
+  return providerNames;
+}
@@ -0,0 +1,118 @@
+import { TranscriptResult } from '../providers/transcript-result.interface';
+import {
+  compareDiarization,
+  computeDiarizationError,
+  mapSpeakers,
+  mergeSpeakerTimelines,
+  SpeakerTurn,
+} from './speaker-diarization';
+
+describe('speaker diarization', () => {
+  const turn = (speaker: number, start: number, end: number): SpeakerTurn => ({
+    speaker,
+    start,
+    end,
+  });
+
+  const result = (turns: SpeakerTurn[]): TranscriptResult => ({
+    provider: 'Test',
+    providerId: 'test',
+    status: 'COMPLETED',
+    transcript: '',
+    words: [],
+    segments: turns.map((t) => ({ ...t, text: '', wordCount: 0 })),
+    language: 'en-US',
+    languageConfidence: null,
+    confidence: null,
+    model: null,
+    processingTime: 1,
+    audioDuration: 10,
+    error: null,
+    metadata: {},
+  });
+
+  // AWS-style labels and the same conversation with swapped speaker numbers
+  const aws = [turn(0, 0, 4), turn(1, 4, 8), turn(0, 8, 10)];
+  const deepgram = [turn(1, 0, 4.5), turn(0, 4.5, 8), turn(1, 8, 10)];
+
+  describe('mapSpeakers', () => {
+    it('should pair speakers by overlapping time', () => {
+      expect(mapSpeakers(aws, deepgram)).toEqual(
+        new Map([
+          [0, 1],
+          [1, 0],
+        ]),
+      );
+    });
+
+    it('should leave extra hypothesis speakers unmapped', () => {
+      const mapping = mapSpeakers(aws, [...deepgram, turn(2, 10, 11)]);
+      expect(mapping.get(2)).toBeNull();
+    });
+  });
+
+  describe('computeDiarizationError', () => {
+    it('should count confusion after mapping labels', () => {
+      const error = computeDiarizationError(aws, deepgram);
+
+      expect(error.confusion).toBe(0.5);
+      expect(error.missed).toBe(0);
+      expect(error.falseAlarm).toBe(0);
+      expect(error.der).toBeCloseTo(0.05);
+    });
+
+    it('should count missed and false alarm speech', () => {
+      const error = computeDiarizationError([turn(0, 0, 4)], [turn(3, 2, 6)]);
+
+      expect(error).toEqual({
+        der: 1,
+        missed: 2,
+        falseAlarm: 2,
+        confusion: 0,
+        referenceSpeech: 4,
+      });
+    });
+  });
+
+  describe('mergeSpeakerTimelines', () => {
+    it('should follow the majority and prefer the first list on ties', () => {
+      expect(
+        mergeSpeakerTimelines([
+          [turn(0, 0, 4), turn(1, 4, 8)],
+          [turn(0, 0, 4.5), turn(1, 4.5, 8)],
+        ]),
+      ).toEqual([
+        { speaker: 0, start: 0, end: 4, agreement: 1 },
+        { speaker: 1, start: 4, end: 8, agreement: 0.938 },
+      ]);
+    });
+  });
+
+  describe('compareDiarization', () => {
+    it('should map providers onto the anchor speakers', () => {
+      const comparison = compareDiarization({
+        aws: result(aws),
+        deepgram: result([...deepgram, turn(2, 10, 11)]),
+      });
+
+      expect(comparison.anchor).toBe('aws');
+      expect(comparison.mapping).toEqual({
+        aws: { 0: 0, 1: 1 },
+        deepgram: { 0: 1, 1: 0, 2: 2 },
+      });
+      expect(comparison.errorRates.deepgram.falseAlarm).toBe(1);
+      expect(comparison.timeline.map((entry) => entry.speaker)).toEqual([
+        0, 1, 0, 2,
+      ]);
+    });
+
+    it('should reject a reference without speaker labels', () => {
+      expect(() =>
+        compareDiarization(
+          { aws: result(aws), deepgram: result([]) },
+          'deepgram',
+        ),
+      ).toThrow('no speaker labels');
+    });
+  });
+});
@@ -0,0 +1,314 @@
+import {
+  groupWordsBySpeaker,
+  TranscriptResult,
+} from '../providers/transcript-result.interface';
+
+// Diarization comparison between providers. Every provider numbers its
+// speakers independently, so labels are matched by how long two speakers
+// talk at the same time. Times are in seconds.
+
+export interface SpeakerTurn {
+  speaker: number;
+  start: number;
+  end: number;
+}
+
+// Standard diarization error rate against a reference: missed speech,
+// false alarm speech and speaker confusion over total reference speech
+export interface DiarizationError {
+  der: number | null; // null when the reference has no labelled speech
+  missed: number;
+  falseAlarm: number;
+  confusion: number;
+  referenceSpeech: number;
+}
+
+export interface TimelineEntry {
+  speaker: number; // Job speaker id
+  start: number;
+  end: number;
+  agreement: number; // Share of providers hearing this speaker (0-1)
+}
+
+export interface DiarizationComparison {
+  // Provider whose speaker labels are used as the job's speaker ids
+  anchor: string | null;
+  // Provider speaker label -> job speaker id, keyed by provider id
+  mapping: Record<string, Record<string, number>>;
+  reference: string | null; // Provider the error rates are measured against
+  errorRates: Record<string, DiarizationError>; // Other providers only
+  timeline: TimelineEntry[]; // Majority speaker over time
+}
+
+interface Interval {
+  start: number;
+  end: number;
+  active: Set<number>[]; // Speakers talking, one set per turn list
+}
+
+// Speaker turns of a result: its segments, or runs of words for providers
+// that only label words. Speech without a speaker label is left out.
+export function getSpeakerTurns(result: TranscriptResult): SpeakerTurn[] {
+  const segments =
+    result.segments.length > 0
+      ? result.segments
+      : groupWordsBySpeaker(result.words);
+
+  return segments
+    .filter(
+      (segment) => segment.speaker !== null && segment.end > segment.start,
+    )
+    .map((segment) => ({
+      speaker: segment.speaker!,
+      start: segment.start,
+      end: segment.end,
+    }));
+}
+
+// Map each hypothesis speaker to the reference speaker it overlaps most,
+// one-to-one, taking the pairs with the most shared time first. Hypothesis
+// speakers left without a partner map to null.
+export function mapSpeakers(
+  reference: SpeakerTurn[],
+  hypothesis: SpeakerTurn[],
+): Map<number, number | null> {
+  const overlaps = new Map<string, number>();
+  for (const interval of splitIntervals([reference, hypothesis])) {
+    const duration = interval.end - interval.start;
+    for (const referenceSpeaker of interval.active[0]) {
+      for (const hypothesisSpeaker of interval.active[1]) {
+        const key = `${referenceSpeaker}:${hypothesisSpeaker}`;
+        overlaps.set(key, (overlaps.get(key) ?? 0) + duration);
+      }
+    }
+  }
+
+  const pairs = [...overlaps.entries()]
+    .map(([key, overlap]) => {
+      const [referenceSpeaker, hypothesisSpeaker] = key.split(':').map(Number);
+      return { referenceSpeaker, hypothesisSpeaker, overlap };
+    })
+    .sort(
+      (a, b) =>
+        b.overlap - a.overlap ||
+        a.referenceSpeaker - b.referenceSpeaker ||
+        a.hypothesisSpeaker - b.hypothesisSpeaker,
+    );
+
+  const mapping = new Map<number, number | null>(
+    speakersOf(hypothesis).map((speaker) => [speaker, null]),
+  );
+  const taken = new Set<number>();
+  for (const pair of pairs) {
+    if (
+      mapping.get(pair.hypothesisSpeaker) !== null ||
+      taken.has(pair.referenceSpeaker)
+    ) {
+      continue;
+    }
+    mapping.set(pair.hypothesisSpeaker, pair.referenceSpeaker);
+    taken.add(pair.referenceSpeaker);
+  }
+  return mapping;
+}
+
+export function computeDiarizationError(
+  reference: SpeakerTurn[],
+  hypothesis: SpeakerTurn[],
+): DiarizationError {
+  // Unmapped hypothesis speakers get ids no reference speaker has
+  const mapping = mapSpeakers(reference, hypothesis);
+  const mapped = hypothesis.map((turn) => ({
+    ...turn,
+    speaker: mapping.get(turn.speaker) ?? -1 - turn.speaker,
+  }));
+
+  let missed = 0;
+  let falseAlarm = 0;
+  let confusion = 0;
+  let referenceSpeech = 0;
+  for (const interval of splitIntervals([reference, mapped])) {
+    const duration = interval.end - interval.start;
+    const [referenceSpeakers, hypothesisSpeakers] = interval.active;
+    const correct = [...referenceSpeakers].filter((speaker) =>
+      hypothesisSpeakers.has(speaker),
+    ).length;
+
+    referenceSpeech += referenceSpeakers.size * duration;
+    missed +=
+      Math.max(0, referenceSpeakers.size - hypothesisSpeakers.size) * duration;
+    falseAlarm +=
+      Math.max(0, hypothesisSpeakers.size - referenceSpeakers.size) * duration;
+    confusion +=
+      (Math.min(referenceSpeakers.size, hypothesisSpeakers.size) - correct) *
+      duration;
+  }
+
+  return {
+    der:
+      referenceSpeech > 0
+        ? (missed + falseAlarm + confusion) / referenceSpeech
+        : null,
+    missed: roundTime(missed),
+    falseAlarm: roundTime(falseAlarm),
+    confusion: roundTime(confusion),
+    referenceSpeech: roundTime(referenceSpeech),
+  };
+}
+
+// Majority speaker over time from turns already in job speaker ids. Ties
+// go to the first list (the anchor), then to the lowest speaker id.
+export function mergeSpeakerTimelines(
+  turnLists: SpeakerTurn[][],
+): TimelineEntry[] {
+  const timeline: TimelineEntry[] = [];
+
+  for (const interval of splitIntervals(turnLists)) {
+    const votes = new Map<number, number>();
+    for (const speakers of interval.active) {
+      for (const speaker of speakers) {
+        votes.set(speaker, (votes.get(speaker) ?? 0) + 1);
+      }
+    }
+    if (votes.size === 0) continue;
+
+    const [speaker, count] = [...votes.entries()].sort(
+      (a, b) =>
+        b[1] - a[1] ||
+        Number(interval.active[0].has(b[0])) -
+          Number(interval.active[0].has(a[0])) ||
+        a[0] - b[0],
+    )[0];
+    const agreement = count / turnLists.length;
+
+    const previous = timeline[timeline.length - 1];
+    if (
+      previous &&
+      previous.speaker === speaker &&
+      previous.end === interval.start
+    ) {
+      // Duration-weighted agreement over the merged entry
+      const previousDuration = previous.end - previous.start;
+      const duration = interval.end - interval.start;
+      previous.agreement =
+        (previous.agreement * previousDuration + agreement * duration) /
+        (previousDuration + duration);
+      previous.end = interval.end;
+    } else {
+      timeline.push({
+        speaker,
+        start: interval.start,
+        end: interval.end,
+        agreement,
+      });
+    }
+  }
+
+  return timeline.map((entry) => ({
+    ...entry,
+    start: roundTime(entry.start),
+    end: roundTime(entry.end),
+    agreement: Math.round(entry.agreement * 1000) / 1000,
+  }));
+}
+
+// Compare the diarization of completed provider results. The first
+// provider with speaker labels is the anchor: its labels become the job's
+// speaker ids and the other providers' speakers are mapped onto them, with
+// speakers the anchor missed getting new ids. Error rates are measured
+// against `referenceId` (default: the anchor).
+export function compareDiarization(
+  results: Record<string, TranscriptResult>,
+  referenceId?: string,
+): DiarizationComparison {
+  const turns = Object.fromEntries(
+    Object.entries(results).map(([providerId, result]) => [
+      providerId,
+      getSpeakerTurns(result),
+    ]),
+  );
+  const labelled = Object.keys(turns).filter((id) => turns[id].length > 0);
+  const anchor = labelled[0] ?? null;
+
+  if (referenceId && !labelled.includes(referenceId)) {
+    throw new Error(`Provider "${referenceId}" has no speaker labels`);
+  }
+  const reference = referenceId ?? anchor;
+
+  const mapping: Record<string, Record<string, number>> = {};
+  if (anchor) {
+    let nextSpeaker = Math.max(...speakersOf(turns[anchor])) + 1;
+    for (const providerId of labelled) {
+      const speakerMap =
+        providerId === anchor
+          ? new Map(
+              speakersOf(turns[anchor]).map((speaker) => [speaker, speaker]),
+            )
+          : mapSpeakers(turns[anchor], turns[providerId]);
+
+      mapping[providerId] = {};
+      for (const [speaker, jobSpeaker] of speakerMap) {
+        mapping[providerId][speaker] = jobSpeaker ?? nextSpeaker++;
+      }
+    }
+  }
+
+  const errorRates: Record<string, DiarizationError> = {};
+  for (const providerId of labelled) {
+    if (providerId === reference) continue;
+    errorRates[providerId] = computeDiarizationError(
+      turns[reference],
+      turns[providerId],
+    );
+  }
+
+  // Anchor first so it wins ties
+  const timeline = mergeSpeakerTimelines(
+    labelled.map((providerId) =>
+      turns[providerId].map((turn) => ({
+        ...turn,
+        speaker: mapping[providerId][turn.speaker],
+      })),
+    ),
+  );
+
+  return { anchor, mapping, reference, errorRates, timeline };
+}
+
+// Cut the time covered by the turn lists into intervals during which the
+// same speakers are talking; silent intervals are skipped
+function splitIntervals(turnLists: SpeakerTurn[][]): Interval[] {
+  const boundaries = [
+    ...new Set(
+      turnLists.flatMap((turns) =>
+        turns.flatMap((turn) => [turn.start, turn.end]),
+      ),
+    ),
+  ].sort((a, b) => a - b);
+
+  const intervals: Interval[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    const active = turnLists.map(
+      (turns) =>
+        new Set(
+          turns
+            .filter((turn) => turn.start <= start && turn.end >= end)
+            .map((turn) => turn.speaker),
+        ),
+    );
+    if (active.some((speakers) => speakers.size > 0)) {
+      intervals.push({ start, end, active });
+    }
+  }
+  return intervals;
+}
+
+function speakersOf(turns: SpeakerTurn[]): number[] {
+  return [...new Set(turns.map((turn) => turn.speaker))].sort((a, b) => a - b);
+}
+
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class AttachReferenceDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500000)
+  reference: string;
+}
@@ -0,0 +1,77 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import type { AwsTranscribeOptions } from '../providers/aws-transcribe/aws-transcribe-options';
+import { toBoolean, toList } from './query-transforms';
+
+const RESOURCE_NAME = /^[0-9a-zA-Z._-]{1,200}$/;
+
+// AWS Transcribe settings accepted as query parameters on the upload routes.
+// Combinations are checked by getAwsOptionsError.
+export class AwsOptionsDto implements AwsTranscribeOptions {
+  @IsOptional()
+  @Matches(RESOURCE_NAME)
+  vocabularyName?: string;
+
+  @IsOptional()
+  @Matches(RESOURCE_NAME)
+  vocabularyFilterName?: string;
+
+  @IsOptional()
+  @IsIn(['remove', 'mask', 'tag'])
+  vocabularyFilterMethod?: 'remove' | 'mask' | 'tag';
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  channelIdentification?: boolean;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  contentRedaction?: boolean;
+
+  @IsOptional()
+  @IsIn(['redacted', 'redacted_and_unredacted'])
+  redactionOutput?: 'redacted' | 'redacted_and_unredacted';
+
+  @IsOptional()
+  @Transform(toList)
+  @Matches(/^[A-Z_]+$/, {
+    each: true,
+    message: 'piiEntityTypes must be AWS entity types such as NAME or SSN',
+  })
+  piiEntityTypes?: string[];
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  identifyMultipleLanguages?: boolean;
+
+  // AWS needs at least two candidates
+  @IsOptional()
+  @Transform(toList)
+  @ArrayMinSize(2)
+  @ArrayMaxSize(5)
+  @Matches(/^[a-z]{2}-[A-Z]{2}$/, {
+    each: true,
+    message: 'languageOptions must be language codes such as en-US',
+  })
+  languageOptions?: string[];
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(2)
+  @Max(30)
+  maxSpeakers?: number;
+}
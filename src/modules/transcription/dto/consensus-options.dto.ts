@@ -0,0 +1,13 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { toBoolean } from './query-transforms';
+
+// Accepted as a query parameter on comparison uploads and batches
+export class ConsensusOptionsDto {
+  // Combine the providers into a 'consensus' result; defaults to
+  // CONSENSUS_ENABLED
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  consensus?: boolean;
+}
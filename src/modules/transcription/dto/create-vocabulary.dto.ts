@@ -0,0 +1,26 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateVocabularyDto {
+  @Matches(/^[0-9a-zA-Z._-]{1,200}$/, {
+    message: 'name may only contain letters, digits, ".", "_" and "-"',
+  })
+  name: string;
+
+  @Matches(/^[a-z]{2}-[A-Z]{2}$/, {
+    message: 'languageCode must be a language code such as en-US',
+  })
+  languageCode: string;
+
+  // Words or phrases; spaces in phrases are turned into hyphens
+  @ArrayMinSize(1)
+  @ArrayMaxSize(5000)
+  @IsString({ each: true })
+  @MaxLength(256, { each: true })
+  phrases: string[];
+}
@@ -0,0 +1,100 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsBoolean,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import type { DeepgramOptions } from '../providers/deepgram/deepgram-options';
+import { toBoolean, toList } from './query-transforms';
+
+// Deepgram settings accepted as query parameters on the upload routes
+export class DeepgramOptionsDto implements DeepgramOptions {
+  // Saved in the job's models rather than its options
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  deepgramModel?: string;
+
+  @IsOptional()
+  @Transform(toList)
+  @ArrayMaxSize(100)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  keyterms?: string[];
+
+  @IsOptional()
+  @Transform(toList)
+  @ArrayMaxSize(100)
+  @Matches(/^[^:]+(:-?\d+(\.\d+)?)?$/, {
+    each: true,
+    message: 'keywords must look like "word" or "word:intensifier"',
+  })
+  keywords?: string[];
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  numerals?: boolean;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  profanityFilter?: boolean;
+
+  @IsOptional()
+  @Transform(toList)
+  @Matches(/^[a-z_]+$/, {
+    each: true,
+    message: 'redact entries must be entity names such as pci, pii or numbers',
+  })
+  redact?: string[];
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  utterances?: boolean;
+
+  // Seconds of silence that end an utterance
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0.1)
+  @Max(5)
+  uttSplit?: number;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  multichannel?: boolean;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  fillerWords?: boolean;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  smartFormat?: boolean;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  punctuate?: boolean;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  diarize?: boolean;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  paragraphs?: boolean;
+}
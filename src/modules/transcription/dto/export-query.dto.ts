@@ -0,0 +1,50 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import type { ExportFormat } from '../export/subtitle-builder';
+
+export class ExportQueryDto {
+  @IsOptional()
+  @IsIn(['srt', 'vtt', 'txt', 'json'])
+  format: ExportFormat = 'srt';
+
+  // Required for comparison jobs with more than one provider
+  @IsOptional()
+  @IsString()
+  provider?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(10)
+  @Max(120)
+  maxLineLength?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(4)
+  maxLines?: number;
+
+  // Seconds
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(60)
+  maxCueDuration?: number;
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  speakers?: boolean;
+}
@@ -0,0 +1,46 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  NotEquals,
+} from 'class-validator';
+import type { LiveAudioEncoding } from '../providers/live-stream.interface';
+
+// Payload of the 'start' message on the live transcription socket
+export class LiveStartDto {
+  @IsOptional()
+  @IsString()
+  @NotEquals('auto', {
+    message: 'languageCode must be an explicit language for live streams',
+  })
+  languageCode?: string;
+
+  @IsIn(['pcm', 'ogg-opus'])
+  encoding: LiveAudioEncoding;
+
+  @IsInt()
+  @Min(8000)
+  @Max(48000)
+  sampleRate: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(2)
+  channels?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  providers?: string[];
+
+  @IsOptional()
+  @IsString()
+  deepgramModel?: string;
+}
@@ -0,0 +1,13 @@
+import { Transform } from 'class-transformer';
+import { ArrayMaxSize, IsOptional, IsString } from 'class-validator';
+import { toList } from './query-transforms';
+
+// Accepted as a query parameter on uploads and batches
+export class PostProcessingOptionsDto {
+  // Ids of post-processing rules, applied in the order given
+  @IsOptional()
+  @Transform(toList)
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  postProcessing?: string[];
+}
@@ -0,0 +1,56 @@
+import {
+  ArrayMaxSize,
+  IsBoolean,
+  IsIn,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { POST_PROCESSING_RULE_TYPES } from '../postprocessing/post-processing-rule';
+import type { PostProcessingRuleType } from '../postprocessing/post-processing-rule';
+
+// Body of POST and PUT /transcription/post-processing/rules. Only the
+// settings of the rule's type are used; see post-processing-rule.ts.
+export class PostProcessingRuleDto {
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @IsIn(POST_PROCESSING_RULE_TYPES)
+  type: PostProcessingRuleType;
+
+  // dictionary: term -> misheard forms, e.g. { "Notica": ["notika"] }
+  @IsOptional()
+  @IsObject()
+  terms?: Record<string, string[]>;
+
+  // replace
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  pattern?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  replacement?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  caseSensitive?: boolean;
+
+  // numbers
+  @IsOptional()
+  @IsBoolean()
+  dates?: boolean;
+
+  // profanity: masked in addition to the built-in list
+  @IsOptional()
+  @ArrayMaxSize(1000)
+  @IsString({ each: true })
+  @MaxLength(100, { each: true })
+  words?: string[];
+}
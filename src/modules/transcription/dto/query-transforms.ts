@@ -0,0 +1,12 @@
+// class-transformer helpers for query parameters, which arrive as strings
+
+// 'true'/'false' become booleans; anything else is left for @IsBoolean to reject
+export const toBoolean = ({ value }: { value: unknown }) =>
+  value === 'true' ? true : value === 'false' ? false : value;
+
+// Repeated (?a=x&a=y) or comma-separated (?a=x,y) values become a list
+export const toList = ({ value }: { value: unknown }) =>
+  (Array.isArray(value) ? value : [value])
+    .flatMap((item) => String(item).split(','))
+    .map((item) => item.trim())
+    .filter(Boolean);
@@ -0,0 +1,9 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { JobPriority } from '../job-manager.service';
+
+// Queue settings accepted as query parameters on the upload routes
+export class QueueOptionsDto {
+  @IsOptional()
+  @IsEnum(JobPriority)
+  priority?: JobPriority;
+}
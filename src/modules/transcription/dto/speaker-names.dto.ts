@@ -0,0 +1,8 @@
+import { IsObject } from 'class-validator';
+
+export class SpeakerNamesDto {
+  // Job speaker id -> name, e.g. { "0": "Alice", "1": "Bob" }; an empty
+  // name removes it
+  @IsObject()
+  names: Record<string, string>;
+}
@@ -0,0 +1,117 @@
+import {
+  buildCues,
+  DEFAULT_SUBTITLE_OPTIONS,
+  formatTimestamp,
+  toSrt,
+  toVtt,
+  wrapText,
+} from './subtitle-builder';
+import { TranscriptResult } from '../providers/transcript-result.interface';
+
+function makeResult(
+  overrides: Partial<TranscriptResult> = {},
+): TranscriptResult {
+  return {
+    provider: 'Deepgram',
+    providerId: 'deepgram',
+    status: 'COMPLETED',
+    transcript: 'Hello there. How are you today?',
+    words: [
+      { text: 'Hello', start: 0, end: 0.4, confidence: 0.9, speaker: 0 },
+      { text: 'there.', start: 0.5, end: 0.9, confidence: 0.9, speaker: 0 },
+      { text: 'How', start: 1.2, end: 1.4, confidence: 0.9, speaker: 1 },
+      { text: 'are', start: 1.5, end: 1.6, confidence: 0.9, speaker: 1 },
+      { text: 'you', start: 1.7, end: 1.8, confidence: 0.9, speaker: 1 },
+      { text: 'today?', start: 1.9, end: 2.3, confidence: 0.9, speaker: 1 },
+    ],
+    segments: [],
+    language: 'en',
+    languageConfidence: null,
+    confidence: 0.9,
+    model: 'nova-3',
+    processingTime: 1.2,
+    audioDuration: 2.3,
+    error: null,
+    metadata: {},
+    ...overrides,
+  };
+}
+
+describe('subtitle-builder', () => {
+  it('should format timestamps for SRT and VTT', () => {
+    expect(formatTimestamp(3661.5, ',')).toBe('01:01:01,500');
+    expect(formatTimestamp(0.0429, '.')).toBe('00:00:00.043');
+  });
+
+  it('should wrap text to the max line length', () => {
+    expect(wrapText('one two three four five', 9)).toEqual([
+      'one two',
+      'three',
+      'four five',
+    ]);
+  });
+
+  it('should split cues on speaker change when speakers are included', () => {
+    const cues = buildCues(makeResult(), {
+      ...DEFAULT_SUBTITLE_OPTIONS,
+      includeSpeakers: true,
+    });
+
+    expect(cues).toHaveLength(2);
+    expect(cues[1]).toEqual({
+      start: 1.2,
+      end: 2.3,
+      speaker: 1,
+      lines: ['How are you today?'],
+    });
+  });
+
+  it('should respect the max cue duration', () => {
+    const cues = buildCues(makeResult(), {
+      ...DEFAULT_SUBTITLE_OPTIONS,
+      maxCueDuration: 1,
+    });
+
+    for (const cue of cues) {
+      expect(cue.end - cue.start).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('should render SRT and VTT documents', () => {
+    const options = { ...DEFAULT_SUBTITLE_OPTIONS, includeSpeakers: true };
+    const cues = buildCues(makeResult(), options);
+
+    expect(toSrt(cues, true)).toBe(
+      '1\n00:00:00,000 --> 00:00:00,900\nSpeaker 0: Hello there.\n\n' +
+        '2\n00:00:01,200 --> 00:00:02,300\nSpeaker 1: How are you today?\n',
+    );
+    expect(toVtt(cues, true)).toContain(
+      'WEBVTT\n\n00:00:00.000 --> 00:00:00.900\n<v Speaker 0>Hello there.',
+    );
+  });
+
+  it('should label speakers with their names when given', () => {
+    const options = { ...DEFAULT_SUBTITLE_OPTIONS, includeSpeakers: true };
+    const cues = buildCues(makeResult(), options);
+
+    expect(toSrt(cues, true, { 1: 'Bob' })).toContain(
+      'Speaker 0: Hello there.\n\n2\n00:00:01,200 --> 00:00:02,300\nBob: How',
+    );
+    expect(toVtt(cues, true, { 0: 'Alice' })).toContain('<v Alice>Hello');
+  });
+
+  it('should fall back to segments when there are no words', () => {
+    const cues = buildCues(
+      makeResult({
+        words: [],
+        segments: [
+          { speaker: 0, text: 'a b c d', start: 0, end: 4, wordCount: 4 },
+        ],
+      }),
+      { ...DEFAULT_SUBTITLE_OPTIONS, maxLineLength: 3, maxLines: 1 },
+    );
+
+    expect(cues.map((cue) => cue.lines)).toEqual([['a b'], ['c d']]);
+    expect(cues[1].end).toBe(4);
+  });
+});
@@ -0,0 +1,213 @@
+import {
+  TranscriptResult,
+  TranscriptSegment,
+  TranscriptWord,
+} from '../providers/transcript-result.interface';
+
+export type ExportFormat = 'srt' | 'vtt' | 'txt' | 'json';
+
+export interface SubtitleOptions {
+  maxLineLength: number; // Characters per line
+  maxLines: number; // Lines per cue
+  maxCueDuration: number; // Seconds
+  includeSpeakers: boolean;
+  speakerNames?: Record<number, string>; // Replace 'Speaker N' labels
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  speaker: number | null;
+  lines: string[];
+}
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxCueDuration: 7,
+  includeSpeakers: false,
+};
+
+// Greedy word wrap; a single word longer than the limit gets its own line
+export function wrapText(text: string, maxLineLength: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (current && current.length + 1 + word.length > maxLineLength) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+
+  return lines;
+}
+
+function speakerLabel(
+  speaker: number | null,
+  speakerNames: Record<number, string> = {},
+): string {
+  if (speaker === null) return 'Speaker';
+  return speakerNames[speaker] ?? `Speaker ${speaker}`;
+}
+
+// Build cues from word timings. A new cue starts when the speaker changes,
+// the cue would exceed maxCueDuration, or the text no longer fits.
+function cuesFromWords(
+  words: TranscriptWord[],
+  options: SubtitleOptions,
+): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  let pending: TranscriptWord[] = [];
+
+  const flush = () => {
+    if (pending.length === 0) return;
+    cues.push({
+      start: pending[0].start,
+      end: pending[pending.length - 1].end,
+      speaker: pending[0].speaker,
+      lines: wrapText(
+        pending.map((word) => word.text).join(' '),
+        options.maxLineLength,
+      ),
+    });
+    pending = [];
+  };
+
+  for (const word of words) {
+    if (pending.length > 0) {
+      const first = pending[0];
+      const candidate = [...pending, word].map((w) => w.text).join(' ');
+      const speakerChanged =
+        options.includeSpeakers && word.speaker !== first.speaker;
+      const tooLong = word.end - first.start > options.maxCueDuration;
+      const tooWide =
+        wrapText(candidate, options.maxLineLength).length > options.maxLines;
+
+      if (speakerChanged || tooLong || tooWide) flush();
+    }
+
+    pending.push(word);
+
+    // Prefer to end cues at sentence boundaries
+    if (/[.!?]$/.test(word.text)) {
+      const duration = word.end - pending[0].start;
+      if (duration >= options.maxCueDuration / 2) flush();
+    }
+  }
+  flush();
+
+  return cues;
+}
+
+// Fallback when a provider only returns segments: split each segment into
+// chunks that fit and spread the segment's time across them by length
+function cuesFromSegments(
+  segments: TranscriptSegment[],
+  options: SubtitleOptions,
+): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+
+  for (const segment of segments) {
+    const lines = wrapText(segment.text, options.maxLineLength);
+    const chunks: string[][] = [];
+    for (let i = 0; i < lines.length; i += options.maxLines) {
+      chunks.push(lines.slice(i, i + options.maxLines));
+    }
+
+    const lengths = chunks.map((chunk) => chunk.join(' ').length);
+    const totalLength = lengths.reduce((sum, length) => sum + length, 0) || 1;
+    const duration = segment.end - segment.start;
+    let start = segment.start;
+    for (const [index, chunk] of chunks.entries()) {
+      const end =
+        index === chunks.length - 1
+          ? segment.end
+          : start + (duration * lengths[index]) / totalLength;
+      cues.push({ start, end, speaker: segment.speaker, lines: chunk });
+      start = end;
+    }
+  }
+
+  return cues;
+}
+
+export function buildCues(
+  result: TranscriptResult,
+  options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS,
+): SubtitleCue[] {
+  if (result.words.length > 0) {
+    return cuesFromWords(result.words, options);
+  }
+  return cuesFromSegments(result.segments, options);
+}
+
+// 3661.5 -> '01:01:01,500' (SRT) or '01:01:01.500' (VTT)
+export function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+
+  const pad = (value: number, length = 2) =>
+    value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+export function toSrt(
+  cues: SubtitleCue[],
+  includeSpeakers: boolean,
+  speakerNames?: Record<number, string>,
+): string {
+  return cues
+    .map((cue, index) => {
+      const lines = [...cue.lines];
+      if (includeSpeakers) {
+        lines[0] = `${speakerLabel(cue.speaker, speakerNames)}: ${lines[0]}`;
+      }
+      return [
+        index + 1,
+        `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+        ...lines,
+      ].join('\n');
+    })
+    .join('\n\n')
+    .concat('\n');
+}
+
+export function toVtt(
+  cues: SubtitleCue[],
+  includeSpeakers: boolean,
+  speakerNames?: Record<number, string>,
+): string {
+  const body = cues.map((cue) => {
+    // WebVTT voice tags carry the speaker without changing the caption text
+    const text = includeSpeakers
+      ? `<v ${speakerLabel(cue.speaker, speakerNames)}>${cue.lines.join('\n')}`
+      : cue.lines.join('\n');
+    return `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${text}`;
+  });
+
+  return ['WEBVTT', ...body].join('\n\n').concat('\n');
+}
+
+export function toText(
+  result: TranscriptResult,
+  includeSpeakers: boolean,
+  speakerNames?: Record<number, string>,
+): string {
+  if (includeSpeakers && result.segments.length > 0) {
+    return result.segments
+      .map(
+        (segment) =>
+          `${speakerLabel(segment.speaker, speakerNames)}: ${segment.text}`,
+      )
+      .join('\n\n')
+      .concat('\n');
+  }
+  return `${result.transcript || ''}\n`;
+}
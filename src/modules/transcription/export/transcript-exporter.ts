@@ -0,0 +1,74 @@
+import { TranscriptResult } from '../providers/transcript-result.interface';
+import {
+  buildCues,
+  ExportFormat,
+  SubtitleOptions,
+  toSrt,
+  toText,
+  toVtt,
+} from './subtitle-builder';
+
+export interface ExportedFile {
+  content: string;
+  contentType: string;
+  extension: string;
+}
+
+export function exportTranscript(
+  result: TranscriptResult,
+  format: ExportFormat,
+  options: SubtitleOptions,
+): ExportedFile {
+  switch (format) {
+    case 'srt':
+      return {
+        content: toSrt(
+          buildCues(result, options),
+          options.includeSpeakers,
+          options.speakerNames,
+        ),
+        contentType: 'application/x-subrip; charset=utf-8',
+        extension: 'srt',
+      };
+    case 'vtt':
+      return {
+        content: toVtt(
+          buildCues(result, options),
+          options.includeSpeakers,
+          options.speakerNames,
+        ),
+        contentType: 'text/vtt; charset=utf-8',
+        extension: 'vtt',
+      };
+    case 'txt':
+      return {
+        content: toText(result, options.includeSpeakers, options.speakerNames),
+        contentType: 'text/plain; charset=utf-8',
+        extension: 'txt',
+      };
+    case 'json':
+      return {
+        content: JSON.stringify(
+          {
+            provider: result.provider,
+            language: result.language,
+            transcript: result.transcript,
+            cues: buildCues(result, options).map((cue) => ({
+              start: cue.start,
+              end: cue.end,
+              speaker: cue.speaker,
+              speakerName:
+                cue.speaker !== null
+                  ? (options.speakerNames?.[cue.speaker] ?? null)
+                  : null,
+              text: cue.lines.join(' '),
+            })),
+          },
+          null,
+          2,
+        ),
+        contentType: 'application/json; charset=utf-8',
+        extension: 'json',
+      };
+  }
+}
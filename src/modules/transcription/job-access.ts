@@ -0,0 +1,16 @@
+import { ApiClient } from '../auth/api-client.interface';
+import { TranscriptionJob } from './job-manager.service';
+
+// Without auth every job is visible. Admin keys see every job, other keys
+// only the jobs they created.
+export function canAccessJob(
+  client: ApiClient | undefined,
+  job: TranscriptionJob,
+): boolean {
+  return !client || client.admin || job.clientId === client.id;
+}
+
+// clientId to restrict listings to, undefined for no restriction
+export function getClientFilter(client?: ApiClient): string | undefined {
+  return client && !client.admin ? client.id : undefined;
+}
@@ -0,0 +1,224 @@
+import { JobManagerService, JobStatus } from './job-manager.service';
+import { InMemoryJobStore } from './job-store/in-memory-job-store';
+import { TranscriptResult } from './providers/transcript-result.interface';
+
+describe('JobManagerService', () => {
+  let service: JobManagerService;
+
+  beforeEach(() => {
+    service = new JobManagerService(new InMemoryJobStore());
+  });
+
+  describe('listJobs', () => {
+    const createJobs = () => {
+      const ids = ['b.mp3', 'a.wav', 'c.mp3', 'meeting.mp3'].map(
+        (fileName, index) => {
+          const id = service.createComparisonJob(
+            fileName,
+            `/tmp/${fileName}`,
+            index === 1 ? 'vi-VN' : 'en-US',
+            index === 3 ? ['deepgram'] : ['aws', 'deepgram'],
+          );
+          service.getJob(id)!.createdAt = new Date(2026, 0, index + 1);
+          return id;
+        },
+      );
+      service.cancelJob(ids[2]);
+      return ids;
+    };
+
+    it('should filter by status, provider, language and file name', () => {
+      const ids = createJobs();
+      const options = { sortBy: 'createdAt' as const, order: 'asc' as const };
+
+      const byStatus = service.listJobs(
+        { status: JobStatus.CANCELLED },
+        { ...options, limit: 10 },
+      );
+      expect(byStatus.jobs.map((job) => job.id)).toEqual([ids[2]]);
+
+      const byProvider = service.listJobs(
+        { provider: 'aws' },
+        { ...options, limit: 10 },
+      );
+      expect(byProvider.total).toBe(3);
+
+      const byLanguage = service.listJobs(
+        { language: 'vi' },
+        { ...options, limit: 10 },
+      );
+      expect(byLanguage.jobs.map((job) => job.id)).toEqual([ids[1]]);
+
+      const byName = service.listJobs(
+        { fileName: 'MEET' },
+        { ...options, limit: 10 },
+      );
+      expect(byName.jobs.map((job) => job.id)).toEqual([ids[3]]);
+
+      const byDate = service.listJobs(
+        { createdFrom: new Date(2026, 0, 2), createdTo: new Date(2026, 0, 3) },
+        { ...options, limit: 10 },
+      );
+      expect(byDate.jobs.map((job) => job.id)).toEqual([ids[1], ids[2]]);
+    });
+
+    it('should page through results with a cursor', () => {
+      const ids = createJobs();
+      const options = {
+        sortBy: 'fileName' as const,
+        order: 'asc' as const,
+        limit: 3,
+      };
+
+      const first = service.listJobs({}, options);
+      expect(first.jobs.map((job) => job.fileName)).toEqual([
+        'a.wav',
+        'b.mp3',
+        'c.mp3',
+      ]);
+      expect(first.nextCursor).not.toBeNull();
+
+      const second = service.listJobs(
+        {},
+        { ...options, cursor: first.nextCursor! },
+      );
+      expect(second.jobs.map((job) => job.id)).toEqual([ids[3]]);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(() =>
+        service.listJobs(
+          {},
+          { sortBy: 'createdAt', order: 'desc', limit: 5, cursor: 'nope' },
+        ),
+      ).toThrow('Invalid cursor');
+    });
+  });
+
+  describe('provider results', () => {
+    it('should complete a comparison job when every provider is done', () => {
+      const id = service.createComparisonJob('a.mp3', '/tmp/a.mp3', 'en-US', [
+        'aws',
+        'deepgram',
+      ]);
+
+      service.failProviderResult(id, 'aws', 'boom');
+      expect(service.getJob(id)!.status).toBe(JobStatus.PROCESSING);
+
+      service.failProviderResult(id, 'deepgram', 'boom');
+      expect(service.getJob(id)!.status).toBe(JobStatus.FAILED);
+    });
+
+    it('should keep the attempt history when a provider finishes', () => {
+      const id = service.createComparisonJob('a.mp3', '/tmp/a.mp3', 'en-US', [
+        'aws',
+      ]);
+      const attempt = {
+        startedAt: new Date(),
+        processingTime: 1,
+        status: 'failed' as const,
+        error: 'Rate exceeded',
+        errorType: 'transient' as const,
+      };
+
+      service.startProvider(id, 'aws');
+      service.recordProviderAttempt(id, 'aws', {
+        ...attempt,
+        attempt: 1,
+        retryDelayMs: 1000,
+      });
+      service.recordProviderAttempt(id, 'aws', { ...attempt, attempt: 2 });
+      service.failProviderResult(id, 'aws', 'Rate exceeded');
+
+      const providerResult = service.getJob(id)!.providerResults!.aws;
+      expect(providerResult.status).toBe('failed');
+      expect(providerResult.startedAt).toBeDefined();
+      expect(providerResult.attempts!.map((entry) => entry.attempt)).toEqual([
+        1, 2,
+      ]);
+    });
+
+    it('should ignore results that arrive after cancellation', () => {
+      const id = service.createComparisonJob('a.mp3', '/tmp/a.mp3', 'en-US', [
+        'aws',
+      ]);
+
+      service.cancelJob(id);
+      service.failProviderResult(id, 'aws', 'late');
+
+      const job = service.getJob(id)!;
+      expect(job.status).toBe(JobStatus.CANCELLED);
+      expect(job.providerResults!.aws.status).toBe('cancelled');
+    });
+  });
+
+  describe('batches', () => {
+    const createBatch = () =>
+      service.createBatchJob(
+        'set.zip',
+        'en-US',
+        ['aws'],
+        [
+          { fileName: 'a.mp3', filePath: '/tmp/a.mp3' },
+          {
+            fileName: 'b.mp3',
+            filePath: '/tmp/b.mp3',
+            referenceTranscript: 'hi',
+          },
+        ],
+      );
+
+    it('should follow the status of its files', () => {
+      const batchId = createBatch();
+      const [first, second] = service.getBatchJobs(batchId);
+      expect(second.referenceTranscript).toBe('hi');
+
+      service.failProviderResult(first.id, 'aws', 'boom');
+      expect(service.getJob(batchId)!.status).toBe(JobStatus.PROCESSING);
+
+      service.failProviderResult(second.id, 'aws', 'boom');
+      expect(service.getJob(batchId)!.status).toBe(JobStatus.FAILED);
+    });
+
+    it('should complete when any file completed', () => {
+      const batchId = createBatch();
+      const [first, second] = service.getBatchJobs(batchId);
+
+      service.cancelJob(first.id);
+      service.updateProviderResult(second.id, 'aws', {
+        providerId: 'aws',
+        status: 'COMPLETED',
+      } as TranscriptResult);
+
+      const batch = service.getJob(batchId)!;
+      expect(batch.status).toBe(JobStatus.COMPLETED);
+      expect(batch.completedAt).toBeDefined();
+    });
+  });
+
+  describe('purgeExpiredJobs', () => {
+    it('should purge jobs past the TTL for their status only', () => {
+      const now = new Date(2026, 0, 2);
+      const done = service.createJob('a.mp3', '/tmp/a.mp3', 'en-US', 'aws');
+      const running = service.createJob('b.mp3', '/tmp/b.mp3', 'en-US', 'aws');
+      const fresh = service.createJob('c.mp3', '/tmp/c.mp3', 'en-US', 'aws');
+
+      service.failJob(done, 'boom');
+      service.failJob(fresh, 'boom');
+      service.getJob(done)!.completedAt = new Date(2026, 0, 1);
+      service.getJob(fresh)!.completedAt = new Date(now.getTime() - 1000);
+      service.getJob(running)!.createdAt = new Date(2025, 0, 1);
+
+      const purged = service.purgeExpiredJobs(
+        { [JobStatus.FAILED]: 60 * 60 * 1000, [JobStatus.PENDING]: 0 },
+        now,
+      );
+
+      expect(purged.map((job) => job.id)).toEqual([done]);
+      expect(service.getJob(done)).toBeUndefined();
+      expect(service.getJob(running)).toBeDefined();
+      expect(service.getJob(fresh)).toBeDefined();
+    });
+  });
+});
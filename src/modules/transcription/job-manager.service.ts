@@ -1,50 +1,216 @@
-import { Injectable } from '@nestjs/common';
+import { Inject, Injectable } from '@nestjs/common';
 import { randomUUID } from 'crypto';
+import { filter, Observable, Subject } from 'rxjs';
+import { TranscriptResult } from './providers/transcript-result.interface';
+import { ProviderErrorType } from './providers/provider-errors';
+import { ProviderUsage } from './usage/price-table';
+import { AccuracyScore } from './scoring/accuracy';
+import { WebhookDelivery } from './webhooks/webhook-delivery';
+import { MediaInfo } from './preprocessing/ffmpeg';
+import { PreprocessingInfo } from './preprocessing/audio-preprocessor.service';
+import { JOB_STORE } from './job-store/job-store.interface';
+import { CONSENSUS_PROVIDER_ID } from './consensus/rover';
+import { JobPostProcessingRule } from './postprocessing/post-processing-rule';
+import type { JobStore } from './job-store/job-store.interface';
 
 export enum JobStatus {
   PENDING = 'pending',
   PROCESSING = 'processing',
   COMPLETED = 'completed',
   FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+// Order in which queued provider calls are started
+export enum JobPriority {
+  HIGH = 'high',
+  NORMAL = 'normal',
+  LOW = 'low',
+}
+
+// One call to a provider; failed transient calls are retried
+export interface ProviderAttempt {
+  attempt: number; // 1-based
+  startedAt: Date;
+  processingTime: number; // Seconds
+  status: 'completed' | 'failed';
+  error?: string;
+  errorType?: ProviderErrorType;
+  retryDelayMs?: number; // Set when another attempt follows
 }
 
 export interface ProviderResult {
-  status: 'pending' | 'processing' | 'completed' | 'failed';
-  result?: any;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  result?: TranscriptResult;
   error?: string;
+  attempts?: ProviderAttempt[]; // Oldest first
+  usage?: ProviderUsage; // Billed audio and estimated cost, completed only
   startedAt?: Date;
   completedAt?: Date;
 }
 
+// A file of a batch upload that did not become a job
+export interface BatchRejectedFile {
+  fileName: string;
+  error: string;
+}
+
+// Parent job of a batch upload; its status follows the child jobs
+export interface BatchInfo {
+  jobIds: string[]; // One comparison job per audio file
+  providers: string[]; // Including 'consensus' when it was requested
+  rejected: BatchRejectedFile[];
+}
+
+export interface BatchFile {
+  fileName: string;
+  filePath: string;
+  referenceTranscript?: string;
+  media?: MediaInfo | null;
+}
+
 export interface TranscriptionJob {
   id: string;
   status: JobStatus;
   fileName: string;
   filePath: string;
   languageCode: string;
-  provider?: 'aws' | 'deepgram';
-  deepgramModel?: string; // Deepgram model selection (nova-2, nova, base, etc.)
-  result?: any; // For backward compatibility (single provider jobs)
+  provider?: string; // Registered provider id (single provider jobs)
+  // Models of providers with modelSelection, keyed by provider id
+  models?: Record<string, string>;
+  // Provider-specific request options keyed by provider id
+  providerOptions?: Record<string, Record<string, unknown>>;
+  // Applied in order to every provider result before it is stored
+  postProcessingRules?: JobPostProcessingRule[];
+  media?: MediaInfo | null; // Probed properties of the uploaded file
+  preprocessing?: PreprocessingInfo; // How the file was prepared for providers
+  result?: TranscriptResult; // Single provider jobs
+  attempts?: ProviderAttempt[]; // Single provider jobs
+  usage?: ProviderUsage; // Single provider jobs
   error?: string;
-  // For comparison jobs - results per provider
-  providerResults?: {
-    aws?: ProviderResult;
-    deepgram?: ProviderResult;
-  };
+  // For comparison jobs - results keyed by registered provider id
+  providerResults?: Record<string, ProviderResult>;
+  referenceTranscript?: string; // Ground truth used for WER/CER scoring
+  accuracy?: Record<string, AccuracyScore>; // Keyed by provider id
+  // Names of the job's speakers, keyed by diarization speaker id
+  speakerNames?: Record<string, string>;
+  callbackUrl?: string; // Receives signed webhook events
+  webhookDeliveries?: WebhookDelivery[]; // Delivery log, oldest first
+  batchId?: string; // Parent batch job (batch children only)
+  batch?: BatchInfo; // Batch parents only
+  priority?: JobPriority; // Defaults to normal
+  clientId?: string; // API key id (IP address without auth)
   createdAt: Date;
   completedAt?: Date;
 }
 
+// Optional settings recorded on a job when it is created
+export interface JobCreateOptions {
+  models?: Record<string, string>;
+  referenceTranscript?: string;
+  callbackUrl?: string;
+  providerOptions?: Record<string, Record<string, unknown>>;
+  batchId?: string;
+  priority?: JobPriority;
+  clientId?: string; // API key id, or the IP address without auth
+  media?: MediaInfo | null; // Probed when the upload was validated
+  consensus?: boolean; // Add a consensus result (comparison jobs only)
+  postProcessingRules?: JobPostProcessingRule[];
+}
+
+export interface JobListFilter {
+  status?: JobStatus;
+  provider?: string;
+  language?: string; // Matches requested or detected language, 'en' matches 'en-US'
+  fileName?: string; // Case-insensitive substring
+  clientId?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+}
+
+export type JobSortField = 'createdAt' | 'completedAt' | 'fileName' | 'status';
+
+export interface JobListOptions {
+  sortBy: JobSortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor?: string; // nextCursor from the previous page
+}
+
+export interface JobListPage {
+  jobs: TranscriptionJob[];
+  nextCursor: string | null;
+  total: number; // Matching jobs across all pages
+}
+
+export type JobEventType =
+  | 'status'
+  | 'provider.completed'
+  | 'provider.failed'
+  | 'provider.retrying'
+  | 'accuracy'
+  | 'job.completed'
+  | 'job.failed'
+  | 'job.cancelled';
+
+// Emitted whenever a job changes; `job` is the state after the change
+export interface JobEvent {
+  type: JobEventType;
+  jobId: string;
+  provider?: string;
+  job: TranscriptionJob;
+}
+
+// Keys of a comparison job's providerResults: the providers, plus the
+// consensus result when requested and there is more than one provider
+function getResultIds(providers: string[], consensus?: boolean): string[] {
+  return consensus && providers.length > 1
+    ? [...providers, CONSENSUS_PROVIDER_ID]
+    : providers;
+}
+
+// Providers of a comparison job: its providerResults without the consensus
+export function getProviderIds(job: TranscriptionJob): string[] {
+  return Object.keys(job.providerResults ?? {}).filter(
+    (id) => id !== CONSENSUS_PROVIDER_ID,
+  );
+}
+
 @Injectable()
 export class JobManagerService {
-  private jobs: Map<string, TranscriptionJob> = new Map();
+  private events = new Subject<JobEvent>();
+
+  constructor(@Inject(JOB_STORE) private jobs: JobStore) {}
+
+  // Live changes for a single job (only changes made by this process)
+  watchJob(jobId: string): Observable<JobEvent> {
+    return this.events.pipe(filter((event) => event.jobId === jobId));
+  }
+
+  // Live changes for every job handled by this process
+  watchAllJobs(): Observable<JobEvent> {
+    return this.events.asObservable();
+  }
+
+  private emit(type: JobEventType, job: TranscriptionJob, provider?: string) {
+    this.events.next({ type, jobId: job.id, provider, job });
+  }
+
+  // Emit job.completed / job.failed once a job reaches a final status
+  private emitIfFinished(job: TranscriptionJob) {
+    if (job.status === JobStatus.COMPLETED) {
+      this.emit('job.completed', job);
+    } else if (job.status === JobStatus.FAILED) {
+      this.emit('job.failed', job);
+    }
+  }
 
   createJob(
     fileName: string,
     filePath: string,
     languageCode: string,
-    provider?: 'aws' | 'deepgram',
-    deepgramModel?: string,
+    provider?: string,
+    options: JobCreateOptions = {},
   ): string {
     const jobId = randomUUID();
     const job: TranscriptionJob = {
@@ -54,68 +220,388 @@ export class JobManagerService {
       filePath,
       languageCode,
       provider,
-      deepgramModel,
+      ...options,
       createdAt: new Date(),
     };
 
-    this.jobs.set(jobId, job);
+    this.jobs.save(job);
     return jobId;
   }
 
-  // Create a comparison job with both providers initialized
+  // Create a comparison job with each selected provider initialized
   createComparisonJob(
     fileName: string,
     filePath: string,
     languageCode: string,
-    deepgramModel?: string,
+    providers: string[],
+    { consensus, ...options }: JobCreateOptions = {},
   ): string {
     const jobId = randomUUID();
+    const providerResults: Record<string, ProviderResult> = {};
+    for (const provider of getResultIds(providers, consensus)) {
+      providerResults[provider] = { status: 'pending' };
+    }
+
     const job: TranscriptionJob = {
       id: jobId,
       status: JobStatus.PENDING,
       fileName,
       filePath,
       languageCode,
-      deepgramModel,
-      providerResults: {
-        aws: { status: 'pending' },
-        deepgram: { status: 'pending' },
-      },
+      providerResults,
+      ...options,
       createdAt: new Date(),
     };
 
-    this.jobs.set(jobId, job);
+    this.jobs.save(job);
     return jobId;
   }
 
+  // Create a batch parent with one comparison job per file. The parent has
+  // no file of its own; `fileName` holds the batch name.
+  createBatchJob(
+    name: string,
+    languageCode: string,
+    providers: string[],
+    files: BatchFile[],
+    rejected: BatchRejectedFile[] = [],
+    options: JobCreateOptions = {},
+  ): string {
+    const batchId = randomUUID();
+    const jobIds = files.map((file) =>
+      this.createComparisonJob(
+        file.fileName,
+        file.filePath,
+        languageCode,
+        providers,
+        {
+          ...options,
+          referenceTranscript: file.referenceTranscript,
+          media: file.media,
+          batchId,
+        },
+      ),
+    );
+
+    const job: TranscriptionJob = {
+      id: batchId,
+      status: JobStatus.PENDING,
+      fileName: name,
+      filePath: '',
+      languageCode,
+      models: options.models,
+      providerOptions: options.providerOptions,
+      priority: options.priority,
+      clientId: options.clientId,
+      batch: {
+        jobIds,
+        providers: getResultIds(providers, options.consensus),
+        rejected,
+      },
+      createdAt: new Date(),
+    };
+
+    this.jobs.save(job);
+    return batchId;
+  }
+
+  // Child jobs of a batch that still exist (retention may purge them first)
+  getBatchJobs(batchId: string): TranscriptionJob[] {
+    const batch = this.jobs.get(batchId)?.batch;
+    return (batch?.jobIds ?? [])
+      .map((jobId) => this.jobs.get(jobId))
+      .filter((job): job is TranscriptionJob => !!job);
+  }
+
+  // Recompute a batch parent after one of its jobs changed. The batch is
+  // completed once every job finished and at least one succeeded.
+  private refreshBatch(job: TranscriptionJob) {
+    if (!job.batchId) return;
+    const batch = this.jobs.get(job.batchId);
+    if (
+      !batch ||
+      ![JobStatus.PENDING, JobStatus.PROCESSING].includes(batch.status)
+    ) {
+      return;
+    }
+
+    const children = this.getBatchJobs(batch.id);
+    const finished = children.filter(
+      (child) =>
+        ![JobStatus.PENDING, JobStatus.PROCESSING].includes(child.status),
+    );
+
+    if (finished.length < children.length) {
+      if (children.some((child) => child.status !== JobStatus.PENDING)) {
+        batch.status = JobStatus.PROCESSING;
+      }
+      this.jobs.save(batch);
+      this.emit('status', batch);
+      return;
+    }
+
+    if (children.some((child) => child.status === JobStatus.COMPLETED)) {
+      batch.status = JobStatus.COMPLETED;
+    } else if (
+      children.every((child) => child.status === JobStatus.CANCELLED)
+    ) {
+      batch.status = JobStatus.CANCELLED;
+      batch.error = 'Job was cancelled';
+    } else {
+      batch.status = JobStatus.FAILED;
+      batch.error = 'Every file in the batch failed';
+    }
+    batch.completedAt = new Date();
+    this.jobs.save(batch);
+
+    if (batch.status === JobStatus.CANCELLED) {
+      this.emit('job.cancelled', batch);
+    } else {
+      this.emitIfFinished(batch);
+    }
+  }
+
   getJob(jobId: string): TranscriptionJob | undefined {
     return this.jobs.get(jobId);
   }
 
+  getAllJobs(): TranscriptionJob[] {
+    return this.jobs.list();
+  }
+
+  listJobs(filter: JobListFilter, options: JobListOptions): JobListPage {
+    const matching = this.jobs
+      .list()
+      .filter((job) => this.matchesFilter(job, filter));
+
+    const direction = options.order === 'asc' ? 1 : -1;
+    const compare = (
+      a: [string | number | null, string],
+      b: [string | number | null, string],
+    ) => {
+      // Missing values (e.g. completedAt of running jobs) always sort last
+      if (a[0] !== b[0]) {
+        if (a[0] === null) return 1;
+        if (b[0] === null) return -1;
+        return (a[0] < b[0] ? -1 : 1) * direction;
+      }
+      // Ties are broken by id so the cursor position is unambiguous
+      return a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0;
+    };
+
+    const sorted = matching
+      .map((job) => ({
+        job,
+        key: [this.getSortValue(job, options.sortBy), job.id] as [
+          string | number | null,
+          string,
+        ],
+      }))
+      .sort((a, b) => compare(a.key, b.key));
+
+    let start = 0;
+    if (options.cursor) {
+      const cursorKey = this.decodeCursor(options.cursor);
+      start = sorted.findIndex((entry) => compare(entry.key, cursorKey) > 0);
+      if (start === -1) start = sorted.length;
+    }
+
+    const page = sorted.slice(start, start + options.limit);
+    const hasMore = start + options.limit < sorted.length;
+
+    return {
+      jobs: page.map((entry) => entry.job),
+      nextCursor:
+        hasMore && page.length > 0
+          ? this.encodeCursor(page[page.length - 1].key)
+          : null,
+      total: sorted.length,
+    };
+  }
+
+  private matchesFilter(job: TranscriptionJob, filter: JobListFilter): boolean {
+    if (filter.status && job.status !== filter.status) return false;
+
+    if (filter.provider) {
+      const providers = job.providerResults
+        ? Object.keys(job.providerResults)
+        : [job.provider];
+      if (!providers.includes(filter.provider)) return false;
+    }
+
+    if (filter.language) {
+      const wanted = filter.language.toLowerCase();
+      const results = job.providerResults
+        ? Object.values(job.providerResults).map((r) => r.result)
+        : [job.result];
+      const languages = [
+        job.languageCode,
+        ...results.map((result) => result?.language),
+      ]
+        .filter((language): language is string => !!language)
+        .map((language) => language.toLowerCase());
+      const matches = languages.some(
+        (language) =>
+          language === wanted ||
+          language.startsWith(`${wanted}-`) ||
+          wanted.startsWith(`${language}-`),
+      );
+      if (!matches) return false;
+    }
+
+    if (
+      filter.fileName &&
+      !job.fileName.toLowerCase().includes(filter.fileName.toLowerCase())
+    ) {
+      return false;
+    }
+
+    if (filter.clientId && job.clientId !== filter.clientId) return false;
+    if (filter.createdFrom && job.createdAt < filter.createdFrom) return false;
+    if (filter.createdTo && job.createdAt > filter.createdTo) return false;
+
+    return true;
+  }
+
+  private getSortValue(
+    job: TranscriptionJob,
+    sortBy: JobSortField,
+  ): string | number | null {
+    switch (sortBy) {
+      case 'createdAt':
+        return job.createdAt.getTime();
+      case 'completedAt':
+        return job.completedAt ? job.completedAt.getTime() : null;
+      case 'fileName':
+        return job.fileName.toLowerCase();
+      case 'status':
+        return job.status;
+    }
+  }
+
+  // Cursors are opaque to clients: base64url of [sortValue, jobId]
+  private encodeCursor(key: [string | number | null, string]): string {
+    return Buffer.from(JSON.stringify(key)).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): [string | number | null, string] {
+    try {
+      const key: unknown = JSON.parse(
+        Buffer.from(cursor, 'base64url').toString(),
+      );
+      if (
+        Array.isArray(key) &&
+        key.length === 2 &&
+        typeof key[1] === 'string'
+      ) {
+        return key as [string | number | null, string];
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new Error('Invalid cursor');
+  }
+
+  // Jobs that were still running when the process stopped
+  getInterruptedJobs(): TranscriptionJob[] {
+    return this.jobs
+      .list()
+      .filter((job) =>
+        [JobStatus.PENDING, JobStatus.PROCESSING].includes(job.status),
+      );
+  }
+
+  // Put unfinished providers of a comparison job back to pending
+  resetUnfinishedProviders(jobId: string): void {
+    const job = this.jobs.get(jobId);
+    if (job && job.providerResults) {
+      for (const [provider, providerResult] of Object.entries(
+        job.providerResults,
+      )) {
+        if (
+          providerResult.status !== 'completed' &&
+          providerResult.status !== 'failed'
+        ) {
+          job.providerResults[provider] = {
+            status: 'pending',
+            attempts: providerResult.attempts,
+          };
+        }
+      }
+      this.jobs.save(job);
+    }
+  }
+
+  // A comparison job's provider left the queue and is being called
+  startProvider(jobId: string, provider: string): void {
+    const job = this.jobs.get(jobId);
+    const providerResult = job?.providerResults?.[provider];
+    if (job && providerResult?.status === 'pending') {
+      job.providerResults![provider] = {
+        status: 'processing',
+        attempts: providerResult.attempts,
+        startedAt: new Date(),
+      };
+      this.jobs.save(job);
+      this.emit('status', job, provider);
+    }
+  }
+
+  // Log a provider call on the provider result (or the job, for single
+  // provider jobs)
+  recordProviderAttempt(
+    jobId: string,
+    provider: string,
+    attempt: ProviderAttempt,
+  ): void {
+    const job = this.jobs.get(jobId);
+    if (!job) return;
+
+    if (job.providerResults) {
+      const providerResult = job.providerResults[provider];
+      if (!providerResult) return;
+      providerResult.attempts = [...(providerResult.attempts || []), attempt];
+    } else {
+      job.attempts = [...(job.attempts || []), attempt];
+    }
+
+    this.jobs.save(job);
+    if (attempt.retryDelayMs !== undefined) {
+      this.emit('provider.retrying', job, provider);
+    }
+  }
+
   updateJobStatus(jobId: string, status: JobStatus): void {
     const job = this.jobs.get(jobId);
-    if (job) {
+    if (job && job.status !== JobStatus.CANCELLED) {
       job.status = status;
-      this.jobs.set(jobId, job);
+      this.jobs.save(job);
+      this.emit('status', job);
+      this.refreshBatch(job);
     }
   }
 
   // Update result for a specific provider in comparison job
   updateProviderResult(
     jobId: string,
-    provider: 'aws' | 'deepgram',
-    result: any,
+    provider: string,
+    result: TranscriptResult,
+    usage?: ProviderUsage,
   ): void {
     const job = this.jobs.get(jobId);
-    if (job && job.providerResults) {
+    // Late results of a cancelled job are dropped
+    if (job && job.providerResults && job.status !== JobStatus.CANCELLED) {
       job.providerResults[provider] = {
         status: 'completed',
         result,
+        attempts: job.providerResults[provider]?.attempts,
+        usage,
+        startedAt: job.providerResults[provider]?.startedAt,
         completedAt: new Date(),
       };
 
       // Check if all providers are completed
-      const allCompleted = this.areAllProvidersCompleted(jobId);
+      const allCompleted = this.areAllProvidersCompleted(job);
       if (allCompleted) {
         job.status = JobStatus.COMPLETED;
         job.completedAt = new Date();
@@ -123,32 +609,34 @@ export class JobManagerService {
         job.status = JobStatus.PROCESSING;
       }
 
-      this.jobs.set(jobId, job);
+      this.jobs.save(job);
+      this.emit('provider.completed', job, provider);
+      this.emitIfFinished(job);
+      this.refreshBatch(job);
     }
   }
 
   // Mark a provider as failed
-  failProviderResult(
-    jobId: string,
-    provider: 'aws' | 'deepgram',
-    error: string,
-  ): void {
+  failProviderResult(jobId: string, provider: string, error: string): void {
     const job = this.jobs.get(jobId);
-    if (job && job.providerResults) {
+    // Late results of a cancelled job are dropped
+    if (job && job.providerResults && job.status !== JobStatus.CANCELLED) {
       job.providerResults[provider] = {
         status: 'failed',
         error,
+        attempts: job.providerResults[provider]?.attempts,
+        startedAt: job.providerResults[provider]?.startedAt,
         completedAt: new Date(),
       };
 
       // Check if all providers are done (completed or failed)
-      const allDone = this.areAllProvidersCompleted(jobId);
+      const allDone = this.areAllProvidersCompleted(job);
       if (allDone) {
         // If at least one succeeded, mark job as completed
         // If all failed, mark job as failed
-        const hasSuccess =
-          job.providerResults.aws?.status === 'completed' ||
-          job.providerResults.deepgram?.status === 'completed';
+        const hasSuccess = Object.values(job.providerResults).some(
+          (providerResult) => providerResult.status === 'completed',
+        );
 
         job.status = hasSuccess ? JobStatus.COMPLETED : JobStatus.FAILED;
         job.completedAt = new Date();
@@ -156,55 +644,161 @@ export class JobManagerService {
         job.status = JobStatus.PROCESSING;
       }
 
-      this.jobs.set(jobId, job);
+      this.jobs.save(job);
+      this.emit('provider.failed', job, provider);
+      this.emitIfFinished(job);
+      this.refreshBatch(job);
     }
   }
 
   // Check if all providers have completed (or failed)
-  private areAllProvidersCompleted(jobId: string): boolean {
+  private areAllProvidersCompleted(job: TranscriptionJob): boolean {
+    if (!job.providerResults) return false;
+
+    return Object.values(job.providerResults).every(
+      (providerResult) =>
+        providerResult.status === 'completed' ||
+        providerResult.status === 'failed',
+    );
+  }
+
+  setPreprocessing(
+    jobId: string,
+    media: MediaInfo | null,
+    preprocessing: PreprocessingInfo,
+  ): void {
     const job = this.jobs.get(jobId);
-    if (!job || !job.providerResults) return false;
+    if (job) {
+      job.media = media;
+      job.preprocessing = preprocessing;
+      this.jobs.save(job);
+    }
+  }
 
-    const awsStatus = job.providerResults.aws?.status;
-    const deepgramStatus = job.providerResults.deepgram?.status;
+  // Store (or replace) the reference transcript; previous scores are stale
+  setReferenceTranscript(jobId: string, referenceTranscript: string): void {
+    const job = this.jobs.get(jobId);
+    if (job) {
+      job.referenceTranscript = referenceTranscript;
+      job.accuracy = {};
+      this.jobs.save(job);
+    }
+  }
 
-    return (
-      (awsStatus === 'completed' || awsStatus === 'failed') &&
-      (deepgramStatus === 'completed' || deepgramStatus === 'failed')
-    );
+  // Merge speaker names into the job's; an empty name removes one
+  setSpeakerNames(jobId: string, names: Record<string, string>): void {
+    const job = this.jobs.get(jobId);
+    if (job) {
+      const speakerNames = { ...job.speakerNames, ...names };
+      for (const [speaker, name] of Object.entries(speakerNames)) {
+        if (!name) delete speakerNames[speaker];
+      }
+      job.speakerNames = speakerNames;
+      this.jobs.save(job);
+    }
   }
 
-  completeJob(jobId: string, result: any): void {
+  setProviderAccuracy(
+    jobId: string,
+    provider: string,
+    accuracy: AccuracyScore,
+  ): void {
     const job = this.jobs.get(jobId);
     if (job) {
+      job.accuracy = { ...job.accuracy, [provider]: accuracy };
+      this.jobs.save(job);
+      this.emit('accuracy', job, provider);
+    }
+  }
+
+  completeJob(
+    jobId: string,
+    result: TranscriptResult,
+    usage?: ProviderUsage,
+  ): void {
+    const job = this.jobs.get(jobId);
+    if (job && job.status !== JobStatus.CANCELLED) {
       job.status = JobStatus.COMPLETED;
       job.result = result;
+      job.usage = usage;
       job.completedAt = new Date();
-      this.jobs.set(jobId, job);
+      this.jobs.save(job);
+      this.emit('job.completed', job, job.provider);
+      this.refreshBatch(job);
     }
   }
 
   failJob(jobId: string, error: string): void {
     const job = this.jobs.get(jobId);
-    if (job) {
+    if (job && job.status !== JobStatus.CANCELLED) {
       job.status = JobStatus.FAILED;
       job.error = error;
       job.completedAt = new Date();
-      this.jobs.set(jobId, job);
+      this.jobs.save(job);
+      this.emit('job.failed', job, job.provider);
+      this.refreshBatch(job);
     }
   }
 
-  // Clean up old jobs (completed/failed jobs older than 1 hour)
-  cleanupOldJobs(): void {
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-    for (const [jobId, job] of this.jobs.entries()) {
-      if (
-        job.completedAt &&
-        job.completedAt < oneHourAgo &&
-        [JobStatus.COMPLETED, JobStatus.FAILED].includes(job.status)
-      ) {
-        this.jobs.delete(jobId);
+  // Add or replace an entry in the job's webhook delivery log. Deliveries
+  // keep being recorded after the job is finished or cancelled.
+  saveWebhookDelivery(jobId: string, delivery: WebhookDelivery): void {
+    const job = this.jobs.get(jobId);
+    if (job) {
+      const deliveries = (job.webhookDeliveries || []).filter(
+        (existing) => existing.id !== delivery.id,
+      );
+      job.webhookDeliveries = [...deliveries, delivery].sort(
+        (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+      );
+      this.jobs.save(job);
+    }
+  }
+
+  // Stop a pending or processing job; unfinished providers become cancelled
+  cancelJob(jobId: string): void {
+    const job = this.jobs.get(jobId);
+    if (job) {
+      job.status = JobStatus.CANCELLED;
+      job.error = 'Job was cancelled';
+      job.completedAt = new Date();
+
+      for (const providerResult of Object.values(job.providerResults || {})) {
+        if (
+          providerResult.status === 'pending' ||
+          providerResult.status === 'processing'
+        ) {
+          providerResult.status = 'cancelled';
+          providerResult.completedAt = new Date();
+        }
       }
+
+      this.jobs.save(job);
+      this.emit('job.cancelled', job);
+      this.refreshBatch(job);
     }
   }
+
+  // Delete jobs older than the TTL configured for their status. Finished
+  // jobs age from completedAt, pending/processing jobs from createdAt.
+  // A missing or zero TTL keeps jobs of that status forever.
+  purgeExpiredJobs(
+    ttlByStatus: Partial<Record<JobStatus, number>>,
+    now: Date = new Date(),
+  ): TranscriptionJob[] {
+    const purged: TranscriptionJob[] = [];
+
+    for (const job of this.jobs.list()) {
+      const ttl = ttlByStatus[job.status];
+      if (!ttl) continue;
+
+      const since = job.completedAt ?? job.createdAt;
+      if (now.getTime() - since.getTime() > ttl) {
+        this.jobs.delete(job.id);
+        purged.push(job);
+      }
+    }
+
+    return purged;
+  }
 }
@@ -0,0 +1,112 @@
+import {
+  JobPriority,
+  ProviderResult,
+  TranscriptionJob,
+} from './job-manager.service';
+import { getCompletedResults } from './diarization/job-diarization';
+import { compareDetectedLanguages } from './language/language-codes';
+
+// API views of a job, shared by the controller and webhook payloads
+
+// `queuePositions` holds the 1-based queue position of each provider call
+// that is still waiting (ProviderQueueService.getPositions)
+
+// A provider id and its result; the status of a single provider job is
+// the job status
+type ProviderEntry = [
+  string,
+  Omit<ProviderResult, 'status'> & { status: string },
+];
+
+// Listing view - per-provider status and scores, no transcripts
+export function toJobSummary(
+  job: TranscriptionJob,
+  queuePositions: Record<string, number> = {},
+) {
+  // Single provider jobs keep their result on the job itself
+  const results: ProviderEntry[] = job.providerResults
+    ? Object.entries(job.providerResults)
+    : job.provider
+      ? [
+          [
+            job.provider,
+            {
+              status: job.result ? 'completed' : job.status,
+              result: job.result,
+              error: job.error,
+              attempts: job.attempts,
+              usage: job.usage,
+            },
+          ],
+        ]
+      : [];
+
+  return {
+    id: job.id,
+    status: job.status,
+    fileName: job.fileName,
+    languageCode: job.languageCode,
+    provider: job.provider,
+    providers: results.map(([providerId, providerResult]) => ({
+      id: providerId,
+      status: providerResult.status,
+      queuePosition: queuePositions[providerId] ?? null,
+      language: providerResult.result?.language ?? null,
+      processingTime: providerResult.result?.processingTime ?? null,
+      attempts: providerResult.attempts?.length ?? 0,
+      estimatedCost: providerResult.usage?.estimatedCost ?? null,
+      wer: job.accuracy?.[providerId]?.wer ?? null,
+      error: providerResult.error ?? providerResult.result?.error ?? null,
+    })),
+    hasReference: !!job.referenceTranscript,
+    priority: job.priority ?? JobPriority.NORMAL,
+    batchId: job.batchId,
+    error: job.error,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+  };
+}
+
+export function toJobResponse(
+  job: TranscriptionJob,
+  queuePositions: Record<string, number> = {},
+) {
+  return {
+    id: job.id,
+    status: job.status,
+    fileName: job.fileName,
+    languageCode: job.languageCode,
+    provider: job.provider,
+    models: job.models,
+    providerOptions: job.providerOptions,
+    postProcessingRules: job.postProcessingRules,
+    media: job.media,
+    preprocessing: job.preprocessing,
+    result: job.result,
+    // Single provider jobs; comparison jobs keep these in providerResults
+    attempts: job.attempts,
+    usage: job.usage,
+    providerResults: job.providerResults, // Include partial results for comparison jobs
+    // Languages the finished providers heard; agreed is false when they
+    // detected different languages
+    languageDetection: compareDetectedLanguages(
+      Object.fromEntries(
+        Object.entries(getCompletedResults(job)).map(([providerId, result]) => [
+          providerId,
+          result.language,
+        ]),
+      ),
+    ),
+    referenceTranscript: job.referenceTranscript,
+    accuracy: job.accuracy,
+    speakerNames: job.speakerNames,
+    callbackUrl: job.callbackUrl,
+    priority: job.priority ?? JobPriority.NORMAL,
+    queuePositions,
+    batchId: job.batchId,
+    batch: job.batch,
+    error: job.error,
+    createdAt: job.createdAt,
+    completedAt: job.completedAt,
+  };
+}
@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileJobStore } from './file-job-store';
+import { JobStatus, TranscriptionJob } from '../job-manager.service';
+
+describe('FileJobStore', () => {
+  let directory: string;
+  let store: FileJobStore;
+
+  const job: TranscriptionJob = {
+    id: '6f1c2c1e-7a4b-4a8e-9a52-1f0f3c9d2b11',
+    status: JobStatus.PROCESSING,
+    fileName: 'meeting.mp3',
+    filePath: './public/uploads/file-1.mp3',
+    languageCode: 'en-US',
+    providerResults: {
+      aws: { status: 'pending' },
+      deepgram: { status: 'failed', error: 'boom', completedAt: new Date() },
+    },
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'job-store-'));
+    store = new FileJobStore(directory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should round-trip jobs and restore dates', () => {
+    store.save(job);
+
+    const loaded = store.get(job.id);
+    expect(loaded).toEqual(job);
+    expect(loaded?.createdAt).toBeInstanceOf(Date);
+    expect(loaded?.providerResults?.deepgram.completedAt).toBeInstanceOf(Date);
+  });
+
+  it('should keep jobs for the next store instance', () => {
+    store.save(job);
+
+    const other = new FileJobStore(directory);
+    expect(other.list().map((j) => j.id)).toEqual([job.id]);
+
+    other.delete(job.id);
+    expect(store.get(job.id)).toBeUndefined();
+  });
+
+  it('should ignore ids that are not valid file names', () => {
+    expect(store.get('../../etc/passwd')).toBeUndefined();
+  });
+});
@@ -0,0 +1,103 @@
+import { TranscriptionJob } from '../job-manager.service';
+import { JobStore } from './job-store.interface';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Stores one JSON file per job so jobs survive a restart. Only one process
+// may use a directory: on startup every pending/processing job in it is
+// resumed or failed, and progress and cancellation only reach the process
+// that runs the job.
+export class FileJobStore implements JobStore {
+  constructor(private readonly directory: string) {
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  get(jobId: string): TranscriptionJob | undefined {
+    if (!this.isValidJobId(jobId)) return undefined;
+
+    const filePath = this.getFilePath(jobId);
+    if (!fs.existsSync(filePath)) return undefined;
+
+    try {
+      return this.deserialize(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      console.error(`[FileJobStore] Failed to read job ${jobId}:`, error);
+      return undefined;
+    }
+  }
+
+  save(job: TranscriptionJob): void {
+    // Write to a temp file first so readers never see a partial job
+    const filePath = this.getFilePath(job.id);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(job));
+    fs.renameSync(tempPath, filePath);
+  }
+
+  delete(jobId: string): void {
+    if (!this.isValidJobId(jobId)) return;
+
+    const filePath = this.getFilePath(jobId);
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+
+  list(): TranscriptionJob[] {
+    return fs
+      .readdirSync(this.directory)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => this.get(path.basename(file, '.json')))
+      .filter((job): job is TranscriptionJob => job !== undefined);
+  }
+
+  // Job ids are UUIDs - reject anything that could escape the directory
+  private isValidJobId(jobId: string): boolean {
+    return /^[\w-]+$/.test(jobId);
+  }
+
+  private getFilePath(jobId: string): string {
+    return path.join(this.directory, `${jobId}.json`);
+  }
+
+  // JSON turns Dates into strings - restore them
+  private deserialize(content: string): TranscriptionJob {
+    const job = JSON.parse(content) as TranscriptionJob;
+    job.createdAt = new Date(job.createdAt);
+    if (job.completedAt) job.completedAt = new Date(job.completedAt);
+
+    for (const providerResult of Object.values(job.providerResults || {})) {
+      if (providerResult.startedAt) {
+        providerResult.startedAt = new Date(providerResult.startedAt);
+      }
+      if (providerResult.completedAt) {
+        providerResult.completedAt = new Date(providerResult.completedAt);
+      }
+    }
+
+    for (const attempt of [
+      ...(job.attempts || []),
+      ...Object.values(job.providerResults || {}).flatMap(
+        (providerResult) => providerResult.attempts || [],
+      ),
+    ]) {
+      attempt.startedAt = new Date(attempt.startedAt);
+    }
+
+    for (const accuracy of Object.values(job.accuracy || {})) {
+      accuracy.scoredAt = new Date(accuracy.scoredAt);
+    }
+
+    for (const delivery of job.webhookDeliveries || []) {
+      delivery.createdAt = new Date(delivery.createdAt);
+      if (delivery.completedAt) {
+        delivery.completedAt = new Date(delivery.completedAt);
+      }
+      for (const attempt of delivery.attempts) {
+        attempt.at = new Date(attempt.at);
+      }
+    }
+
+    return job;
+  }
+}
@@ -0,0 +1,23 @@
+import { TranscriptionJob } from '../job-manager.service';
+import { JobStore } from './job-store.interface';
+
+// Default store - jobs are lost when the process exits
+export class InMemoryJobStore implements JobStore {
+  private jobs: Map<string, TranscriptionJob> = new Map();
+
+  get(jobId: string): TranscriptionJob | undefined {
+    return this.jobs.get(jobId);
+  }
+
+  save(job: TranscriptionJob): void {
+    this.jobs.set(job.id, job);
+  }
+
+  delete(jobId: string): void {
+    this.jobs.delete(jobId);
+  }
+
+  list(): TranscriptionJob[] {
+    return Array.from(this.jobs.values());
+  }
+}
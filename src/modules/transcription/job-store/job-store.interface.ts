@@ -0,0 +1,12 @@
+import { TranscriptionJob } from '../job-manager.service';
+
+export const JOB_STORE = Symbol('JOB_STORE');
+
+// Persistence backend for transcription jobs. Methods are synchronous so
+// JobManagerService keeps its existing synchronous API.
+export interface JobStore {
+  get(jobId: string): TranscriptionJob | undefined;
+  save(job: TranscriptionJob): void;
+  delete(jobId: string): void;
+  list(): TranscriptionJob[];
+}
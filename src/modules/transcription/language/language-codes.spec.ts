@@ -0,0 +1,74 @@
+import {
+  canonicalizeLanguage,
+  compareDetectedLanguages,
+  resolveLanguage,
+} from './language-codes';
+import { toAwsLanguage } from '../providers/aws-transcribe/aws-languages';
+import { toDeepgramLanguage } from '../providers/deepgram/deepgram-languages';
+
+describe('language codes', () => {
+  describe('canonicalizeLanguage', () => {
+    it('should fix the case of each subtag', () => {
+      expect(canonicalizeLanguage('EN-us')).toBe('en-US');
+      expect(canonicalizeLanguage('zh_hant_tw')).toBe('zh-Hant-TW');
+      expect(canonicalizeLanguage('es-419')).toBe('es-419');
+      expect(canonicalizeLanguage('vi')).toBe('vi');
+    });
+
+    it('should reject anything that is not a language tag', () => {
+      expect(canonicalizeLanguage('english')).toBeNull();
+      expect(canonicalizeLanguage('en-US-x-private')).toBeNull();
+      expect(canonicalizeLanguage('')).toBeNull();
+    });
+  });
+
+  describe('resolveLanguage', () => {
+    it('should prefer the exact code, then the bare language', () => {
+      expect(resolveLanguage(['en', 'en-GB'], 'en-GB')).toBe('en-GB');
+      expect(resolveLanguage(['en', 'vi'], 'vi-VN')).toBe('vi');
+    });
+
+    it('should give a bare language the first listed region', () => {
+      expect(resolveLanguage(['en-US', 'en-GB'], 'en')).toBe('en-US');
+    });
+
+    it('should not swap one region for another', () => {
+      expect(resolveLanguage(['en-US', 'en-GB'], 'en-ZA')).toBeNull();
+      expect(resolveLanguage(['en', 'de'], 'fr')).toBeNull();
+    });
+  });
+
+  describe('provider mappings', () => {
+    it('should translate languages for Deepgram per model', () => {
+      expect(toDeepgramLanguage('vi-VN', 'nova-2')).toBe('vi');
+      expect(toDeepgramLanguage('en-GB', 'nova-3')).toBe('en-GB');
+      expect(toDeepgramLanguage('en-GB', 'nova-3-medical')).toBe('en');
+    });
+
+    it('should add a region for AWS', () => {
+      expect(toAwsLanguage('en')).toBe('en-US');
+      expect(toAwsLanguage('vi')).toBe('vi-VN');
+      expect(toAwsLanguage('en-GB')).toBe('en-GB');
+    });
+  });
+
+  describe('compareDetectedLanguages', () => {
+    it('should agree on the same base language', () => {
+      expect(
+        compareDetectedLanguages({ aws: 'en-US', deepgram: 'en' }),
+      ).toEqual({ detected: { aws: 'en-US', deepgram: 'en' }, agreed: true });
+    });
+
+    it('should flag different languages', () => {
+      expect(
+        compareDetectedLanguages({ aws: 'vi-VN', deepgram: 'th' }).agreed,
+      ).toBe(false);
+    });
+
+    it('should not decide with fewer than two languages', () => {
+      expect(
+        compareDetectedLanguages({ aws: 'en-US', deepgram: null }).agreed,
+      ).toBeNull();
+    });
+  });
+});
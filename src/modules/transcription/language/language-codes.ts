@@ -0,0 +1,87 @@
+import { ProviderLanguageSupport } from '../providers/transcription-provider.interface';
+
+// Languages are handled as canonical BCP-47 tags: lower-case language,
+// title-case script, upper-case region (en-US, zh-Hant-TW, es-419).
+// Providers translate them to their own codes (see resolveLanguage).
+
+// Requested instead of a language to have the providers detect it
+export const AUTO_LANGUAGE = 'auto';
+
+const LANGUAGE_TAG = /^([a-z]{2,3})(?:-([a-z]{4}))?(?:-([a-z]{2}|\d{3}))?$/i;
+
+// Languages the providers of a job detected, and whether they agree
+export interface LanguageComparison {
+  detected: Record<string, string | null>; // Provider id -> canonical code
+  // Same base language everywhere; null until two providers reported one
+  agreed: boolean | null;
+}
+
+// Canonical form of a language tag ('en_us' -> 'en-US'), null when it is
+// not a language[-Script][-REGION] tag
+export function canonicalizeLanguage(languageCode: string): string | null {
+  const match = LANGUAGE_TAG.exec(languageCode.trim().replace(/_/g, '-'));
+  if (!match) return null;
+
+  const [, language, script, region] = match;
+  return [
+    language.toLowerCase(),
+    script && script[0].toUpperCase() + script.slice(1).toLowerCase(),
+    region?.toUpperCase(),
+  ]
+    .filter(Boolean)
+    .join('-');
+}
+
+// Language subtag without script or region ('pt-BR' -> 'pt')
+export function getBaseLanguage(languageCode: string): string {
+  return languageCode.split('-')[0].toLowerCase();
+}
+
+// Languages a provider accepts with the given model; null for a model the
+// provider doesn't have
+export function getSupportedLanguages(
+  support: ProviderLanguageSupport,
+  model?: string,
+): readonly string[] | null {
+  if (!model || !support.models) return support.languages;
+  return support.models[model] ?? null;
+}
+
+// The provider's code for a canonical language: the code itself when the
+// provider lists it, else the bare language when that is listed ('vi-VN'
+// -> 'vi'), else for a bare language the first listed region ('en' ->
+// 'en-US'). Null when the provider doesn't support the language.
+export function resolveLanguage(
+  supported: readonly string[],
+  languageCode: string,
+): string | null {
+  if (supported.includes(languageCode)) return languageCode;
+
+  const base = getBaseLanguage(languageCode);
+  if (supported.includes(base)) return base;
+  if (languageCode !== base) return null;
+
+  return supported.find((code) => getBaseLanguage(code) === base) ?? null;
+}
+
+// Compare the languages reported by each provider ('en' from Deepgram
+// agrees with 'en-US' from AWS). Providers without a language are listed
+// but not counted.
+export function compareDetectedLanguages(
+  languages: Record<string, string | null>,
+): LanguageComparison {
+  const detected = Object.fromEntries(
+    Object.entries(languages).map(([providerId, language]) => [
+      providerId,
+      language ? (canonicalizeLanguage(language) ?? language) : null,
+    ]),
+  );
+  const bases = Object.values(detected)
+    .filter((language): language is string => language !== null)
+    .map((language) => getBaseLanguage(language));
+
+  return {
+    detected,
+    agreed: bases.length < 2 ? null : new Set(bases).size === 1,
+  };
+}
@@ -0,0 +1,103 @@
+import { ProviderRegistryService } from '../providers/provider-registry.service';
+import { TranscriptionProvider } from '../providers/transcription-provider.interface';
+import { AWS_LANGUAGE_SUPPORT } from '../providers/aws-transcribe/aws-languages';
+import { DEEPGRAM_LANGUAGE_SUPPORT } from '../providers/deepgram/deepgram-languages';
+import { LanguageService } from './language.service';
+
+describe('LanguageService', () => {
+  let service: LanguageService;
+
+  const provider = (
+    id: string,
+    displayName: string,
+    overrides: Partial<TranscriptionProvider>,
+  ) =>
+    ({
+      id,
+      displayName,
+      supportedFormats: ['wav'],
+      capabilities: {
+        languageDetection: true,
+        diarization: true,
+        modelSelection: false,
+      },
+      transcribeFile: jest.fn(),
+      getBillingModel: () => 'standard',
+      ...overrides,
+    }) as unknown as TranscriptionProvider;
+
+  beforeEach(() => {
+    const registry = new ProviderRegistryService();
+    registry.register(
+      provider('aws', 'AWS Transcribe', {
+        languageSupport: AWS_LANGUAGE_SUPPORT,
+      }),
+    );
+    registry.register(
+      provider('deepgram', 'Deepgram', {
+        capabilities: {
+          languageDetection: true,
+          diarization: true,
+          modelSelection: true,
+        },
+        languageSupport: DEEPGRAM_LANGUAGE_SUPPORT,
+      }),
+    );
+    registry.register(
+      provider('local', 'Local', {
+        capabilities: {
+          languageDetection: false,
+          diarization: false,
+          modelSelection: false,
+        },
+        languageSupport: { languages: ['en'] },
+      }),
+    );
+    service = new LanguageService(registry);
+  });
+
+  it('should canonicalize requested languages', () => {
+    expect(service.parseLanguage(undefined)).toBe('en-US');
+    expect(service.parseLanguage('AUTO')).toBe('auto');
+    expect(service.parseLanguage('vi_vn')).toBe('vi-VN');
+    expect(service.parseLanguage('vietnamese')).toBeNull();
+  });
+
+  it('should accept languages every provider supports', () => {
+    expect(
+      service.getLanguageError(['aws', 'deepgram'], 'vi-VN', {
+        deepgram: 'nova-2',
+      }),
+    ).toBeNull();
+    expect(
+      service.getLanguageError(['aws', 'deepgram'], 'auto', {
+        deepgram: 'nova-3',
+      }),
+    ).toBeNull();
+  });
+
+  it('should reject a language the model does not support', () => {
+    expect(
+      service.getLanguageError(['deepgram'], 'vi-VN', { deepgram: 'nova-3' }),
+    ).toBe('Deepgram model nova-3 does not support language vi-VN');
+    // The model only matters to Deepgram
+    expect(
+      service.getLanguageError(['aws'], 'vi-VN', { deepgram: 'nova-3' }),
+    ).toBeNull();
+  });
+
+  it('should reject unknown models', () => {
+    expect(
+      service.getLanguageError(['deepgram'], 'en-US', { deepgram: 'nova-9' }),
+    ).toContain('Deepgram does not support model "nova-9"');
+  });
+
+  it('should reject detection or languages a provider lacks', () => {
+    expect(service.getLanguageError(['local'], 'auto')).toBe(
+      'Local cannot detect the language; choose one',
+    );
+    expect(service.getLanguageError(['aws'], 'xx-XX')).toBe(
+      'AWS Transcribe does not support language xx-XX',
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import { Injectable } from '@nestjs/common';
+import { ProviderRegistryService } from '../providers/provider-registry.service';
+import {
+  AUTO_LANGUAGE,
+  canonicalizeLanguage,
+  getSupportedLanguages,
+  resolveLanguage,
+} from './language-codes';
+
+@Injectable()
+export class LanguageService {
+  constructor(private providerRegistry: ProviderRegistryService) {}
+
+  // Canonical form of a requested language (default en-US); 'auto' asks
+  // the providers to detect it. Null for a malformed code.
+  parseLanguage(languageCode?: string): string | null {
+    if (!languageCode) return 'en-US';
+    if (languageCode.trim().toLowerCase() === AUTO_LANGUAGE) {
+      return AUTO_LANGUAGE;
+    }
+    return canonicalizeLanguage(languageCode);
+  }
+
+  // First language or model the given providers don't support, checked
+  // before anything is sent to them. Models are keyed by provider id and
+  // only apply to providers with modelSelection.
+  getLanguageError(
+    providerIds: string[],
+    languageCode: string,
+    models: Record<string, string> = {},
+  ): string | null {
+    for (const providerId of providerIds) {
+      const provider = this.providerRegistry.get(providerId);
+      if (!provider) continue;
+
+      const providerModel = provider.capabilities.modelSelection
+        ? models[providerId]
+        : undefined;
+      const languages = getSupportedLanguages(
+        provider.languageSupport,
+        providerModel,
+      );
+      if (!languages) {
+        return `${provider.displayName} does not support model "${providerModel}". Choose from: ${Object.keys(provider.languageSupport.models ?? {}).join(', ')}`;
+      }
+
+      if (languageCode === AUTO_LANGUAGE) {
+        if (!provider.capabilities.languageDetection) {
+          return `${provider.displayName} cannot detect the language; choose one`;
+        }
+      } else if (!resolveLanguage(languages, languageCode)) {
+        return providerModel
+          ? `${provider.displayName} model ${providerModel} does not support language ${languageCode}`
+          : `${provider.displayName} does not support language ${languageCode}`;
+      }
+    }
+    return null;
+  }
+}
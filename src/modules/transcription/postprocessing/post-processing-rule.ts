@@ -0,0 +1,48 @@
+// Rules that correct provider transcripts before they are stored. Clients
+// manage rules through the API and pick them per job (?postProcessing=).
+
+export const POST_PROCESSING_RULE_TYPES = [
+  'dictionary', // Misheard forms of a term are replaced with the term
+  'replace', // Regular expression find/replace
+  'numbers', // Spoken numbers (and optionally dates) written as digits
+  'profanity', // Swear words masked as 'f***'
+] as const;
+
+export type PostProcessingRuleType =
+  (typeof POST_PROCESSING_RULE_TYPES)[number];
+
+// What a rule does; only the settings of its type are kept
+export interface PostProcessingRuleDefinition {
+  type: PostProcessingRuleType;
+  // dictionary: term -> misheard forms, e.g. { "Notica": ["notika"] }
+  terms?: Record<string, string[]>;
+  // replace: JavaScript regular expression; $1, $<name> and $& work in
+  // the replacement
+  pattern?: string;
+  replacement?: string;
+  caseSensitive?: boolean;
+  dates?: boolean; // numbers: also write out dates ('March 3, 2024')
+  words?: string[]; // profanity: masked in addition to the built-in list
+}
+
+export interface PostProcessingRule extends PostProcessingRuleDefinition {
+  id: string;
+  name: string;
+  clientId?: string; // API key that created the rule, unset without auth
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Copy of a rule kept on jobs, so editing or deleting the rule doesn't
+// change jobs that were already started
+export type JobPostProcessingRule = Omit<
+  PostProcessingRule,
+  'clientId' | 'createdAt' | 'updatedAt'
+>;
+
+// A compiled rule: every match of `pattern` (a global RegExp) becomes the
+// text returned by `replace`
+export interface TextRule {
+  pattern: RegExp;
+  replace: (match: RegExpMatchArray) => string;
+}
@@ -0,0 +1,166 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiClient } from '../../auth/api-client.interface';
+import { getClientFilter } from '../job-access';
+import {
+  JobPostProcessingRule,
+  PostProcessingRule,
+  PostProcessingRuleDefinition,
+} from './post-processing-rule';
+import { getRuleError, toRuleDefinition } from './post-processing';
+
+// Post-processing rules managed through the API. Rules belong to the API
+// key that created them (admin keys see every rule) and are saved to a
+// JSON file so they survive restarts.
+@Injectable()
+export class PostProcessingRulesService implements OnModuleInit {
+  private rules = new Map<string, PostProcessingRule>();
+
+  constructor(private configService: ConfigService) {}
+
+  // A missing file is treated as empty; it is created with the first rule
+  onModuleInit() {
+    const filePath = this.getFilePath();
+    if (!filePath || !fs.existsSync(filePath)) return;
+
+    try {
+      const rules = JSON.parse(
+        fs.readFileSync(filePath, 'utf8'),
+      ) as PostProcessingRule[];
+      if (!Array.isArray(rules)) {
+        throw new Error('expected an array of rules');
+      }
+      for (const rule of rules) {
+        this.rules.set(rule.id, {
+          ...rule,
+          createdAt: new Date(rule.createdAt),
+          updatedAt: new Date(rule.updatedAt),
+        });
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to load post-processing rules from ${filePath}: ${(error as Error).message}`,
+      );
+    }
+
+    console.log(`[PostProcessing] Loaded ${this.rules.size} rule(s)`);
+  }
+
+  // Rules the client can see, oldest first
+  list(client?: ApiClient): PostProcessingRule[] {
+    return [...this.rules.values()].filter((rule) =>
+      this.canAccess(client, rule),
+    );
+  }
+
+  get(ruleId: string, client?: ApiClient): PostProcessingRule | undefined {
+    const rule = this.rules.get(ruleId);
+    return rule && this.canAccess(client, rule) ? rule : undefined;
+  }
+
+  create(
+    name: string,
+    input: PostProcessingRuleDefinition,
+    client?: ApiClient,
+  ): PostProcessingRule {
+    const now = new Date();
+    const rule: PostProcessingRule = {
+      id: randomUUID(),
+      name: name.trim(),
+      ...this.toDefinition(input),
+      clientId: client?.id,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.rules.set(rule.id, rule);
+    this.save();
+    return rule;
+  }
+
+  // Replace a rule's name and settings; undefined if there is no such rule
+  update(
+    ruleId: string,
+    name: string,
+    input: PostProcessingRuleDefinition,
+    client?: ApiClient,
+  ): PostProcessingRule | undefined {
+    const existing = this.get(ruleId, client);
+    if (!existing) return undefined;
+
+    const rule: PostProcessingRule = {
+      id: existing.id,
+      name: name.trim(),
+      ...this.toDefinition(input),
+      clientId: existing.clientId,
+      createdAt: existing.createdAt,
+      updatedAt: new Date(),
+    };
+
+    this.rules.set(rule.id, rule);
+    this.save();
+    return rule;
+  }
+
+  // Jobs already started keep their copy of the rule
+  delete(ruleId: string, client?: ApiClient): boolean {
+    if (!this.get(ruleId, client)) return false;
+
+    this.rules.delete(ruleId);
+    this.save();
+    return true;
+  }
+
+  // Copies of the rules to store on a new job, in the order given
+  getJobRules(ruleIds: string[], client?: ApiClient): JobPostProcessingRule[] {
+    return ruleIds.map((ruleId) => {
+      const rule = this.get(ruleId, client);
+      if (!rule) {
+        throw new Error(`Unknown post-processing rule "${ruleId}"`);
+      }
+
+      return { id: rule.id, name: rule.name, ...toRuleDefinition(rule) };
+    });
+  }
+
+  private toDefinition(
+    input: PostProcessingRuleDefinition,
+  ): PostProcessingRuleDefinition {
+    const definition = toRuleDefinition(input);
+    const error = getRuleError(definition);
+    if (error) {
+      throw new Error(error);
+    }
+    return definition;
+  }
+
+  // Without auth every rule is visible
+  private canAccess(
+    client: ApiClient | undefined,
+    rule: PostProcessingRule,
+  ): boolean {
+    const clientId = getClientFilter(client);
+    return !clientId || rule.clientId === clientId;
+  }
+
+  private save(): void {
+    const filePath = this.getFilePath();
+    if (!filePath) return;
+
+    // Write to a temp file first so a crash never leaves a partial file
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(
+      tempPath,
+      JSON.stringify([...this.rules.values()], null, 2),
+    );
+    fs.renameSync(tempPath, filePath);
+  }
+
+  private getFilePath(): string {
+    return this.configService.get<string>('postProcessing.rulesFile') || '';
+  }
+}
@@ -0,0 +1,86 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Put,
+} from '@nestjs/common';
+import type { ApiClient } from '../../auth/api-client.interface';
+import { CurrentClient } from '../../auth/current-client.decorator';
+import { PostProcessingRuleDto } from '../dto/post-processing-rule.dto';
+import { PostProcessingRule } from './post-processing-rule';
+import { PostProcessingRulesService } from './post-processing-rules.service';
+
+// Rules for the postProcessing upload option. Rules of other clients are
+// reported as missing.
+@Controller('transcription/post-processing/rules')
+export class PostProcessingController {
+  constructor(private rulesService: PostProcessingRulesService) {}
+
+  @Get()
+  listRules(@CurrentClient() client: ApiClient | undefined) {
+    return { success: true, rules: this.rulesService.list(client) };
+  }
+
+  @Get(':ruleId')
+  getRule(
+    @Param('ruleId') ruleId: string,
+    @CurrentClient() client: ApiClient | undefined,
+  ) {
+    const rule = this.rulesService.get(ruleId, client);
+    if (!rule) {
+      throw new NotFoundException(`Rule ${ruleId} not found`);
+    }
+    return { success: true, rule };
+  }
+
+  @Post()
+  createRule(
+    @Body() body: PostProcessingRuleDto,
+    @CurrentClient() client: ApiClient | undefined,
+  ) {
+    try {
+      return {
+        success: true,
+        rule: this.rulesService.create(body.name, body, client),
+      };
+    } catch (error) {
+      throw new BadRequestException((error as Error).message);
+    }
+  }
+
+  // Replaces the whole rule; jobs already started keep the old version
+  @Put(':ruleId')
+  updateRule(
+    @Param('ruleId') ruleId: string,
+    @Body() body: PostProcessingRuleDto,
+    @CurrentClient() client: ApiClient | undefined,
+  ) {
+    let rule: PostProcessingRule | undefined;
+    try {
+      rule = this.rulesService.update(ruleId, body.name, body, client);
+    } catch (error) {
+      throw new BadRequestException((error as Error).message);
+    }
+
+    if (!rule) {
+      throw new NotFoundException(`Rule ${ruleId} not found`);
+    }
+    return { success: true, rule };
+  }
+
+  @Delete(':ruleId')
+  deleteRule(
+    @Param('ruleId') ruleId: string,
+    @CurrentClient() client: ApiClient | undefined,
+  ) {
+    if (!this.rulesService.delete(ruleId, client)) {
+      throw new NotFoundException(`Rule ${ruleId} not found`);
+    }
+    return { success: true };
+  }
+}
@@ -0,0 +1,258 @@
+import {
+  TranscriptResult,
+  TranscriptWord,
+} from '../providers/transcript-result.interface';
+import {
+  JobPostProcessingRule,
+  PostProcessingRuleDefinition,
+} from './post-processing-rule';
+import {
+  applyPostProcessing,
+  compileRule,
+  getRuleError,
+  replaceInText,
+  replaceInWords,
+} from './post-processing';
+
+describe('post-processing', () => {
+  // One word per second
+  const words = (text: string): TranscriptWord[] =>
+    text.split(' ').map((word, i) => ({
+      text: word,
+      start: i,
+      end: i + 1,
+      confidence: 0.9,
+      speaker: 0,
+    }));
+
+  const result = (text: string): TranscriptResult => ({
+    provider: 'Test',
+    providerId: 'test',
+    status: 'COMPLETED',
+    transcript: text,
+    words: words(text),
+    segments: [
+      {
+        speaker: 0,
+        text,
+        start: 0,
+        end: text.split(' ').length,
+        wordCount: text.split(' ').length,
+      },
+    ],
+    language: 'en-US',
+    languageConfidence: null,
+    confidence: 0.9,
+    model: null,
+    processingTime: 1,
+    audioDuration: 10,
+    error: null,
+    metadata: {},
+  });
+
+  // Apply one rule to a text
+  const apply = (
+    definition: PostProcessingRuleDefinition,
+    text: string,
+    languageCode = 'en-US',
+  ) =>
+    compileRule(definition, languageCode).reduce(
+      (current, rule) => replaceInText(current, rule).text,
+      text,
+    );
+
+  describe('dictionary', () => {
+    const dictionary: PostProcessingRuleDefinition = {
+      type: 'dictionary',
+      terms: { Notica: ['notika', 'no tika'], 'AWS Transcribe': ['a w s'] },
+    };
+
+    it('should replace misheard forms and fix the case of terms', () => {
+      expect(
+        apply(dictionary, 'Try notika or No  tika, or even NOTICA with a w s.'),
+      ).toBe('Try Notica or Notica, or even Notica with AWS Transcribe.');
+    });
+
+    it('should only match whole words', () => {
+      expect(apply(dictionary, 'notikas and anotika')).toBe(
+        'notikas and anotika',
+      );
+    });
+
+    it('should merge words and keep their timing', () => {
+      const [rule] = compileRule(dictionary, 'en-US');
+      const replaced = replaceInWords(words('hello no tika, bye'), rule);
+
+      expect(replaced.map((word) => word.text)).toEqual([
+        'hello',
+        'Notica,',
+        'bye',
+      ]);
+      expect(replaced[1]).toMatchObject({ start: 1, end: 3, speaker: 0 });
+    });
+  });
+
+  describe('replace', () => {
+    it('should support groups and case sensitivity', () => {
+      expect(
+        apply(
+          {
+            type: 'replace',
+            pattern: '(\\d+) ?percent',
+            replacement: '$1%',
+          },
+          'Up 20 Percent and 5 percent',
+        ),
+      ).toBe('Up 20% and 5%');
+      expect(
+        apply(
+          {
+            type: 'replace',
+            pattern: 'eye phone',
+            replacement: 'iPhone',
+            caseSensitive: true,
+          },
+          'Eye phone and eye phone',
+        ),
+      ).toBe('Eye phone and iPhone');
+    });
+
+    it('should remove words replaced with nothing', () => {
+      const [rule] = compileRule(
+        { type: 'replace', pattern: '\\b(um|uh),? ', replacement: '' },
+        'en-US',
+      );
+      expect(
+        replaceInWords(words('so um, I think uh yes'), rule).map(
+          (word) => word.text,
+        ),
+      ).toEqual(['so', 'I', 'think', 'yes']);
+    });
+  });
+
+  describe('numbers', () => {
+    const numbers: PostProcessingRuleDefinition = { type: 'numbers' };
+
+    it('should write spoken numbers as digits', () => {
+      expect(
+        apply(numbers, 'Three hundred and five people, twenty-one of them'),
+      ).toBe('305 people, 21 of them');
+      expect(
+        apply(numbers, 'two thousand twenty four and the twenty first'),
+      ).toBe('2024 and the 21st');
+      expect(apply(numbers, 'call one two three')).toBe('call 123');
+    });
+
+    it('should leave single small numbers and ordinals alone', () => {
+      expect(apply(numbers, 'one of the first two')).toBe(
+        'one of the first two',
+      );
+    });
+
+    it('should write out dates when asked', () => {
+      const dates: PostProcessingRuleDefinition = {
+        type: 'numbers',
+        dates: true,
+      };
+      expect(apply(dates, 'on march third twenty twenty four')).toBe(
+        'on March 3, 2024',
+      );
+      expect(apply(dates, 'the twenty first of June')).toBe('June 21');
+      expect(apply(dates, 'May 2nd, 1999 or march forty')).toBe(
+        'May 2, 1999 or march 40',
+      );
+    });
+
+    it('should only apply to English', () => {
+      expect(apply(numbers, 'twenty one', 'de-DE')).toBe('twenty one');
+    });
+  });
+
+  it('should mask profanity, including custom words', () => {
+    expect(
+      apply(
+        { type: 'profanity', words: ['darn'] },
+        'What the fuck, this shitty darn thing',
+      ),
+    ).toBe('What the f***, this s***** d*** thing');
+  });
+
+  it('should reject invalid rules', () => {
+    expect(getRuleError({ type: 'dictionary', terms: {} })).toContain(
+      'add at least one term',
+    );
+    expect(getRuleError({ type: 'replace', pattern: '(' })).toContain(
+      'pattern: Invalid regular expression',
+    );
+    expect(getRuleError({ type: 'replace', pattern: 'a*' })).toBe(
+      'pattern: must not match empty text',
+    );
+    expect(getRuleError({ type: 'replace', pattern: 'a'.repeat(501) })).toBe(
+      'pattern: at most 500 characters',
+    );
+  });
+
+  it('should refuse patterns that can backtrack exponentially', () => {
+    for (const pattern of ['(a+)+$', '^(\\w+\\s?)*$', '(\\w)x\\1']) {
+      expect(getRuleError({ type: 'replace', pattern })).toContain(
+        'too slow to match safely',
+      );
+    }
+    expect(() =>
+      compileRule({ type: 'replace', pattern: '(a+)+$' }, 'en-US'),
+    ).toThrow('Invalid replace rule');
+  });
+
+  it('should apply rules in order and keep the raw transcript', () => {
+    const rules: JobPostProcessingRule[] = [
+      {
+        id: 'names',
+        name: 'Names',
+        type: 'dictionary',
+        terms: { Notica: ['no tika'] },
+      },
+      {
+        id: 'brand',
+        name: 'Brand',
+        type: 'replace',
+        pattern: 'Notica',
+        replacement: 'Notica™',
+        caseSensitive: true,
+      },
+    ];
+    const processed = applyPostProcessing(
+      result('I love no tika'),
+      rules,
+      'en-US',
+    );
+
+    expect(processed.transcript).toBe('I love Notica™');
+    expect(processed.rawTranscript).toBe('I love no tika');
+    expect(processed.rawWords).toEqual(words('I love no tika'));
+    expect(processed.rawSegments?.[0].text).toBe('I love no tika');
+    expect(processed.postProcessing).toEqual({
+      rules: ['names', 'brand'],
+      replacements: 2,
+    });
+    expect(processed.words.map((word) => word.text)).toEqual([
+      'I',
+      'love',
+      'Notica™',
+    ]);
+    expect(processed.segments[0]).toMatchObject({
+      text: 'I love Notica™',
+      wordCount: 3,
+    });
+  });
+
+  it('should leave failed results alone', () => {
+    const failed = { ...result(''), status: 'FAILED' as const };
+    expect(
+      applyPostProcessing(
+        failed,
+        [{ id: 'p', name: 'P', type: 'profanity' }],
+        'en',
+      ),
+    ).toBe(failed);
+  });
+});
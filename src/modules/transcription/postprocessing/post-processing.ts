@@ -0,0 +1,382 @@
+import safeRegex from 'safe-regex2';
+import {
+  TranscriptResult,
+  TranscriptWord,
+} from '../providers/transcript-result.interface';
+import {
+  JobPostProcessingRule,
+  PostProcessingRuleDefinition,
+  TextRule,
+} from './post-processing-rule';
+import { DATE_RULES, NUMBER_RULE } from './spoken-numbers';
+
+// Applies a job's rules to the transcript, the segments and the words.
+// Words are matched as one text, so a rule can merge or split words
+// ('no tika' -> 'Notica'); replaced words share the timing of the words
+// they replace.
+
+const MAX_TERMS = 1000;
+const MAX_WORDS = 1000;
+const MAX_PATTERN_LENGTH = 500;
+
+// Masked by every profanity rule
+const PROFANITY = [
+  'asshole',
+  'assholes',
+  'bastard',
+  'bastards',
+  'bitch',
+  'bitches',
+  'bullshit',
+  'cunt',
+  'cunts',
+  'dickhead',
+  'fuck',
+  'fucked',
+  'fucker',
+  'fuckers',
+  'fucking',
+  'fucks',
+  'goddamn',
+  'motherfucker',
+  'motherfucking',
+  'shit',
+  'shits',
+  'shitty',
+  'twat',
+  'wanker',
+];
+
+const BEFORE = '(?<![\\p{L}\\p{N}])';
+const AFTER = '(?![\\p{L}\\p{N}])';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Case-insensitive match of whole words; spaces match any whitespace
+function wordsPattern(phrases: string[]): RegExp {
+  const alternatives = [...new Set(phrases.map((phrase) => phrase.trim()))]
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map((phrase) => escapeRegExp(phrase).replace(/\s+/g, '\\s+'));
+  return new RegExp(`${BEFORE}(?:${alternatives.join('|')})${AFTER}`, 'giu');
+}
+
+// 'hello' -> 'h****'
+function mask(word: string): string {
+  const [first, ...rest] = [...word];
+  return first + '*'.repeat(rest.length);
+}
+
+// $1, $<name>, $& and $$ in a replace rule's replacement
+function expandReplacement(
+  replacement: string,
+  match: RegExpMatchArray,
+): string {
+  return replacement.replace(
+    /\$(\$|&|\d{1,2}|<([^>]+)>)/g,
+    (token, reference: string, name?: string) => {
+      if (reference === '$') return '$';
+      if (reference === '&') return match[0];
+      if (name !== undefined) return match.groups?.[name] ?? '';
+      return Number(reference) < match.length
+        ? (match[Number(reference)] ?? '')
+        : token;
+    },
+  );
+}
+
+// Why a rule can't be used, or null when it's valid
+export function getRuleError(
+  definition: PostProcessingRuleDefinition,
+): string | null {
+  switch (definition.type) {
+    case 'dictionary': {
+      const terms = Object.entries(definition.terms ?? {});
+      if (terms.length === 0) {
+        return 'terms: add at least one term, e.g. { "Notica": ["notika"] }';
+      }
+      if (terms.length > MAX_TERMS) {
+        return `terms: at most ${MAX_TERMS} terms`;
+      }
+      for (const [term, aliases] of terms) {
+        if (!term.trim()) return 'terms: terms cannot be empty';
+        if (
+          !Array.isArray(aliases) ||
+          aliases.some((alias) => typeof alias !== 'string' || !alias.trim())
+        ) {
+          return `terms: "${term}" must list its misheard forms as non-empty strings`;
+        }
+      }
+      return null;
+    }
+    case 'replace':
+      if (!definition.pattern) return 'pattern is required';
+      if (definition.pattern.length > MAX_PATTERN_LENGTH) {
+        return `pattern: at most ${MAX_PATTERN_LENGTH} characters`;
+      }
+      try {
+        new RegExp(definition.pattern, 'g');
+      } catch (error) {
+        return `pattern: ${(error as Error).message}`;
+      }
+      // Rules run on the main thread, so patterns that can backtrack
+      // exponentially, like (a+)+, are refused
+      if (
+        /\\[1-9]|\\k</.test(definition.pattern) ||
+        !safeRegex(definition.pattern)
+      ) {
+        return 'pattern: too slow to match safely (nested quantifiers or backreferences)';
+      }
+      if (new RegExp(definition.pattern).test('')) {
+        return 'pattern: must not match empty text';
+      }
+      return null;
+    case 'profanity':
+      return (definition.words?.length ?? 0) > MAX_WORDS
+        ? `words: at most ${MAX_WORDS} words`
+        : null;
+    default:
+      return null;
+  }
+}
+
+// Only the settings of the rule's type, with their defaults
+export function toRuleDefinition(
+  input: PostProcessingRuleDefinition,
+): PostProcessingRuleDefinition {
+  switch (input.type) {
+    case 'dictionary':
+      return { type: input.type, terms: input.terms ?? {} };
+    case 'replace':
+      return {
+        type: input.type,
+        pattern: input.pattern,
+        replacement: input.replacement ?? '',
+        caseSensitive: input.caseSensitive ?? false,
+      };
+    case 'numbers':
+      return { type: input.type, dates: input.dates ?? false };
+    case 'profanity':
+      return { type: input.type, words: input.words ?? [] };
+  }
+}
+
+// Number rules only apply to English
+export function compileRule(
+  definition: PostProcessingRuleDefinition,
+  languageCode: string,
+): TextRule[] {
+  switch (definition.type) {
+    case 'dictionary': {
+      // Lower-cased form with single spaces -> term
+      const terms = new Map<string, string>();
+      for (const [term, aliases] of Object.entries(definition.terms ?? {})) {
+        for (const phrase of [term, ...aliases]) {
+          terms.set(phrase.trim().toLowerCase().replace(/\s+/g, ' '), term);
+        }
+      }
+      return [
+        {
+          pattern: wordsPattern([...terms.keys()]),
+          replace: ([match]) =>
+            terms.get(match.toLowerCase().replace(/\s+/g, ' ')) ?? match,
+        },
+      ];
+    }
+    case 'replace': {
+      // Rules from the rules file or a job are checked again before they run
+      const error = getRuleError(definition);
+      if (error) {
+        throw new Error(`Invalid replace rule: ${error}`);
+      }
+      return [
+        {
+          pattern: new RegExp(
+            definition.pattern!,
+            definition.caseSensitive ? 'g' : 'gi',
+          ),
+          replace: (match) =>
+            expandReplacement(definition.replacement ?? '', match),
+        },
+      ];
+    }
+    case 'numbers': {
+      const language = languageCode.toLowerCase();
+      if (!language.startsWith('en') && language !== 'auto') return [];
+      return definition.dates ? [...DATE_RULES, NUMBER_RULE] : [NUMBER_RULE];
+    }
+    case 'profanity':
+      return [
+        {
+          pattern: wordsPattern([...PROFANITY, ...(definition.words ?? [])]),
+          replace: ([match]) => mask(match),
+        },
+      ];
+  }
+}
+
+// Replace every match in a text; `count` is the number of changed matches
+export function replaceInText(
+  text: string,
+  rule: TextRule,
+): { text: string; count: number } {
+  let output = '';
+  let cursor = 0;
+  let count = 0;
+
+  for (const match of text.matchAll(rule.pattern)) {
+    const replacement = rule.replace(match);
+    if (!match[0] || replacement === match[0]) continue;
+
+    output += text.slice(cursor, match.index) + replacement;
+    cursor = match.index + match[0].length;
+    count++;
+  }
+
+  return { text: output + text.slice(cursor), count };
+}
+
+// Words for the replaced text of `covered`. When the word count is
+// unchanged each word keeps its own timing, otherwise the new words split
+// the time of the old ones evenly.
+function retime(covered: TranscriptWord[], text: string): TranscriptWord[] {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  if (tokens.length === covered.length) {
+    return covered.map((word, i) => ({ ...word, text: tokens[i] }));
+  }
+
+  const start = covered[0].start;
+  const duration =
+    (covered[covered.length - 1].end - start) / Math.max(tokens.length, 1);
+  const scores = covered
+    .map((word) => word.confidence)
+    .filter((confidence): confidence is number => confidence !== null);
+
+  return tokens.map((token, i) => ({
+    text: token,
+    start: start + i * duration,
+    end: start + (i + 1) * duration,
+    confidence: scores.length > 0 ? Math.min(...scores) : null,
+    speaker: covered[0].speaker,
+  }));
+}
+
+// Apply a rule to words joined by single spaces. Every match replaces the
+// words it touches; parts of those words outside the match are kept.
+export function replaceInWords(
+  words: TranscriptWord[],
+  rule: TextRule,
+): TranscriptWord[] {
+  const offsets: number[] = [];
+  let text = '';
+  for (const word of words) {
+    if (text) text += ' ';
+    offsets.push(text.length);
+    text += word.text;
+  }
+
+  // Index of the word at a text offset (the word before, on a space)
+  const wordAt = (offset: number) => {
+    let low = 0;
+    let high = offsets.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (offsets[middle] <= offset) low = middle;
+      else high = middle - 1;
+    }
+    return low;
+  };
+  const wordEnd = (index: number) => offsets[index] + words[index].text.length;
+
+  const output: TranscriptWord[] = [];
+  let copied = 0; // Words before this index are in the output
+  let cursor = 0; // Text before this offset is replaced or copied
+  let span: { first: number; last: number; text: string } | null = null;
+
+  const flush = () => {
+    if (!span) return;
+    span.text += text.slice(cursor, wordEnd(span.last));
+    output.push(...retime(words.slice(span.first, span.last + 1), span.text));
+    copied = span.last + 1;
+    span = null;
+  };
+
+  for (const match of text.matchAll(rule.pattern)) {
+    const replacement = rule.replace(match);
+    if (!match[0] || replacement === match[0]) continue;
+
+    const start = match.index;
+    const end = start + match[0].length;
+    const first = wordAt(start);
+    const last = wordAt(end - 1);
+
+    // Matches touching the same words are replaced together
+    if (span && first <= span.last) {
+      span.text += text.slice(cursor, start) + replacement;
+      span.last = Math.max(span.last, last);
+    } else {
+      flush();
+      output.push(...words.slice(copied, first));
+      span = {
+        first,
+        last,
+        text: text.slice(offsets[first], start) + replacement,
+      };
+    }
+    cursor = end;
+  }
+  flush();
+  output.push(...words.slice(copied));
+
+  return output;
+}
+
+// The result with every rule applied in order. The provider's transcript,
+// words and segments are kept in rawTranscript, rawWords and rawSegments;
+// failed results are returned unchanged.
+export function applyPostProcessing(
+  result: TranscriptResult,
+  rules: JobPostProcessingRule[],
+  languageCode: string,
+): TranscriptResult {
+  if (result.status !== 'COMPLETED' || rules.length === 0) return result;
+
+  let transcript = result.transcript;
+  let words = result.words;
+  let segments = result.segments;
+  let replacements = 0;
+
+  for (const textRule of rules.flatMap((rule) =>
+    compileRule(rule, languageCode),
+  )) {
+    if (transcript !== null) {
+      const replaced = replaceInText(transcript, textRule);
+      transcript = replaced.text;
+      replacements += replaced.count;
+    }
+
+    words = replaceInWords(words, textRule);
+
+    segments = segments.map((segment) => {
+      const { text } = replaceInText(segment.text, textRule);
+      const wordCount =
+        segment.wordCount +
+        text.split(/\s+/).filter(Boolean).length -
+        segment.text.split(/\s+/).filter(Boolean).length;
+      return { ...segment, text, wordCount: Math.max(wordCount, 0) };
+    });
+  }
+
+  return {
+    ...result,
+    transcript,
+    words,
+    segments,
+    rawTranscript: result.transcript,
+    rawWords: result.words,
+    rawSegments: result.segments,
+    postProcessing: { rules: rules.map((rule) => rule.id), replacements },
+  };
+}
@@ -0,0 +1,263 @@
+import { TextRule } from './post-processing-rule';
+
+// English number words written as digits ('twenty one' -> '21') and
+// spoken dates written out ('march third twenty twenty four' ->
+// 'March 3, 2024'). Other languages are left alone.
+
+const UNITS: Record<string, number> = {
+  zero: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+};
+
+const TEENS: Record<string, number> = {
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+};
+
+const SCALES: Record<string, number> = {
+  hundred: 100,
+  thousand: 1_000,
+  million: 1_000_000,
+  billion: 1_000_000_000,
+};
+
+// Ordinals end a number ('twenty first' -> '21st') but are never
+// converted on their own ('the first time')
+const ORDINAL_UNITS: Record<string, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  fifth: 5,
+  sixth: 6,
+  seventh: 7,
+  eighth: 8,
+  ninth: 9,
+};
+
+const ORDINAL_TEENS: Record<string, number> = {
+  tenth: 10,
+  eleventh: 11,
+  twelfth: 12,
+  thirteenth: 13,
+  fourteenth: 14,
+  fifteenth: 15,
+  sixteenth: 16,
+  seventeenth: 17,
+  eighteenth: 18,
+  nineteenth: 19,
+};
+
+const ORDINAL_TENS: Record<string, number> = {
+  twentieth: 20,
+  thirtieth: 30,
+};
+
+const MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+const VALUES: Record<string, number> = {
+  ...UNITS,
+  ...TEENS,
+  ...TENS,
+  ...ORDINAL_UNITS,
+  ...ORDINAL_TEENS,
+  ...ORDINAL_TENS,
+};
+
+type NumberWordKind = 'unit' | 'teen' | 'tens' | 'scale';
+
+// Longest first, so 'seventeen' is not read as 'seven'
+const alternation = (words: string[]) =>
+  [...words].sort((a, b) => b.length - a.length).join('|');
+
+const BEFORE = '(?<![\\p{L}\\p{N}])';
+const AFTER = '(?![\\p{L}\\p{N}])';
+const SEPARATOR = '(?:\\s+|-)';
+
+const CARDINAL = `(?:${alternation([
+  ...Object.keys(UNITS),
+  ...Object.keys(TEENS),
+  ...Object.keys(TENS),
+  ...Object.keys(SCALES),
+])})`;
+const ORDINAL = `(?:${alternation([
+  ...Object.keys(ORDINAL_UNITS),
+  ...Object.keys(ORDINAL_TEENS),
+  ...Object.keys(ORDINAL_TENS),
+])})`;
+const CARDINALS = `${CARDINAL}(?:${SEPARATOR}(?:and\\s+)?${CARDINAL})*`;
+
+const DAY = `(?:twenty${SEPARATOR}|thirty${SEPARATOR})?${ORDINAL}|\\d{1,2}(?:st|nd|rd|th)?`;
+const YEAR = `\\d{4}|${CARDINALS}`;
+const MONTH = `(?:${MONTHS.join('|')})`;
+
+function getKind(word: string): NumberWordKind {
+  if (word in UNITS || word in ORDINAL_UNITS) return 'unit';
+  if (word in TEENS || word in ORDINAL_TEENS) return 'teen';
+  if (word in TENS || word in ORDINAL_TENS) return 'tens';
+  return 'scale';
+}
+
+// Value of a run of number words. Words that can't continue the number
+// start a new group, and the groups are read one after another:
+// 'twenty twenty four' -> '2024', 'one two three' -> '123'.
+export function parseSpokenNumber(text: string): string {
+  const groups: number[] = [];
+  let total = 0;
+  let current = 0;
+  let previous: NumberWordKind | null = null;
+
+  for (const word of text.toLowerCase().split(/[\s-]+/)) {
+    if (word === 'and') continue;
+
+    const kind = getKind(word);
+    const startsGroup =
+      (kind === 'unit' && (previous === 'unit' || previous === 'teen')) ||
+      ((kind === 'teen' || kind === 'tens') &&
+        (previous === 'unit' || previous === 'teen' || previous === 'tens'));
+    if (startsGroup) {
+      groups.push(total + current);
+      total = 0;
+      current = 0;
+    }
+
+    if (kind === 'scale' && word === 'hundred') {
+      current = (current || 1) * SCALES.hundred;
+    } else if (kind === 'scale') {
+      total += (current || 1) * SCALES[word];
+      current = 0;
+    } else {
+      current += VALUES[word];
+    }
+    previous = kind;
+  }
+  groups.push(total + current);
+
+  return groups.join('');
+}
+
+// 1 -> 'st', 12 -> 'th', 22 -> 'nd'
+function ordinalSuffix(digits: string): string {
+  const value = Number(digits.slice(-2));
+  if (value >= 11 && value <= 13) return 'th';
+  return ['th', 'st', 'nd', 'rd'][value % 10] ?? 'th';
+}
+
+function isOrdinal(text: string): boolean {
+  const last =
+    text
+      .toLowerCase()
+      .split(/[\s-]+/)
+      .pop() ?? '';
+  return last in ORDINAL_UNITS || last in ORDINAL_TEENS || last in ORDINAL_TENS;
+}
+
+// 'three hundred and five' -> '305', 'twenty first' -> '21st'. Single
+// words below ten stay words ('one of them').
+export const NUMBER_RULE: TextRule = {
+  pattern: new RegExp(
+    `${BEFORE}${CARDINALS}(?:${SEPARATOR}${ORDINAL})?${AFTER}`,
+    'giu',
+  ),
+  replace: ([text]) => {
+    if (!/[\s-]/.test(text) && text.toLowerCase() in UNITS) return text;
+
+    const digits = parseSpokenNumber(text);
+    return isOrdinal(text) ? `${digits}${ordinalSuffix(digits)}` : digits;
+  },
+};
+
+function toMonth(text: string): string {
+  return MONTHS.find((month) => month.toLowerCase() === text.toLowerCase())!;
+}
+
+// Day of the month from '3', '3rd' or 'third'; null when out of range
+function toDay(text: string): number | null {
+  const day = /^\d/.test(text)
+    ? parseInt(text, 10)
+    : Number(parseSpokenNumber(text));
+  return day >= 1 && day <= 31 ? day : null;
+}
+
+// 'March 3' or 'March 3, 2024'. A spoken year that isn't a year is kept
+// as it was said.
+function formatDate(
+  match: string,
+  month: string,
+  dayText: string,
+  yearText?: string,
+  yearWords?: string,
+): string {
+  const day = toDay(dayText);
+  if (day === null) return match;
+
+  const date = `${toMonth(month)} ${day}`;
+  if (!yearText || !yearWords) return date;
+
+  const year = /^\d+$/.test(yearWords)
+    ? yearWords
+    : parseSpokenNumber(yearWords);
+  return Number(year) >= 1000 && Number(year) <= 2999
+    ? `${date}, ${year}`
+    : `${date}${yearText}`;
+}
+
+// 'March third', 'march 3rd, 2024', 'the third of March twenty twenty four'
+export const DATE_RULES: TextRule[] = [
+  {
+    pattern: new RegExp(
+      `${BEFORE}(${MONTH})\\s+(${DAY})((?:,?\\s+)(${YEAR}))?${AFTER}`,
+      'giu',
+    ),
+    replace: ([match, month, day, yearText, year]) =>
+      formatDate(match, month, day, yearText, year),
+  },
+  {
+    pattern: new RegExp(
+      `${BEFORE}(?:the\\s+)?(${DAY})\\s+of\\s+(${MONTH})((?:,?\\s+)(${YEAR}))?${AFTER}`,
+      'giu',
+    ),
+    replace: ([match, day, month, yearText, year]) =>
+      formatDate(match, month, day, yearText, year),
+  },
+];
@@ -0,0 +1,153 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TranscriptionProvider } from '../providers/transcription-provider.interface';
+import {
+  buildProbeArgs,
+  buildTranscodeArgs,
+  MediaInfo,
+  parseProbeOutput,
+  runProcess,
+  TranscodeOptions,
+} from './ffmpeg';
+
+export interface PreprocessingInfo {
+  // skipped: disabled in config, passthrough: original file used as-is,
+  // transcoded: providers got `filePath`, failed: original file used
+  status: 'skipped' | 'passthrough' | 'transcoded' | 'failed';
+  format?: TranscodeOptions['format'];
+  downmixed: boolean;
+  normalized: boolean;
+  output?: MediaInfo; // Probe of the transcoded file
+  filePath?: string; // Transcoded file handed to the providers
+  processingTime: number; // Seconds
+  error?: string;
+}
+
+export interface PreparedInput {
+  filePath: string;
+  fileName: string; // Extension matches the file providers receive
+  media: MediaInfo | null; // Probe of the uploaded file
+  preprocessing: PreprocessingInfo;
+}
+
+@Injectable()
+export class AudioPreprocessorService {
+  constructor(private configService: ConfigService) {}
+
+  async probe(filePath: string, signal?: AbortSignal): Promise<MediaInfo> {
+    const output = await runProcess(
+      this.configService.get<string>('preprocessing.ffprobePath') || 'ffprobe',
+      buildProbeArgs(filePath),
+      signal,
+    );
+    return parseProbeOutput(output);
+  }
+
+  // Probe the upload and, when any provider cannot take it as-is (or
+  // downmix/loudness/resampling is configured), transcode it once so every
+  // provider of the job gets the same input. Failures fall back to the
+  // original file; only an aborted signal is rethrown.
+  async prepare(
+    filePath: string,
+    fileName: string,
+    providers: TranscriptionProvider[],
+    signal?: AbortSignal,
+  ): Promise<PreparedInput> {
+    const startTime = Date.now();
+    const downmix =
+      this.configService.get<boolean>('preprocessing.downmix') ?? false;
+    const normalizeLoudness =
+      this.configService.get<boolean>('preprocessing.normalizeLoudness') ??
+      false;
+    const info: PreprocessingInfo = {
+      status: 'skipped',
+      downmixed: false,
+      normalized: false,
+      processingTime: 0,
+    };
+    const original = { filePath, fileName, preprocessing: info };
+
+    if (!this.configService.get<boolean>('preprocessing.enabled')) {
+      return { ...original, media: null };
+    }
+
+    let media: MediaInfo | null = null;
+    let outputPath: string | undefined;
+    try {
+      media = await this.probe(filePath, signal);
+
+      const extension = path.extname(fileName).toLowerCase().replace('.', '');
+      const sampleRate =
+        this.configService.get<number>('preprocessing.sampleRate') || 0;
+      const unsupported = providers.filter(
+        (provider) => !provider.supportedFormats.includes(extension),
+      );
+
+      if (
+        unsupported.length === 0 &&
+        !downmix &&
+        !normalizeLoudness &&
+        !sampleRate
+      ) {
+        info.status = 'passthrough';
+        return { ...original, media };
+      }
+
+      const format =
+        this.configService.get<TranscodeOptions['format']>(
+          'preprocessing.format',
+        ) || 'flac';
+      outputPath = `${filePath}.preprocessed.${format}`;
+      await runProcess(
+        this.configService.get<string>('preprocessing.ffmpegPath') || 'ffmpeg',
+        buildTranscodeArgs(filePath, outputPath, {
+          format,
+          // loudnorm resamples to 192 kHz unless a rate is given
+          sampleRate:
+            sampleRate ||
+            (normalizeLoudness ? (media.sampleRate ?? undefined) : undefined),
+          downmix,
+          normalizeLoudness,
+        }),
+        signal,
+      );
+
+      info.status = 'transcoded';
+      info.format = format;
+      info.downmixed = downmix && (media.channels ?? 1) > 1;
+      info.normalized = normalizeLoudness;
+      info.filePath = outputPath;
+      info.output = await this.probe(outputPath, signal).catch(() => undefined);
+
+      console.log(
+        `[Preprocessing] Transcoded ${fileName} (${media.codec}) to ${format}` +
+          (unsupported.length
+            ? ` for ${unsupported.map((provider) => provider.id).join(', ')}`
+            : ''),
+      );
+
+      return {
+        filePath: outputPath,
+        fileName: `${path.parse(fileName).name}.${format}`,
+        media,
+        preprocessing: info,
+      };
+    } catch (error) {
+      // Drop partial output of a failed or aborted transcode
+      if (outputPath && fs.existsSync(outputPath)) {
+        fs.unlinkSync(outputPath);
+      }
+      if (signal?.aborted) throw error;
+
+      const message = (error as Error).message;
+      console.warn(`[Preprocessing] Using original ${fileName}:`, message);
+      info.status = 'failed';
+      info.error = message;
+      return { ...original, media };
+    } finally {
+      info.processingTime = (Date.now() - startTime) / 1000;
+    }
+  }
+}
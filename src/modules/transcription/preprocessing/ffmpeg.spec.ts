@@ -0,0 +1,91 @@
+import { buildTranscodeArgs, parseProbeOutput } from './ffmpeg';
+
+describe('ffmpeg helpers', () => {
+  describe('parseProbeOutput', () => {
+    it('should read the first audio stream and ignore cover art', () => {
+      const media = parseProbeOutput(
+        JSON.stringify({
+          streams: [
+            {
+              codec_type: 'video',
+              codec_name: 'mjpeg',
+              disposition: { attached_pic: 1 },
+            },
+            {
+              codec_type: 'audio',
+              codec_name: 'wmav2',
+              sample_rate: '44100',
+              channels: 2,
+            },
+          ],
+          format: {
+            format_name: 'asf',
+            duration: '12.500000',
+            bit_rate: '128000',
+          },
+        }),
+      );
+
+      expect(media).toEqual({
+        container: 'asf',
+        codec: 'wmav2',
+        sampleRate: 44100,
+        channels: 2,
+        duration: 12.5,
+        bitRate: 128000,
+        hasVideo: false,
+      });
+    });
+
+    it('should reject files without audio', () => {
+      expect(() =>
+        parseProbeOutput(
+          JSON.stringify({ streams: [{ codec_type: 'video' }], format: {} }),
+        ),
+      ).toThrow('No audio stream found');
+    });
+  });
+
+  describe('buildTranscodeArgs', () => {
+    it('should add downmix, resampling and loudness filters when asked', () => {
+      expect(
+        buildTranscodeArgs('in.wma', 'out.wav', {
+          format: 'wav',
+          sampleRate: 16000,
+          downmix: true,
+          normalizeLoudness: true,
+        }),
+      ).toEqual([
+        '-y',
+        '-v',
+        'error',
+        '-i',
+        'in.wma',
+        '-vn',
+        '-sn',
+        '-dn',
+        '-ac',
+        '1',
+        '-ar',
+        '16000',
+        '-af',
+        'loudnorm=I=-16:TP=-1.5:LRA=11',
+        '-c:a',
+        'pcm_s16le',
+        'out.wav',
+      ]);
+    });
+
+    it('should only strip video when no options are set', () => {
+      const args = buildTranscodeArgs('in.mov', 'out.flac', {
+        format: 'flac',
+        downmix: false,
+        normalizeLoudness: false,
+      });
+
+      expect(args).not.toContain('-ac');
+      expect(args).not.toContain('-af');
+      expect(args.slice(-3)).toEqual(['-c:a', 'flac', 'out.flac']);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { spawn } from 'child_process';
+
+// Audio properties reported by ffprobe
+export interface MediaInfo {
+  container: string | null; // ffprobe format_name, e.g. 'mov,mp4,m4a,3gp'
+  codec: string | null; // Codec of the first audio stream
+  sampleRate: number | null; // Hz
+  channels: number | null;
+  duration: number | null; // Seconds
+  bitRate: number | null; // Bits per second
+  hasVideo: boolean;
+}
+
+export interface TranscodeOptions {
+  format: 'flac' | 'wav';
+  sampleRate?: number; // Resample when set, keep the source rate otherwise
+  downmix: boolean; // Mix down to mono
+  normalizeLoudness: boolean; // EBU R128 loudness normalization
+}
+
+// Codec used for each output container
+const OUTPUT_CODECS: Record<TranscodeOptions['format'], string> = {
+  flac: 'flac',
+  wav: 'pcm_s16le',
+};
+
+// Run a binary and collect stdout; rejects with the tail of stderr on a
+// non-zero exit. The process is killed when the signal aborts.
+export function runProcess(
+  command: string,
+  args: string[],
+  signal?: AbortSignal,
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { signal });
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', (chunk) => (stdout += chunk));
+    child.stderr.on('data', (chunk) => (stderr += chunk));
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        const detail = stderr.trim().split('\n').slice(-3).join(' ');
+        reject(new Error(`${command} exited with code ${code}: ${detail}`));
+      }
+    });
+  });
+}
+
+export function buildProbeArgs(filePath: string): string[] {
+  return [
+    '-v',
+    'error',
+    '-print_format',
+    'json',
+    '-show_format',
+    '-show_streams',
+    filePath,
+  ];
+}
+
+// The parts of the ffprobe output that are read. Numbers are reported as
+// strings, except the channel count.
+interface ProbeStream {
+  codec_type?: string;
+  codec_name?: string;
+  sample_rate?: string;
+  channels?: number;
+  duration?: string;
+  bit_rate?: string;
+  disposition?: { attached_pic?: number };
+}
+
+interface ProbeOutput {
+  streams?: ProbeStream[];
+  format?: { format_name?: string; duration?: string; bit_rate?: string };
+}
+
+// Map `ffprobe -print_format json -show_format -show_streams` output
+export function parseProbeOutput(output: string): MediaInfo {
+  const data = JSON.parse(output) as ProbeOutput;
+  const streams = data.streams || [];
+  const format = data.format || {};
+  const audio = streams.find((stream) => stream.codec_type === 'audio');
+
+  if (!audio) {
+    throw new Error('No audio stream found');
+  }
+
+  const toNumber = (value: unknown): number | null => {
+    const parsed = parseFloat(String(value));
+    return Number.isFinite(parsed) ? parsed : null;
+  };
+
+  return {
+    container: format.format_name || null,
+    codec: audio.codec_name || null,
+    sampleRate: toNumber(audio.sample_rate),
+    channels: toNumber(audio.channels),
+    // Containers without a duration header report it per stream only
+    duration: toNumber(format.duration) ?? toNumber(audio.duration),
+    bitRate: toNumber(format.bit_rate) ?? toNumber(audio.bit_rate),
+    hasVideo: streams.some(
+      (stream) =>
+        stream.codec_type === 'video' &&
+        // Cover art is stored as a single-frame video stream
+        !stream.disposition?.attached_pic,
+    ),
+  };
+}
+
+export function buildTranscodeArgs(
+  inputPath: string,
+  outputPath: string,
+  options: TranscodeOptions,
+): string[] {
+  const args = ['-y', '-v', 'error', '-i', inputPath, '-vn', '-sn', '-dn'];
+
+  if (options.downmix) args.push('-ac', '1');
+  if (options.sampleRate) args.push('-ar', String(options.sampleRate));
+  if (options.normalizeLoudness) {
+    args.push('-af', 'loudnorm=I=-16:TP=-1.5:LRA=11');
+  }
+
+  args.push('-c:a', OUTPUT_CODECS[options.format], outputPath);
+  return args;
+}
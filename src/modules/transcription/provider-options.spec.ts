@@ -0,0 +1,100 @@
+import { BadRequestException } from '@nestjs/common';
+import { DeepgramOptionsDto } from './dto/deepgram-options.dto';
+import { ProviderRegistryService } from './providers/provider-registry.service';
+import { TranscriptionProvider } from './providers/transcription-provider.interface';
+import {
+  parseOptionsDto,
+  ProviderOptionsError,
+} from './providers/provider-upload-settings';
+import { parseProviderSettings } from './provider-options';
+
+describe('parseOptionsDto', () => {
+  it('should keep the given parameters of the DTO only', async () => {
+    expect(
+      await parseOptionsDto(DeepgramOptionsDto, {
+        keyterms: 'Notica,WER',
+        numerals: 'true',
+        vocabularyName: 'aws-only',
+        language: 'en-US',
+      }),
+    ).toEqual({ keyterms: ['Notica', 'WER'], numerals: true });
+  });
+
+  it('should reject invalid parameters', async () => {
+    await expect(
+      parseOptionsDto(DeepgramOptionsDto, { uttSplit: '10' }),
+    ).rejects.toThrow(ProviderOptionsError);
+  });
+});
+
+describe('parseProviderSettings', () => {
+  let registry: ProviderRegistryService;
+
+  const provider = (
+    id: string,
+    parseUploadSettings?: TranscriptionProvider['parseUploadSettings'],
+  ) =>
+    ({
+      id,
+      displayName: id,
+      supportedFormats: ['wav'],
+      capabilities: {
+        languageDetection: true,
+        diarization: true,
+        modelSelection: false,
+      },
+      languageSupport: { languages: ['en-US'] },
+      transcribeFile: jest.fn(),
+      getBillingModel: () => 'standard',
+      parseUploadSettings,
+    }) as TranscriptionProvider;
+
+  beforeEach(() => {
+    registry = new ProviderRegistryService();
+    registry.register(
+      provider('deepgram', (query) =>
+        Promise.resolve({
+          options: query.numerals ? { numerals: true } : {},
+          model:
+            typeof query.deepgramModel === 'string'
+              ? query.deepgramModel
+              : 'nova-3',
+        }),
+      ),
+    );
+    registry.register(
+      provider('strict', (query, languageCode) =>
+        query.redact && languageCode === 'auto'
+          ? Promise.reject(new ProviderOptionsError('redact needs a language'))
+          : Promise.resolve({ options: {} }),
+      ),
+    );
+    registry.register(provider('local'));
+  });
+
+  it('should key options and models by the providers that run', async () => {
+    expect(
+      await parseProviderSettings(
+        registry,
+        ['deepgram', 'strict', 'local'],
+        { numerals: 'true', deepgramModel: 'nova-2' },
+        'en-US',
+      ),
+    ).toEqual({
+      providerOptions: { deepgram: { numerals: true } },
+      models: { deepgram: 'nova-2' },
+    });
+    expect(
+      await parseProviderSettings(registry, ['local'], {}, 'en-US'),
+    ).toEqual({ providerOptions: undefined, models: undefined });
+  });
+
+  it('should reject options a provider refuses', async () => {
+    await expect(
+      parseProviderSettings(registry, ['strict'], { redact: 'pci' }, 'auto'),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      parseProviderSettings(registry, ['deepgram'], { redact: 'pci' }, 'auto'),
+    ).resolves.toMatchObject({ models: { deepgram: 'nova-3' } });
+  });
+});
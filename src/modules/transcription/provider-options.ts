@@ -0,0 +1,52 @@
+import { BadRequestException } from '@nestjs/common';
+import { ProviderRegistryService } from './providers/provider-registry.service';
+import { ProviderUploadSettings } from './providers/transcription-provider.interface';
+import { ProviderOptionsError } from './providers/provider-upload-settings';
+
+// Options and models saved on the job, keyed by provider id
+export interface ProviderSettings {
+  providerOptions?: Record<string, Record<string, unknown>>;
+  models?: Record<string, string>;
+}
+
+// Each provider that runs reads its own query parameters. Shared by the
+// upload routes; the stored upload is removed by
+// RemoveUploadOnErrorInterceptor when the options are rejected.
+export async function parseProviderSettings(
+  providerRegistry: ProviderRegistryService,
+  providerIds: string[],
+  query: Record<string, unknown>,
+  languageCode: string,
+): Promise<ProviderSettings> {
+  const providerOptions: Record<string, Record<string, unknown>> = {};
+  const models: Record<string, string> = {};
+
+  for (const providerId of providerIds) {
+    const provider = providerRegistry.get(providerId);
+    if (!provider?.parseUploadSettings) continue;
+
+    let settings: ProviderUploadSettings;
+    try {
+      settings = await provider.parseUploadSettings(query, languageCode);
+    } catch (error) {
+      if (error instanceof ProviderOptionsError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+
+    if (settings.options && Object.keys(settings.options).length) {
+      providerOptions[providerId] = settings.options;
+    }
+    if (settings.model) {
+      models[providerId] = settings.model;
+    }
+  }
+
+  return {
+    providerOptions: Object.keys(providerOptions).length
+      ? providerOptions
+      : undefined,
+    models: Object.keys(models).length ? models : undefined,
+  };
+}
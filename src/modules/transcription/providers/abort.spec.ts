@@ -0,0 +1,25 @@
+import { combineSignals } from './abort';
+
+describe('combineSignals', () => {
+  it('should abort with the first reason', () => {
+    const job = new AbortController();
+    const timeout = new AbortController();
+    const combined = combineSignals(job.signal, timeout.signal);
+
+    timeout.abort(new Error('timed out'));
+    job.abort(new Error('cancelled'));
+
+    expect(combined.signal.aborted).toBe(true);
+    expect(combined.signal.reason).toEqual(new Error('timed out'));
+  });
+
+  it('should stop following the signals once cleared', () => {
+    const job = new AbortController();
+    const combined = combineSignals(job.signal);
+
+    combined.clear();
+    job.abort();
+
+    expect(combined.signal.aborted).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+// Helpers for cancelling provider calls. AbortSignal.any is not available on
+// Node 18 (our Docker base image), so signals are combined by hand.
+
+export class ProviderAbortedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderAbortedError';
+  }
+}
+
+// Abort when any of the given signals aborts, keeping the first reason.
+// Call clear once the work settles: the listeners would otherwise stay on
+// long-lived signals (the job's) for as long as they live.
+export function combineSignals(...signals: (AbortSignal | undefined)[]): {
+  signal: AbortSignal;
+  clear: () => void;
+} {
+  const controller = new AbortController();
+  const listeners: [AbortSignal, () => void][] = [];
+
+  for (const signal of signals) {
+    if (!signal) continue;
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    const onAbort = () => controller.abort(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    listeners.push([signal, onAbort]);
+  }
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      for (const [signal, onAbort] of listeners) {
+        signal.removeEventListener('abort', onAbort);
+      }
+    },
+  };
+}
+
+// Signal that aborts after `ms` with a readable reason
+export function timeoutSignal(
+  ms: number,
+  message: string,
+): { signal: AbortSignal; clear: () => void } {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(new ProviderAbortedError(message)),
+    ms,
+  );
+  return { signal: controller.signal, clear: () => clearTimeout(timer) };
+}
+
+export function abortMessage(signal: AbortSignal): string {
+  const reason: unknown = signal.reason;
+  return reason instanceof Error ? reason.message : 'Aborted';
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ProviderAbortedError(abortMessage(signal));
+  }
+}
+
+// Reject as soon as the signal aborts. The underlying work is not stopped,
+// its result is just ignored - used for SDK calls that take no signal.
+export function raceWithSignal<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (!signal) return promise;
+  throwIfAborted(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () =>
+      reject(new ProviderAbortedError(abortMessage(signal)));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      },
+    );
+  });
+}
+
+// Abortable sleep used by polling loops
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return raceWithSignal(
+    new Promise<void>((resolve) => setTimeout(resolve, ms)),
+    signal,
+  );
+}
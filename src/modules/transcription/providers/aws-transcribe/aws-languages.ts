@@ -0,0 +1,33 @@
+import { LanguageCode } from '@aws-sdk/client-transcribe';
+import { ProviderLanguageSupport } from '../transcription-provider.interface';
+import { resolveLanguage } from '../../language/language-codes';
+
+// AWS Transcribe only takes language-REGION codes. The regions listed
+// first are used for bare languages ('en' -> en-US, 'es' -> es-US); the
+// rest come from the SDK's LanguageCode list.
+const PREFERRED_REGIONS = [
+  'en-US',
+  'es-US',
+  'fr-FR',
+  'de-DE',
+  'pt-BR',
+  'zh-CN',
+  'ar-SA',
+  'fa-IR',
+  'sw-KE',
+];
+
+export const AWS_LANGUAGE_SUPPORT: ProviderLanguageSupport = {
+  languages: [
+    ...new Set([...PREFERRED_REGIONS, ...Object.values(LanguageCode)]),
+  ],
+};
+
+// AWS code for a canonical language; unsupported languages are passed
+// through for AWS to reject
+export function toAwsLanguage(languageCode: string): string {
+  return (
+    resolveLanguage(AWS_LANGUAGE_SUPPORT.languages, languageCode) ??
+    languageCode
+  );
+}
@@ -0,0 +1,47 @@
+import { TranscriptWord } from '../transcript-result.interface';
+import { buildSpeakerSegments } from './aws-speaker-segments';
+
+describe('buildSpeakerSegments', () => {
+  const word = (
+    text: string,
+    start: number,
+    speaker: number | null,
+  ): TranscriptWord => ({
+    text,
+    start,
+    end: start + 0.3,
+    confidence: 0.9,
+    speaker,
+  });
+
+  const segments = [
+    { speaker: 0, start: 0, end: 1.5 },
+    { speaker: 1, start: 1.5, end: 3 },
+  ];
+
+  it('should put a word on a segment boundary into one segment only', () => {
+    const result = buildSpeakerSegments(segments, [
+      word('Hello', 0.2, 0),
+      word('there', 1.5, 1),
+      word('friend', 2, 1),
+    ]);
+
+    expect(result.map((segment) => segment.text)).toEqual([
+      'Hello',
+      'there friend',
+    ]);
+    expect(result.map((segment) => segment.wordCount)).toEqual([1, 2]);
+  });
+
+  it('should prefer the segment of the word speaker on a boundary', () => {
+    const result = buildSpeakerSegments(segments, [word('again', 1.5, 0)]);
+
+    expect(result.map((segment) => segment.wordCount)).toEqual([1, 0]);
+  });
+
+  it('should use the later segment for unlabelled boundary words', () => {
+    const result = buildSpeakerSegments(segments, [word('so', 1.5, null)]);
+
+    expect(result.map((segment) => segment.text)).toEqual(['', 'so']);
+  });
+});
@@ -0,0 +1,46 @@
+import {
+  TranscriptSegment,
+  TranscriptWord,
+} from '../transcript-result.interface';
+
+export interface AwsSpeakerSegment {
+  speaker: number | null;
+  start: number;
+  end: number;
+}
+
+// Attach every word to exactly one speaker segment. AWS segment windows
+// touch (one ends where the next starts), so a word starting on the
+// boundary matches both; it goes to the segment with the word's own speaker
+// label, otherwise to the later segment. Words outside every segment are
+// left out, as AWS does.
+export function buildSpeakerSegments(
+  speakerSegments: AwsSpeakerSegment[],
+  words: TranscriptWord[],
+): TranscriptSegment[] {
+  const segmentWords: TranscriptWord[][] = speakerSegments.map(() => []);
+
+  for (const word of words) {
+    const candidates = speakerSegments
+      .map((segment, index) => ({ segment, index }))
+      .filter(
+        ({ segment }) =>
+          word.start >= segment.start && word.start <= segment.end,
+      );
+    if (candidates.length === 0) continue;
+
+    const sameSpeaker = candidates.filter(
+      ({ segment }) => segment.speaker === word.speaker,
+    );
+    const chosen = (sameSpeaker.length > 0 ? sameSpeaker : candidates).at(-1)!;
+    segmentWords[chosen.index].push(word);
+  }
+
+  return speakerSegments.map((segment, index) => ({
+    speaker: segment.speaker,
+    text: segmentWords[index].map((word) => word.text).join(' '),
+    start: segment.start,
+    end: segment.end,
+    wordCount: segmentWords[index].length,
+  }));
+}
@@ -0,0 +1,126 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import WebSocket from 'ws';
+import { ProviderRegistryService } from '../provider-registry.service';
+import {
+  LiveProviderStream,
+  LiveStreamHandlers,
+  LiveStreamOptions,
+  LiveTranscriptionProvider,
+} from '../live-stream.interface';
+import {
+  createStreamingUrl,
+  decodeStreamingMessage,
+  encodeAudioEvent,
+} from './aws-streaming';
+import { toAwsLanguage } from './aws-languages';
+
+@Injectable()
+export class AwsStreamingService
+  implements LiveTranscriptionProvider, OnModuleInit
+{
+  readonly id = 'aws';
+  readonly displayName = 'AWS Transcribe';
+
+  private region: string;
+  private credentials: { accessKeyId: string; secretAccessKey: string };
+
+  constructor(
+    private configService: ConfigService,
+    private providerRegistry: ProviderRegistryService,
+  ) {
+    this.region = this.configService.get<string>('aws.region') || 'us-east-1';
+    this.credentials = {
+      accessKeyId: this.configService.get<string>('aws.accessKeyId') || '',
+      secretAccessKey:
+        this.configService.get<string>('aws.secretAccessKey') || '',
+    };
+  }
+
+  onModuleInit() {
+    this.providerRegistry.registerLive(this);
+  }
+
+  async openStream(
+    options: LiveStreamOptions,
+    handlers: LiveStreamHandlers,
+  ): Promise<LiveProviderStream> {
+    if (!this.credentials.accessKeyId || !this.credentials.secretAccessKey) {
+      throw new Error('AWS credentials are not configured');
+    }
+
+    const url = await createStreamingUrl({
+      region: this.region,
+      credentials: this.credentials,
+      languageCode: toAwsLanguage(options.languageCode),
+      encoding: options.encoding,
+      sampleRate: options.sampleRate,
+      channels: options.channels,
+    });
+    const socket = new WebSocket(url);
+
+    return new Promise((resolve, reject) => {
+      let opened = false;
+
+      socket.on('open', () => {
+        opened = true;
+        console.log(
+          `[AWS Transcribe] Live stream opened (${options.languageCode}, ${options.encoding} ${options.sampleRate} Hz)`,
+        );
+        resolve({
+          send: (chunk) => {
+            // An empty AudioEvent would end the stream early
+            if (chunk.length === 0 || socket.readyState !== WebSocket.OPEN) {
+              return;
+            }
+            socket.send(encodeAudioEvent(chunk));
+          },
+          finish: () => {
+            if (socket.readyState === WebSocket.OPEN) {
+              socket.send(encodeAudioEvent(new Uint8Array(0)));
+            }
+          },
+          close: () => socket.terminate(),
+        });
+      });
+
+      socket.on('message', (data: Buffer) => {
+        try {
+          const message = decodeStreamingMessage(data);
+          if (message.type === 'transcript') {
+            message.results.forEach((event) => handlers.onTranscript(event));
+          } else if (message.type === 'exception') {
+            handlers.onError(new Error(message.message));
+          }
+        } catch (error) {
+          handlers.onError(
+            new Error(
+              `Unreadable streaming message: ${(error as Error).message}`,
+            ),
+          );
+        }
+      });
+
+      // The handshake fails with a plain HTTP response (bad language, auth)
+      socket.on('unexpected-response', (_request, response) => {
+        const error = new Error(
+          `AWS Transcribe Streaming rejected the connection (HTTP ${response.statusCode})`,
+        );
+        socket.terminate();
+        if (!opened) reject(error);
+      });
+
+      socket.on('error', (error) => {
+        if (!opened) {
+          reject(error);
+          return;
+        }
+        handlers.onError(error);
+      });
+
+      socket.on('close', () => {
+        if (opened) handlers.onClose();
+      });
+    });
+  }
+}
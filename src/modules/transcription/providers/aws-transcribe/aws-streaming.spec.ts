@@ -0,0 +1,159 @@
+import { EventStreamCodec } from '@smithy/eventstream-codec';
+import { fromUtf8, toUtf8 } from '@smithy/util-utf8';
+import {
+  createStreamingUrl,
+  decodeStreamingMessage,
+  encodeAudioEvent,
+} from './aws-streaming';
+
+const codec = new EventStreamCodec(toUtf8, fromUtf8);
+
+function encodeEvent(eventType: string, body: unknown): Uint8Array {
+  return codec.encode({
+    headers: {
+      ':message-type': { type: 'string', value: 'event' },
+      ':event-type': { type: 'string', value: eventType },
+    },
+    body: fromUtf8(JSON.stringify(body)),
+  });
+}
+
+describe('AWS Transcribe streaming', () => {
+  describe('createStreamingUrl', () => {
+    it('should presign the websocket endpoint', async () => {
+      const url = new URL(
+        await createStreamingUrl(
+          {
+            region: 'eu-west-1',
+            credentials: { accessKeyId: 'AKID', secretAccessKey: 'secret' },
+            languageCode: 'en-US',
+            encoding: 'pcm',
+            sampleRate: 16000,
+            channels: 2,
+          },
+          new Date('2026-01-01T00:00:00Z'),
+        ),
+      );
+
+      expect(url.protocol).toBe('wss:');
+      expect(url.host).toBe('transcribestreaming.eu-west-1.amazonaws.com:8443');
+      expect(url.pathname).toBe('/stream-transcription-websocket');
+      expect(url.searchParams.get('language-code')).toBe('en-US');
+      expect(url.searchParams.get('media-encoding')).toBe('pcm');
+      expect(url.searchParams.get('sample-rate')).toBe('16000');
+      expect(url.searchParams.get('number-of-channels')).toBe('2');
+      expect(url.searchParams.get('enable-channel-identification')).toBe(
+        'true',
+      );
+      expect(url.searchParams.get('X-Amz-Credential')).toBe(
+        'AKID/20260101/eu-west-1/transcribe/aws4_request',
+      );
+      expect(url.searchParams.get('X-Amz-Expires')).toBe('300');
+      expect(url.searchParams.get('X-Amz-Signature')).toMatch(/^[0-9a-f]{64}$/);
+    });
+  });
+
+  describe('encodeAudioEvent', () => {
+    it('should wrap audio in an AudioEvent frame', () => {
+      const audio = new Uint8Array([1, 2, 3, 4]);
+      const message = codec.decode(encodeAudioEvent(audio));
+
+      expect(message.headers[':message-type'].value).toBe('event');
+      expect(message.headers[':event-type'].value).toBe('AudioEvent');
+      expect(Array.from(message.body)).toEqual([1, 2, 3, 4]);
+    });
+  });
+
+  describe('decodeStreamingMessage', () => {
+    it('should map partial and final results', () => {
+      const message = decodeStreamingMessage(
+        encodeEvent('TranscriptEvent', {
+          Transcript: {
+            Results: [
+              {
+                ResultId: 'r1',
+                StartTime: 0.5,
+                EndTime: 1.4,
+                IsPartial: false,
+                ChannelId: 'ch_1',
+                Alternatives: [
+                  {
+                    Transcript: 'Hello world.',
+                    Items: [
+                      {
+                        Type: 'pronunciation',
+                        Content: 'Hello',
+                        StartTime: 0.5,
+                        EndTime: 0.9,
+                        Confidence: 0.9,
+                      },
+                      {
+                        Type: 'pronunciation',
+                        Content: 'world',
+                        StartTime: 0.9,
+                        EndTime: 1.4,
+                        Confidence: 0.7,
+                      },
+                      { Type: 'punctuation', Content: '.' },
+                    ],
+                  },
+                ],
+              },
+              {
+                ResultId: 'r2',
+                StartTime: 1.5,
+                EndTime: 1.6,
+                IsPartial: true,
+                Alternatives: [{ Transcript: '' }],
+              },
+            ],
+          },
+        }),
+      );
+
+      expect(message).toEqual({
+        type: 'transcript',
+        results: [
+          {
+            isFinal: true,
+            transcript: 'Hello world.',
+            start: 0.5,
+            end: 1.4,
+            confidence: 0.8,
+            words: [
+              {
+                text: 'Hello',
+                start: 0.5,
+                end: 0.9,
+                confidence: 0.9,
+                speaker: 1,
+              },
+              {
+                text: 'world.',
+                start: 0.9,
+                end: 1.4,
+                confidence: 0.7,
+                speaker: 1,
+              },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should surface exceptions', () => {
+      const frame = codec.encode({
+        headers: {
+          ':message-type': { type: 'string', value: 'exception' },
+          ':exception-type': { type: 'string', value: 'BadRequestException' },
+        },
+        body: fromUtf8(JSON.stringify({ Message: 'Invalid sample rate' })),
+      });
+
+      expect(decodeStreamingMessage(frame)).toEqual({
+        type: 'exception',
+        message: 'BadRequestException: Invalid sample rate',
+      });
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import { SignatureV4 } from '@aws-sdk/signature-v4';
+import { HttpRequest } from '@aws-sdk/protocol-http';
+import { formatUrl } from '@aws-sdk/util-format-url';
+import { Sha256 } from '@aws-crypto/sha256-js';
+import { EventStreamCodec } from '@smithy/eventstream-codec';
+import { fromUtf8, toUtf8 } from '@smithy/util-utf8';
+import {
+  LiveAudioEncoding,
+  LiveTranscriptEvent,
+} from '../live-stream.interface';
+import {
+  averageWordConfidence,
+  TranscriptWord,
+} from '../transcript-result.interface';
+
+// Helpers for AWS Transcribe Streaming over WebSocket: a SigV4 presigned
+// URL opens the socket, then audio and results travel as event-stream
+// frames (https://docs.aws.amazon.com/transcribe/latest/dg/websocket.html)
+
+const STREAMING_PORT = 8443;
+const STREAMING_PATH = '/stream-transcription-websocket';
+
+export interface AwsStreamingUrlParams {
+  region: string;
+  credentials: {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+  };
+  languageCode: string;
+  encoding: LiveAudioEncoding;
+  sampleRate: number;
+  channels: number;
+  expiresIn?: number; // Seconds the URL stays valid (max 300)
+}
+
+export async function createStreamingUrl(
+  params: AwsStreamingUrlParams,
+  signingDate?: Date,
+): Promise<string> {
+  const hostname = `transcribestreaming.${params.region}.amazonaws.com`;
+
+  const query: Record<string, string> = {
+    'language-code': params.languageCode,
+    'media-encoding': params.encoding,
+    'sample-rate': String(params.sampleRate),
+  };
+  if (params.channels > 1) {
+    query['number-of-channels'] = String(params.channels);
+    query['enable-channel-identification'] = 'true';
+  }
+
+  const signer = new SignatureV4({
+    credentials: params.credentials,
+    region: params.region,
+    service: 'transcribe',
+    sha256: Sha256,
+  });
+
+  const request = new HttpRequest({
+    method: 'GET',
+    protocol: 'wss:',
+    hostname,
+    port: STREAMING_PORT,
+    path: STREAMING_PATH,
+    query,
+    headers: { host: `${hostname}:${STREAMING_PORT}` },
+  });
+
+  const signed = await signer.presign(request, {
+    expiresIn: params.expiresIn ?? 300,
+    signingDate,
+  });
+  return formatUrl(signed);
+}
+
+const codec = new EventStreamCodec(toUtf8, fromUtf8);
+
+// Wrap an audio chunk in an AudioEvent frame; an empty chunk ends the stream
+export function encodeAudioEvent(chunk: Uint8Array): Uint8Array {
+  return codec.encode({
+    headers: {
+      ':message-type': { type: 'string', value: 'event' },
+      ':event-type': { type: 'string', value: 'AudioEvent' },
+      ':content-type': { type: 'string', value: 'application/octet-stream' },
+    },
+    body: chunk,
+  });
+}
+
+// The parts of a TranscriptEvent payload that are read
+interface AwsStreamingItem {
+  Content?: string;
+  Type?: 'pronunciation' | 'punctuation';
+  StartTime: number;
+  EndTime: number;
+  Confidence?: number;
+  Speaker?: string;
+}
+
+interface AwsStreamingResult {
+  IsPartial?: boolean;
+  StartTime?: number;
+  EndTime?: number;
+  ChannelId?: string;
+  Alternatives?: { Transcript?: string; Items?: AwsStreamingItem[] }[];
+}
+
+interface AwsStreamingBody {
+  Message?: string;
+  Transcript?: { Results?: AwsStreamingResult[] };
+}
+
+export type AwsStreamingMessage =
+  | { type: 'transcript'; results: LiveTranscriptEvent[] }
+  | { type: 'exception'; message: string }
+  | { type: 'ignored' };
+
+// Decode a frame sent by AWS into transcript results or an exception
+export function decodeStreamingMessage(data: Uint8Array): AwsStreamingMessage {
+  const message = codec.decode(data);
+  const messageType = message.headers[':message-type']?.value;
+  const body: AwsStreamingBody = message.body.length
+    ? (JSON.parse(toUtf8(message.body)) as AwsStreamingBody)
+    : {};
+
+  if (messageType === 'exception' || messageType === 'error') {
+    const name =
+      message.headers[':exception-type']?.value ||
+      message.headers[':error-code']?.value;
+    const detail = body.Message || message.headers[':error-message']?.value;
+    return {
+      type: 'exception',
+      message: [name, detail].filter(Boolean).join(': ') || 'Unknown error',
+    };
+  }
+
+  if (message.headers[':event-type']?.value !== 'TranscriptEvent') {
+    return { type: 'ignored' };
+  }
+
+  const results = body.Transcript?.Results || [];
+  return {
+    type: 'transcript',
+    results: results
+      .map((result) => toLiveEvent(result))
+      .filter((event): event is LiveTranscriptEvent => event !== null),
+  };
+}
+
+function toLiveEvent(result: AwsStreamingResult): LiveTranscriptEvent | null {
+  const alternative = result.Alternatives?.[0];
+  const transcript = alternative?.Transcript?.trim() || '';
+  if (!alternative || !transcript) return null;
+
+  // Channel ids look like 'ch_0'; they stand in for the speaker as in batch
+  const channel = parseInt(String(result.ChannelId || '').split('_')[1], 10);
+  const channelSpeaker = Number.isNaN(channel) ? null : channel;
+
+  // Fold punctuation into the preceding word, as for batch transcripts
+  const words: TranscriptWord[] = [];
+  for (const item of alternative.Items || []) {
+    if (!item.Content) continue;
+    if (item.Type === 'punctuation') {
+      const previous = words[words.length - 1];
+      if (previous) previous.text += item.Content;
+      continue;
+    }
+    const speaker = parseInt(item.Speaker ?? '', 10);
+    words.push({
+      text: item.Content,
+      start: item.StartTime,
+      end: item.EndTime,
+      confidence: item.Confidence ?? null,
+      speaker: Number.isNaN(speaker) ? channelSpeaker : speaker,
+    });
+  }
+
+  return {
+    isFinal: !result.IsPartial,
+    transcript,
+    start: result.StartTime ?? 0,
+    end: result.EndTime ?? 0,
+    confidence: averageWordConfidence(words),
+    words,
+  };
+}
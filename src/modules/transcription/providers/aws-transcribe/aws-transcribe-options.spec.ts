@@ -0,0 +1,90 @@
+import {
+  buildAwsJobSettings,
+  getAwsOptionsError,
+} from './aws-transcribe-options';
+
+describe('AWS Transcribe options', () => {
+  describe('buildAwsJobSettings', () => {
+    it('should keep the default speaker labels', () => {
+      expect(buildAwsJobSettings('en-US')).toEqual({
+        LanguageCode: 'en-US',
+        Settings: { ShowSpeakerLabels: true, MaxSpeakerLabels: 10 },
+      });
+    });
+
+    it('should map vocabulary, channel and redaction settings', () => {
+      expect(
+        buildAwsJobSettings('en-US', {
+          vocabularyName: 'products',
+          vocabularyFilterName: 'swears',
+          channelIdentification: true,
+          contentRedaction: true,
+          piiEntityTypes: ['NAME', 'SSN'],
+        }),
+      ).toEqual({
+        LanguageCode: 'en-US',
+        ContentRedaction: {
+          RedactionType: 'PII',
+          RedactionOutput: 'redacted',
+          PiiEntityTypes: ['NAME', 'SSN'],
+        },
+        Settings: {
+          ChannelIdentification: true,
+          VocabularyName: 'products',
+          VocabularyFilterName: 'swears',
+          VocabularyFilterMethod: 'mask',
+        },
+      });
+    });
+
+    it('should apply vocabularies per language with language identification', () => {
+      const input = buildAwsJobSettings(
+        'auto',
+        {
+          identifyMultipleLanguages: true,
+          languageOptions: ['en-US', 'vi-VN'],
+          vocabularyName: 'products',
+          maxSpeakers: 4,
+        },
+        { vocabulary: 'en-US' },
+      );
+
+      expect(input).toEqual({
+        IdentifyMultipleLanguages: true,
+        LanguageOptions: ['en-US', 'vi-VN'],
+        LanguageIdSettings: { 'en-US': { VocabularyName: 'products' } },
+        Settings: { ShowSpeakerLabels: true, MaxSpeakerLabels: 4 },
+      });
+    });
+  });
+
+  describe('getAwsOptionsError', () => {
+    it('should accept valid combinations', () => {
+      expect(getAwsOptionsError('en-US', {})).toBeNull();
+      expect(
+        getAwsOptionsError('auto', {
+          identifyMultipleLanguages: true,
+          languageOptions: ['en-US', 'vi-VN'],
+        }),
+      ).toBeNull();
+    });
+
+    it.each([
+      ['en-US', { identifyMultipleLanguages: true }, 'requires language=auto'],
+      ['auto', { vocabularyName: 'products' }, 'require languageOptions'],
+      [
+        'en-US',
+        { vocabularyFilterMethod: 'tag' as const },
+        'requires vocabularyFilterName',
+      ],
+      ['en-US', { piiEntityTypes: ['NAME'] }, 'require contentRedaction'],
+      [
+        'en-US',
+        { channelIdentification: true, maxSpeakers: 3 },
+        'cannot be combined',
+      ],
+    ])('should reject %s with %j', (languageCode, options, message) => {
+      expect(getAwsOptionsError(languageCode, options)).toContain(message);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  LanguageCode,
+  PiiEntityType,
+  StartTranscriptionJobCommandInput,
+} from '@aws-sdk/client-transcribe';
+import { AWS_LANGUAGE_SUPPORT } from './aws-languages';
+
+// Per-request AWS Transcribe settings selectable on upload and saved on the
+// job. Unset fields keep the service defaults (speaker labels, 10 speakers).
+export interface AwsTranscribeOptions {
+  vocabularyName?: string; // Custom vocabulary (see /transcription/providers/aws/vocabularies)
+  vocabularyFilterName?: string;
+  vocabularyFilterMethod?: 'remove' | 'mask' | 'tag'; // Default mask
+  channelIdentification?: boolean; // Replaces speaker labels
+  contentRedaction?: boolean; // PII redaction
+  redactionOutput?: 'redacted' | 'redacted_and_unredacted';
+  piiEntityTypes?: string[]; // e.g. NAME, EMAIL, SSN; default ALL
+  identifyMultipleLanguages?: boolean; // Requires languageCode 'auto'
+  languageOptions?: string[]; // Candidate languages for 'auto'
+  maxSpeakers?: number; // 2-30, default 10
+}
+
+// Cross-field rules the DTO cannot express; returns the first problem found
+export function getAwsOptionsError(
+  languageCode: string,
+  options: AwsTranscribeOptions,
+): string | null {
+  const auto = languageCode === 'auto';
+
+  if (options.identifyMultipleLanguages && !auto) {
+    return 'identifyMultipleLanguages requires language=auto';
+  }
+  if (options.languageOptions?.length && !auto) {
+    return 'languageOptions requires language=auto';
+  }
+  const unsupported = options.languageOptions?.find(
+    (code) => !AWS_LANGUAGE_SUPPORT.languages.includes(code),
+  );
+  if (unsupported) {
+    return `languageOptions: AWS Transcribe does not support ${unsupported}`;
+  }
+  if (
+    auto &&
+    (options.vocabularyName || options.vocabularyFilterName) &&
+    !options.languageOptions?.length
+  ) {
+    return 'vocabularyName and vocabularyFilterName with language=auto require languageOptions';
+  }
+  if (options.vocabularyFilterMethod && !options.vocabularyFilterName) {
+    return 'vocabularyFilterMethod requires vocabularyFilterName';
+  }
+  if (
+    (options.redactionOutput || options.piiEntityTypes?.length) &&
+    !options.contentRedaction
+  ) {
+    return 'redactionOutput and piiEntityTypes require contentRedaction=true';
+  }
+  if (options.channelIdentification && options.maxSpeakers) {
+    return 'maxSpeakers cannot be combined with channelIdentification';
+  }
+  return null;
+}
+
+// Fields of StartTranscriptionJob derived from the options. With language
+// identification, vocabularies and filters must be given per language, so
+// their languages are passed in (looked up by the caller).
+export function buildAwsJobSettings(
+  languageCode: string,
+  options: AwsTranscribeOptions = {},
+  resourceLanguages: {
+    vocabulary?: LanguageCode;
+    vocabularyFilter?: LanguageCode;
+  } = {},
+): Partial<StartTranscriptionJobCommandInput> {
+  const input: Partial<StartTranscriptionJobCommandInput> = {};
+  const settings: NonNullable<StartTranscriptionJobCommandInput['Settings']> =
+    {};
+
+  // AWS rejects speaker labels together with channel identification
+  if (options.channelIdentification) {
+    settings.ChannelIdentification = true;
+  } else {
+    settings.ShowSpeakerLabels = true;
+    settings.MaxSpeakerLabels = options.maxSpeakers ?? 10;
+  }
+
+  // Auto-detect language or use specified language
+  if (languageCode === 'auto') {
+    if (options.identifyMultipleLanguages) {
+      input.IdentifyMultipleLanguages = true;
+    } else {
+      input.IdentifyLanguage = true;
+    }
+
+    if (options.languageOptions?.length) {
+      input.LanguageOptions = options.languageOptions as LanguageCode[];
+    }
+
+    const languageIdSettings: NonNullable<
+      StartTranscriptionJobCommandInput['LanguageIdSettings']
+    > = {};
+    if (options.vocabularyName && resourceLanguages.vocabulary) {
+      languageIdSettings[resourceLanguages.vocabulary] = {
+        VocabularyName: options.vocabularyName,
+      };
+    }
+    if (options.vocabularyFilterName && resourceLanguages.vocabularyFilter) {
+      languageIdSettings[resourceLanguages.vocabularyFilter] = {
+        ...languageIdSettings[resourceLanguages.vocabularyFilter],
+        VocabularyFilterName: options.vocabularyFilterName,
+      };
+    }
+    if (Object.keys(languageIdSettings).length) {
+      input.LanguageIdSettings = languageIdSettings;
+    }
+    if (options.vocabularyFilterName) {
+      settings.VocabularyFilterMethod =
+        options.vocabularyFilterMethod ?? 'mask';
+    }
+  } else {
+    input.LanguageCode = languageCode as LanguageCode;
+    if (options.vocabularyName) {
+      settings.VocabularyName = options.vocabularyName;
+    }
+    if (options.vocabularyFilterName) {
+      settings.VocabularyFilterName = options.vocabularyFilterName;
+      settings.VocabularyFilterMethod =
+        options.vocabularyFilterMethod ?? 'mask';
+    }
+  }
+
+  if (options.contentRedaction) {
+    input.ContentRedaction = {
+      RedactionType: 'PII',
+      RedactionOutput: options.redactionOutput ?? 'redacted',
+      PiiEntityTypes: options.piiEntityTypes?.length
+        ? (options.piiEntityTypes as PiiEntityType[])
+        : undefined,
+    };
+  }
+
+  input.Settings = settings;
+  return input;
+}
@@ -1,23 +1,128 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import {
+  CreateVocabularyCommand,
+  DeleteTranscriptionJobCommand,
   GetTranscriptionJobCommand,
+  GetVocabularyCommand,
+  GetVocabularyFilterCommand,
   LanguageCode,
+  ListVocabulariesCommand,
   StartTranscriptionJobCommand,
+  StartTranscriptionJobCommandInput,
   TranscribeClient,
 } from '@aws-sdk/client-transcribe';
-import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import {
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { randomUUID } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
+import { ProviderRegistryService } from '../provider-registry.service';
+import {
+  ProviderCapabilities,
+  ProviderTranscribeOptions,
+  ProviderUploadSettings,
+  TranscriptionProvider,
+} from '../transcription-provider.interface';
+import {
+  averageWordConfidence,
+  createFailedTranscriptResult,
+  groupWordsBySpeaker,
+  TranscriptResult,
+  TranscriptSegment,
+  TranscriptWord,
+} from '../transcript-result.interface';
+import { abortMessage, sleep } from '../abort';
+import { classifyProviderError } from '../provider-errors';
+import {
+  AwsTranscribeOptions,
+  buildAwsJobSettings,
+  getAwsOptionsError,
+} from './aws-transcribe-options';
+import { buildSpeakerSegments } from './aws-speaker-segments';
+import { AWS_LANGUAGE_SUPPORT, toAwsLanguage } from './aws-languages';
+import { AUTO_LANGUAGE } from '../../language/language-codes';
+import { AwsOptionsDto } from '../../dto/aws-options.dto';
+import {
+  parseOptionsDto,
+  ProviderOptionsError,
+} from '../provider-upload-settings';
+
+export interface AwsVocabulary {
+  name: string;
+  languageCode: string | null;
+  state: string | null; // PENDING | READY | FAILED
+  lastModified: Date | null;
+  failureReason?: string;
+}
+
+export interface AwsTranscriptionResult {
+  status: string;
+  transcript?: string;
+  words?: TranscriptWord[];
+  segments?: TranscriptSegment[];
+  language?: string;
+  languageScore?: number;
+  languageCodes?: { languageCode: string; duration: number }[];
+  error?: string;
+}
+
+// The parts of the transcript file AWS writes that are read. Times and
+// confidences are strings; punctuation items have no times.
+interface AwsTranscriptItem {
+  type: 'pronunciation' | 'punctuation';
+  start_time: string;
+  end_time: string;
+  speaker_label?: string;
+  channel_label?: string;
+  alternatives?: { content?: string; confidence: string }[];
+}
+
+interface AwsSpeakerSegment {
+  speaker_label?: string;
+  start_time: string;
+  end_time: string;
+}
+
+interface AwsTranscriptChannel {
+  channel_label: string;
+  items?: AwsTranscriptItem[];
+}
+
+interface AwsTranscriptFile {
+  results: {
+    transcripts: { transcript: string }[];
+    items?: AwsTranscriptItem[];
+    speaker_labels?: { segments?: AwsSpeakerSegment[] };
+    channel_labels?: { channels?: AwsTranscriptChannel[] };
+  };
+}
 
 @Injectable()
-export class AwsTranscribeService {
+export class AwsTranscribeService
+  implements TranscriptionProvider, OnModuleInit
+{
+  readonly id = 'aws';
+  readonly displayName = 'AWS Transcribe';
+  readonly capabilities: ProviderCapabilities = {
+    languageDetection: true,
+    diarization: true,
+    modelSelection: false,
+  };
+  readonly languageSupport = AWS_LANGUAGE_SUPPORT;
+
   private transcribeClient: TranscribeClient;
   private s3Client: S3Client;
   private bucket: string;
+  private pollIntervalMs: number;
 
   // AWS Transcribe supported formats
-  private readonly AWS_SUPPORTED_FORMATS = {
+  private readonly AWS_SUPPORTED_FORMATS: Record<string, string> = {
     mp3: 'mp3',
     mp4: 'mp4',
     m4a: 'mp4',
@@ -28,7 +133,12 @@ export class AwsTranscribeService {
     webm: 'webm',
   };
 
-  constructor(private configService: ConfigService) {
+  readonly supportedFormats = Object.keys(this.AWS_SUPPORTED_FORMATS);
+
+  constructor(
+    private configService: ConfigService,
+    private providerRegistry: ProviderRegistryService,
+  ) {
     const region = this.configService.get<string>('aws.region') || 'us-east-1';
     const credentials = {
       accessKeyId: this.configService.get<string>('aws.accessKeyId') || '',
@@ -39,11 +149,22 @@ export class AwsTranscribeService {
     this.transcribeClient = new TranscribeClient({ region, credentials });
     this.s3Client = new S3Client({ region, credentials });
     this.bucket = this.configService.get<string>('aws.s3Bucket') || '';
+    this.pollIntervalMs =
+      this.configService.get<number>('aws.pollIntervalMs') || 5000;
+  }
+
+  onModuleInit() {
+    this.providerRegistry.register(this);
   }
 
-  async uploadToS3(filePath: string, fileName: string): Promise<string> {
+  async uploadToS3(
+    filePath: string,
+    fileName: string,
+    signal?: AbortSignal,
+  ): Promise<{ key: string; url: string }> {
     const fileContent = fs.readFileSync(filePath);
-    const key = `transcriptions/${Date.now()}-${fileName}`;
+    // Calls can start in the same millisecond, so the time alone is not unique
+    const key = `transcriptions/${Date.now()}-${randomUUID()}-${fileName}`;
 
     await this.s3Client.send(
       new PutObjectCommand({
@@ -51,9 +172,107 @@ export class AwsTranscribeService {
         Key: key,
         Body: fileContent,
       }),
+      { abortSignal: signal },
     );
 
-    return `https://${this.bucket}.s3.${this.configService.get<string>('aws.region')}.amazonaws.com/${key}`;
+    return {
+      key,
+      url: `https://${this.bucket}.s3.${this.configService.get<string>('aws.region')}.amazonaws.com/${key}`,
+    };
+  }
+
+  // Remove the remote job and uploaded media once a call has finished.
+  // Failures are logged only - the local job is already finished.
+  async cleanupRemote(jobName?: string, s3Key?: string): Promise<void> {
+    if (jobName) {
+      try {
+        await this.transcribeClient.send(
+          new DeleteTranscriptionJobCommand({ TranscriptionJobName: jobName }),
+        );
+      } catch (error) {
+        console.warn(
+          `[AWS] Failed to delete transcription job ${jobName}:`,
+          (error as Error).message,
+        );
+      }
+    }
+
+    if (s3Key) {
+      try {
+        await this.s3Client.send(
+          new DeleteObjectCommand({ Bucket: this.bucket, Key: s3Key }),
+        );
+      } catch (error) {
+        console.warn(
+          `[AWS] Failed to delete S3 object ${s3Key}:`,
+          (error as Error).message,
+        );
+      }
+    }
+  }
+
+  // Delete media uploaded by uploadToS3 that is older than `olderThan`.
+  // Returns the deleted keys.
+  async purgeUploadedMedia(olderThan: Date): Promise<string[]> {
+    const deleted: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await this.s3Client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: 'transcriptions/',
+          ContinuationToken: continuationToken,
+        }),
+      );
+
+      const expired = (page.Contents || [])
+        .filter(
+          (object) => object.LastModified && object.LastModified < olderThan,
+        )
+        .map((object) => object.Key)
+        .filter((key): key is string => !!key);
+
+      // A list page holds at most 1000 keys, the DeleteObjects limit
+      if (expired.length > 0) {
+        const response = await this.s3Client.send(
+          new DeleteObjectsCommand({
+            Bucket: this.bucket,
+            Delete: {
+              Objects: expired.map((key) => ({ Key: key })),
+              Quiet: true,
+            },
+          }),
+        );
+        const failed = new Set((response.Errors || []).map((e) => e.Key));
+        deleted.push(...expired.filter((key) => !failed.has(key)));
+      }
+
+      continuationToken = page.IsTruncated
+        ? page.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+
+    return deleted;
+  }
+
+  // PII redaction is billed on top of standard transcription
+  getBillingModel(options: ProviderTranscribeOptions): string {
+    const awsOptions = (options.providerOptions || {}) as AwsTranscribeOptions;
+    return awsOptions.contentRedaction ? 'redaction' : 'standard';
+  }
+
+  // Combinations the DTO can't express are checked against the language
+  async parseUploadSettings(
+    query: Record<string, unknown>,
+    languageCode: string,
+  ): Promise<ProviderUploadSettings> {
+    const options = await parseOptionsDto(AwsOptionsDto, query);
+    const error = getAwsOptionsError(languageCode, options);
+    if (error) {
+      throw new ProviderOptionsError(error);
+    }
+    return { options };
   }
 
   private detectMediaFormat(fileName: string): string | null {
@@ -67,6 +286,7 @@ export class AwsTranscribeService {
     jobName: string,
     fileName: string,
     languageCode: string = 'en-US',
+    options: AwsTranscribeOptions = {},
   ): Promise<string> {
     const mediaFormat = this.detectMediaFormat(fileName);
 
@@ -77,46 +297,140 @@ export class AwsTranscribeService {
       );
     }
 
-    const commandInput: any = {
+    const commandInput: StartTranscriptionJobCommandInput = {
       TranscriptionJobName: jobName,
-      MediaFormat: mediaFormat,
+      MediaFormat:
+        mediaFormat as StartTranscriptionJobCommandInput['MediaFormat'],
       Media: {
         MediaFileUri: audioUrl,
       },
-      Settings: {
-        ShowSpeakerLabels: true,
-        MaxSpeakerLabels: 10,
-      },
+      // Speaker labels, language, vocabularies and redaction
+      ...buildAwsJobSettings(
+        languageCode,
+        options,
+        languageCode === 'auto' ? await this.getResourceLanguages(options) : {},
+      ),
     };
 
-    // Auto-detect language or use specified language
-    if (languageCode === 'auto') {
-      commandInput.IdentifyLanguage = true;
-    } else {
-      commandInput.LanguageCode = languageCode as LanguageCode;
-    }
-
     const command = new StartTranscriptionJobCommand(commandInput);
 
     await this.transcribeClient.send(command);
     return jobName;
   }
 
+  // With language identification, vocabularies and filters are applied per
+  // language; look up which language each one was created for
+  private async getResourceLanguages(
+    options: AwsTranscribeOptions,
+  ): Promise<{ vocabulary?: LanguageCode; vocabularyFilter?: LanguageCode }> {
+    const languages: {
+      vocabulary?: LanguageCode;
+      vocabularyFilter?: LanguageCode;
+    } = {};
+
+    if (options.vocabularyName) {
+      const vocabulary = await this.transcribeClient.send(
+        new GetVocabularyCommand({ VocabularyName: options.vocabularyName }),
+      );
+      languages.vocabulary = vocabulary.LanguageCode;
+    }
+    if (options.vocabularyFilterName) {
+      const filter = await this.transcribeClient.send(
+        new GetVocabularyFilterCommand({
+          VocabularyFilterName: options.vocabularyFilterName,
+        }),
+      );
+      languages.vocabularyFilter = filter.LanguageCode;
+    }
+
+    for (const language of Object.values(languages)) {
+      if (language && !options.languageOptions?.includes(language)) {
+        throw new Error(
+          `Vocabulary language ${language} is not one of languageOptions (${(options.languageOptions || []).join(', ')})`,
+        );
+      }
+    }
+
+    return languages;
+  }
+
+  // Create a custom vocabulary from a word list. Multi-word phrases are
+  // joined with hyphens as AWS expects. The vocabulary is PENDING until
+  // AWS has processed it.
+  async createVocabulary(
+    name: string,
+    languageCode: string,
+    phrases: string[],
+  ): Promise<AwsVocabulary> {
+    const response = await this.transcribeClient.send(
+      new CreateVocabularyCommand({
+        VocabularyName: name,
+        LanguageCode: languageCode as LanguageCode,
+        Phrases: phrases.map((phrase) => phrase.trim().split(/\s+/).join('-')),
+      }),
+    );
+
+    return {
+      name: response.VocabularyName || name,
+      languageCode: response.LanguageCode || languageCode,
+      state: response.VocabularyState || null,
+      lastModified: response.LastModifiedTime || null,
+      failureReason: response.FailureReason,
+    };
+  }
+
+  async getVocabulary(name: string): Promise<AwsVocabulary> {
+    const response = await this.transcribeClient.send(
+      new GetVocabularyCommand({ VocabularyName: name }),
+    );
+
+    return {
+      name: response.VocabularyName || name,
+      languageCode: response.LanguageCode || null,
+      state: response.VocabularyState || null,
+      lastModified: response.LastModifiedTime || null,
+      failureReason: response.FailureReason,
+    };
+  }
+
+  async listVocabularies(nameContains?: string): Promise<AwsVocabulary[]> {
+    const vocabularies: AwsVocabulary[] = [];
+    let nextToken: string | undefined;
+
+    do {
+      const page = await this.transcribeClient.send(
+        new ListVocabulariesCommand({
+          NameContains: nameContains,
+          NextToken: nextToken,
+          MaxResults: 100,
+        }),
+      );
+
+      for (const vocabulary of page.Vocabularies || []) {
+        vocabularies.push({
+          name: vocabulary.VocabularyName || '',
+          languageCode: vocabulary.LanguageCode || null,
+          state: vocabulary.VocabularyState || null,
+          lastModified: vocabulary.LastModifiedTime || null,
+        });
+      }
+      nextToken = page.NextToken;
+    } while (nextToken);
+
+    return vocabularies;
+  }
+
   async getTranscriptionResult(
     jobName: string,
-  ): Promise<{
-    status: string;
-    transcript?: string;
-    speakers?: any;
-    language?: string;
-    languageScore?: number;
-    error?: string;
-  }> {
+    signal?: AbortSignal,
+  ): Promise<AwsTranscriptionResult> {
     const command = new GetTranscriptionJobCommand({
       TranscriptionJobName: jobName,
     });
 
-    const response = await this.transcribeClient.send(command);
+    const response = await this.transcribeClient.send(command, {
+      abortSignal: signal,
+    });
     const job = response.TranscriptionJob;
 
     if (!job) {
@@ -135,49 +449,65 @@ export class AwsTranscribeService {
         };
       }
 
-      const transcriptResponse = await fetch(transcriptUrl);
-      const transcriptData = await transcriptResponse.json();
+      const transcriptResponse = await fetch(transcriptUrl, { signal });
+      // An expired or refused URL returns an error page, not a transcript
+      if (!transcriptResponse.ok) {
+        return {
+          status: 'FAILED',
+          error: `Transcript download failed with HTTP ${transcriptResponse.status}`,
+        };
+      }
+      const transcriptData =
+        (await transcriptResponse.json()) as AwsTranscriptFile;
+
+      const speakerSegments =
+        transcriptData.results?.speaker_labels?.segments || [];
+      const channels = transcriptData.results?.channel_labels?.channels || [];
+      // Items are normally listed once for the whole file; fall back to the
+      // per-channel lists (kept in channel order so punctuation stays
+      // attached) and sort the words afterwards
+      const items: AwsTranscriptItem[] = transcriptData.results?.items?.length
+        ? transcriptData.results.items
+        : channels.flatMap((channel) =>
+            (channel.items || []).map((item) => ({
+              ...item,
+              channel_label: channel.channel_label,
+            })),
+          );
+      const words = this.parseWords(items, speakerSegments, channels).sort(
+        (a, b) => a.start - b.start,
+      );
 
       // Parse speaker labels if available
-      let speakers = null;
-      if (transcriptData.results?.speaker_labels?.segments) {
-        const segments = transcriptData.results.speaker_labels.segments;
-        const items = transcriptData.results.items || [];
-
-        // Group items by speaker segments
-        speakers = segments.map((segment: any) => {
-          const segmentStartTime = parseFloat(segment.start_time);
-          const segmentEndTime = parseFloat(segment.end_time);
-
-          // Get words for this segment
-          const segmentWords = items
-            .filter((item: any) => {
-              if (!item.start_time) return false;
-              const itemTime = parseFloat(item.start_time);
-              return itemTime >= segmentStartTime && itemTime <= segmentEndTime;
-            })
-            .map((item: any) => item.alternatives?.[0]?.content || '')
-            .filter(Boolean);
-
-          return {
-            speaker: segment.speaker_label?.replace('spk_', ''),
-            text: segmentWords.join(' '),
-            start: segmentStartTime,
-            end: segmentEndTime,
-          };
-        });
-      }
+      const segments = buildSpeakerSegments(
+        speakerSegments.map((segment) => ({
+          speaker: this.parseSpeakerLabel(segment.speaker_label),
+          start: parseFloat(segment.start_time),
+          end: parseFloat(segment.end_time),
+        })),
+        words,
+      );
 
-      // Get language information
-      const language = job.LanguageCode;
+      // Get language information. Multi-language jobs report every
+      // language found; the one spoken longest is used as the job language.
+      const languageCodes = (job.LanguageCodes || [])
+        .map((entry) => ({
+          languageCode: entry.LanguageCode || '',
+          duration: entry.DurationInSeconds ?? 0,
+        }))
+        .sort((a, b) => b.duration - a.duration);
+      const language = job.LanguageCode || languageCodes[0]?.languageCode;
       const languageScore = job.IdentifiedLanguageScore;
 
       return {
         status: 'COMPLETED',
         transcript: transcriptData.results.transcripts[0].transcript,
-        speakers: speakers,
+        words,
+        // Channel identification labels words but returns no segments
+        segments: segments.length > 0 ? segments : groupWordsBySpeaker(words),
         language: language,
         languageScore: languageScore,
+        languageCodes: languageCodes.length > 0 ? languageCodes : undefined,
       };
     } else if (job.TranscriptionJobStatus === 'FAILED') {
       return {
@@ -191,12 +521,91 @@ export class AwsTranscribeService {
     }
   }
 
+  // 'spk_0' -> 0, 'ch_1' -> 1 (channel identification)
+  private parseSpeakerLabel(label?: string): number | null {
+    if (!label) return null;
+    const speaker = parseInt(label.replace(/^(spk|ch)_/, ''), 10);
+    return Number.isNaN(speaker) ? null : speaker;
+  }
+
+  // Convert AWS items into word tokens, folding punctuation into the
+  // preceding word so the joined text matches the transcript
+  private parseWords(
+    items: AwsTranscriptItem[],
+    speakerSegments: AwsSpeakerSegment[],
+    channels: AwsTranscriptChannel[] = [],
+  ): TranscriptWord[] {
+    const words: TranscriptWord[] = [];
+
+    // With channel identification the channel of an item is only listed
+    // under channel_labels
+    const channelByTime = new Map<string, string>();
+    for (const channel of channels) {
+      for (const item of channel.items || []) {
+        if (item.start_time) {
+          channelByTime.set(
+            `${item.start_time}-${item.end_time}`,
+            channel.channel_label,
+          );
+        }
+      }
+    }
+
+    for (const item of items) {
+      const alternative = item.alternatives?.[0];
+      const content = alternative?.content || '';
+      if (!alternative || !content) continue;
+
+      if (item.type === 'punctuation') {
+        const previous = words[words.length - 1];
+        if (previous) previous.text += content;
+        continue;
+      }
+
+      const start = parseFloat(item.start_time);
+      const end = parseFloat(item.end_time);
+      const confidence = parseFloat(alternative.confidence);
+
+      // Newer transcripts label items directly, older ones only label segments
+      let speakerLabel: string | undefined =
+        item.speaker_label ||
+        item.channel_label ||
+        channelByTime.get(`${item.start_time}-${item.end_time}`);
+      if (!speakerLabel) {
+        const segment = speakerSegments.find(
+          (s) =>
+            start >= parseFloat(s.start_time) &&
+            start <= parseFloat(s.end_time),
+        );
+        speakerLabel = segment?.speaker_label;
+      }
+
+      words.push({
+        text: content,
+        start,
+        end,
+        confidence: Number.isNaN(confidence) ? null : confidence,
+        speaker: this.parseSpeakerLabel(speakerLabel),
+      });
+    }
+
+    return words;
+  }
+
   async transcribeFile(
     filePath: string,
     fileName: string,
-    languageCode: string = 'en-US',
-  ): Promise<any> {
+    options: ProviderTranscribeOptions,
+  ): Promise<TranscriptResult> {
+    // AWS needs a region ('en' -> 'en-US')
+    const languageCode =
+      options.languageCode === AUTO_LANGUAGE
+        ? AUTO_LANGUAGE
+        : toAwsLanguage(options.languageCode || 'en-US');
+    const signal = options.signal;
     const startTime = Date.now();
+    let jobName: string | undefined;
+    let s3Key: string | undefined;
 
     try {
       // Check if format is supported
@@ -206,55 +615,94 @@ export class AwsTranscribeService {
         const endTime = Date.now();
         const duration = (endTime - startTime) / 1000;
 
-        return {
-          provider: 'AWS Transcribe',
-          status: 'FAILED',
-          transcript: null,
-          error: `Unsupported format: ${ext}. AWS Transcribe only supports: ${Object.keys(this.AWS_SUPPORTED_FORMATS).join(', ')}`,
-          duration: `${duration.toFixed(2)}s`,
-        };
+        return createFailedTranscriptResult(
+          this.id,
+          this.displayName,
+          `Unsupported format: ${ext}. AWS Transcribe only supports: ${Object.keys(this.AWS_SUPPORTED_FORMATS).join(', ')}`,
+          duration,
+        );
       }
 
       // Upload to S3
-      const audioUrl = await this.uploadToS3(filePath, fileName);
+      const upload = await this.uploadToS3(filePath, fileName, signal);
+      s3Key = upload.key;
 
       // Start transcription
-      const jobName = `transcription-${Date.now()}`;
-      await this.startTranscription(audioUrl, jobName, fileName, languageCode);
+      jobName = `transcription-${Date.now()}-${randomUUID()}`;
+      await this.startTranscription(
+        upload.url,
+        jobName,
+        fileName,
+        languageCode,
+        options.providerOptions || {},
+      );
 
-      // Poll for result
-      let result;
+      // Poll until the job reaches a final status (QUEUED and IN_PROGRESS keep
+      // polling). The caller's signal enforces the timeout.
+      let result: AwsTranscriptionResult;
       do {
-        await new Promise((resolve) => setTimeout(resolve, 5000)); // Wait 5 seconds
-        result = await this.getTranscriptionResult(jobName);
-      } while (result.status === 'IN_PROGRESS');
+        await sleep(this.pollIntervalMs, signal);
+        result = await this.getTranscriptionResult(jobName, signal);
+      } while (result.status !== 'COMPLETED' && result.status !== 'FAILED');
 
       const endTime = Date.now();
       const duration = (endTime - startTime) / 1000;
 
-      console.log('aws result: ', result);
+      if (result.status !== 'COMPLETED') {
+        return {
+          ...createFailedTranscriptResult(
+            this.id,
+            this.displayName,
+            result.error ||
+              `Transcription job ended with status ${result.status}`,
+            duration,
+          ),
+          metadata: { jobName },
+        };
+      }
+
+      const words = result.words || [];
       return {
-        provider: 'AWS Transcribe',
-        status: result.status,
+        provider: this.displayName,
+        providerId: this.id,
+        status: 'COMPLETED',
         transcript: result.transcript || null,
-        speakers: result.speakers || null, // Speaker-separated segments
+        words,
+        segments: result.segments || [],
         language: result.language || null,
-        languageScore: result.languageScore || null,
-        error: result.error || null,
-        duration: `${duration.toFixed(2)}s`,
-        jobName,
+        languageConfidence: result.languageScore ?? null,
+        confidence: averageWordConfidence(words),
+        model: null,
+        processingTime: duration,
+        // AWS does not report media duration; use the last word's end time
+        audioDuration: words.length > 0 ? words[words.length - 1].end : null,
+        error: null,
+        metadata: { jobName, languageCodes: result.languageCodes },
       };
     } catch (error) {
       const endTime = Date.now();
       const duration = (endTime - startTime) / 1000;
 
-      return {
-        provider: 'AWS Transcribe',
-        status: 'FAILED',
-        transcript: null,
-        error: error.message,
-        duration: `${duration.toFixed(2)}s`,
-      };
+      if (signal?.aborted) {
+        return createFailedTranscriptResult(
+          this.id,
+          this.displayName,
+          abortMessage(signal),
+          duration,
+        );
+      }
+
+      return createFailedTranscriptResult(
+        this.id,
+        this.displayName,
+        (error as Error).message,
+        duration,
+        classifyProviderError(error),
+      );
+    } finally {
+      // The transcript has been read (or the attempt failed, and a retry
+      // starts over with a new upload and job), so nothing is left behind
+      await this.cleanupRemote(jobName, s3Key);
     }
   }
 }
@@ -0,0 +1,77 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { CreateVocabularyDto } from '../../dto/create-vocabulary.dto';
+import { AwsTranscribeService } from './aws-transcribe.service';
+
+// Custom vocabularies for the vocabularyName upload option
+@Controller('transcription/providers/aws/vocabularies')
+export class AwsVocabularyController {
+  constructor(private awsTranscribeService: AwsTranscribeService) {}
+
+  @Post()
+  async createVocabulary(@Body() body: CreateVocabularyDto) {
+    try {
+      const vocabulary = await this.awsTranscribeService.createVocabulary(
+        body.name,
+        body.languageCode,
+        body.phrases,
+      );
+      return { success: true, vocabulary };
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+  }
+
+  @Get()
+  async listVocabularies(@Query('nameContains') nameContains?: string) {
+    try {
+      return {
+        success: true,
+        vocabularies:
+          await this.awsTranscribeService.listVocabularies(nameContains),
+      };
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+  }
+
+  // Poll this until state is READY before using the vocabulary
+  @Get(':name')
+  async getVocabulary(@Param('name') name: string) {
+    try {
+      return {
+        success: true,
+        vocabulary: await this.awsTranscribeService.getVocabulary(name),
+      };
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+  }
+
+  // Map AWS SDK errors (matched by name) to HTTP errors; anything that is
+  // not a client error (network, throttling, 5xx) becomes 502
+  private toHttpException(error: unknown) {
+    const { name, message: detail } = error as Error;
+    const message = `AWS Transcribe: ${detail}`;
+    switch (name) {
+      case 'ConflictException':
+        return new ConflictException(message);
+      case 'NotFoundException':
+        return new NotFoundException(message);
+      case 'BadRequestException':
+        return new BadRequestException(message);
+      default:
+        return new BadGatewayException(message);
+    }
+  }
+}
@@ -0,0 +1,157 @@
+import { ProviderLanguageSupport } from '../transcription-provider.interface';
+import {
+  getBaseLanguage,
+  getSupportedLanguages,
+  resolveLanguage,
+} from '../../language/language-codes';
+
+// Pre-recorded languages per model, from Deepgram's model documentation.
+// A bare code ('de') covers every region of the language.
+const ENGLISH = ['en', 'en-US'];
+
+const NOVA_3 = [
+  'en',
+  'en-US',
+  'en-AU',
+  'en-GB',
+  'en-IN',
+  'en-NZ',
+  'es',
+  'es-419',
+  'fr',
+  'fr-CA',
+  'de',
+  'hi',
+  'ru',
+  'pt',
+  'pt-BR',
+  'pt-PT',
+  'ja',
+  'it',
+  'nl',
+  'nl-BE',
+];
+
+const NOVA_2 = [
+  'bg',
+  'ca',
+  'zh',
+  'zh-CN',
+  'zh-TW',
+  'zh-HK',
+  'cs',
+  'da',
+  'nl',
+  'nl-BE',
+  'en',
+  'en-US',
+  'en-AU',
+  'en-GB',
+  'en-IN',
+  'en-NZ',
+  'et',
+  'fi',
+  'fr',
+  'fr-CA',
+  'de',
+  'de-CH',
+  'el',
+  'hi',
+  'hu',
+  'id',
+  'it',
+  'ja',
+  'ko',
+  'lv',
+  'lt',
+  'ms',
+  'no',
+  'pl',
+  'pt',
+  'pt-BR',
+  'pt-PT',
+  'ro',
+  'ru',
+  'sk',
+  'es',
+  'es-419',
+  'sv',
+  'th',
+  'tr',
+  'uk',
+  'vi',
+];
+
+const ENHANCED = [
+  'da',
+  'nl',
+  'en',
+  'en-US',
+  'fr',
+  'de',
+  'hi',
+  'it',
+  'ja',
+  'ko',
+  'no',
+  'pl',
+  'pt',
+  'pt-BR',
+  'pt-PT',
+  'es',
+  'es-419',
+  'sv',
+  'ta',
+];
+
+const BASE = [...ENHANCED, 'zh', 'zh-CN', 'zh-TW', 'id', 'ru', 'tr', 'uk'];
+
+const MODELS: Record<string, readonly string[]> = {
+  'nova-3': NOVA_3,
+  'nova-3-medical': ENGLISH,
+  'nova-2': NOVA_2,
+  'nova-2-meeting': ENGLISH,
+  'nova-2-phonecall': ENGLISH,
+  'nova-2-finance': ENGLISH,
+  'nova-2-conversationalai': ENGLISH,
+  'nova-2-voicemail': ENGLISH,
+  'nova-2-video': ENGLISH,
+  'nova-2-medical': ENGLISH,
+  'nova-2-drivethru': ENGLISH,
+  'nova-2-automotive': ENGLISH,
+  'nova-2-atc': ENGLISH,
+  nova: ENGLISH,
+  'nova-phonecall': ENGLISH,
+  'nova-medical': ENGLISH,
+  enhanced: ENHANCED,
+  'enhanced-meeting': ENGLISH,
+  'enhanced-phonecall': ENGLISH,
+  'enhanced-finance': ENGLISH,
+  base: BASE,
+  'base-meeting': ENGLISH,
+  'base-phonecall': ENGLISH,
+  'base-finance': ENGLISH,
+  'base-conversationalai': ENGLISH,
+  'base-voicemail': ENGLISH,
+  'base-video': ENGLISH,
+};
+
+export const DEEPGRAM_LANGUAGE_SUPPORT: ProviderLanguageSupport = {
+  languages: [...new Set(Object.values(MODELS).flat())],
+  models: MODELS,
+};
+
+// Deepgram's code for a canonical language with the given model. Falls
+// back to the bare language for combinations the table doesn't list;
+// uploads are validated against it, live streams are not.
+export function toDeepgramLanguage(
+  languageCode: string,
+  model: string,
+): string {
+  const languages =
+    getSupportedLanguages(DEEPGRAM_LANGUAGE_SUPPORT, model) ??
+    DEEPGRAM_LANGUAGE_SUPPORT.languages;
+  return (
+    resolveLanguage(languages, languageCode) ?? getBaseLanguage(languageCode)
+  );
+}
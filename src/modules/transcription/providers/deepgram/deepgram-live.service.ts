@@ -0,0 +1,145 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  createClient,
+  DeepgramClient,
+  LiveTranscriptionEvent,
+  LiveTranscriptionEvents,
+} from '@deepgram/sdk';
+import { ProviderRegistryService } from '../provider-registry.service';
+import {
+  LiveProviderStream,
+  LiveStreamHandlers,
+  LiveStreamOptions,
+  LiveTranscriptEvent,
+  LiveTranscriptionProvider,
+} from '../live-stream.interface';
+import { TranscriptWord } from '../transcript-result.interface';
+import { toDeepgramLanguage } from './deepgram-languages';
+
+@Injectable()
+export class DeepgramLiveService
+  implements LiveTranscriptionProvider, OnModuleInit
+{
+  readonly id = 'deepgram';
+  readonly displayName = 'Deepgram';
+
+  private deepgram: DeepgramClient;
+
+  constructor(
+    private configService: ConfigService,
+    private providerRegistry: ProviderRegistryService,
+  ) {
+    const apiKey = this.configService.get<string>('deepgram.apiKey');
+    this.deepgram = createClient(apiKey);
+  }
+
+  onModuleInit() {
+    this.providerRegistry.registerLive(this);
+  }
+
+  openStream(
+    options: LiveStreamOptions,
+    handlers: LiveStreamHandlers,
+  ): Promise<LiveProviderStream> {
+    const model = options.model || 'nova-3';
+    const language = toDeepgramLanguage(options.languageCode, model);
+    const liveOptions: Record<string, unknown> = {
+      model,
+      language,
+      interim_results: true,
+      smart_format: true,
+      punctuate: true,
+      channels: options.channels,
+    };
+    // Containerized audio (Ogg/Opus) is detected by Deepgram itself
+    if (options.encoding === 'pcm') {
+      liveOptions.encoding = 'linear16';
+      liveOptions.sample_rate = options.sampleRate;
+    }
+
+    const connection = this.deepgram.listen.live(liveOptions);
+
+    return new Promise((resolve, reject) => {
+      let opened = false;
+      let closed = false;
+
+      connection.on(LiveTranscriptionEvents.Open, () => {
+        opened = true;
+        console.log(`[Deepgram] Live stream opened (${model}, ${language})`);
+        resolve({
+          // The SDK types only accept ArrayBuffers, not Node buffers
+          send: (chunk) =>
+            connection.send(
+              chunk.buffer.slice(
+                chunk.byteOffset,
+                chunk.byteOffset + chunk.byteLength,
+              ),
+            ),
+          finish: () => connection.requestClose(),
+          close: () => connection.disconnect(),
+        });
+      });
+
+      connection.on(
+        LiveTranscriptionEvents.Transcript,
+        (data: LiveTranscriptionEvent) => {
+          const event = this.toLiveEvent(data);
+          if (event) handlers.onTranscript(event);
+        },
+      );
+
+      connection.on(LiveTranscriptionEvents.Error, (error: unknown) => {
+        const err =
+          error instanceof Error
+            ? error
+            : new Error(
+                (error as { message?: string })?.message ||
+                  'Deepgram live stream error',
+              );
+        if (!opened) {
+          reject(err);
+          return;
+        }
+        handlers.onError(err);
+      });
+
+      connection.on(LiveTranscriptionEvents.Close, () => {
+        if (closed) return;
+        closed = true;
+        if (!opened) {
+          reject(new Error('Deepgram closed the live stream before it opened'));
+          return;
+        }
+        handlers.onClose();
+      });
+    });
+  }
+
+  private toLiveEvent(
+    data: LiveTranscriptionEvent,
+  ): LiveTranscriptEvent | null {
+    const alternative = data?.channel?.alternatives?.[0];
+    const transcript = alternative?.transcript?.trim() || '';
+    // Deepgram sends empty results for silence
+    if (!alternative || !transcript) return null;
+
+    const start = data.start ?? 0;
+    const words: TranscriptWord[] = (alternative.words || []).map((word) => ({
+      text: word.punctuated_word || word.word,
+      start: word.start,
+      end: word.end,
+      confidence: word.confidence ?? null,
+      speaker: word.speaker ?? null,
+    }));
+
+    return {
+      isFinal: !!data.is_final,
+      transcript,
+      start,
+      end: start + (data.duration ?? 0),
+      confidence: alternative.confidence ?? null,
+      words,
+    };
+  }
+}
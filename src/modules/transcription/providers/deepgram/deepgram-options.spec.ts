@@ -0,0 +1,43 @@
+import { buildDeepgramRequestOptions } from './deepgram-options';
+
+describe('buildDeepgramRequestOptions', () => {
+  it('should keep the defaults when no options are given', () => {
+    expect(buildDeepgramRequestOptions('nova-3', 'en')).toEqual({
+      model: 'nova-3',
+      smart_format: true,
+      punctuate: true,
+      diarize: true,
+      paragraphs: true,
+      language: 'en',
+    });
+  });
+
+  it('should map options to Deepgram parameter names', () => {
+    const requestOptions = buildDeepgramRequestOptions('nova-3', 'auto', {
+      keyterms: ['Notica', 'speech to text'],
+      numerals: true,
+      profanityFilter: false,
+      redact: ['pci'],
+      utterances: true,
+      uttSplit: 1.2,
+      multichannel: true,
+      fillerWords: true,
+      diarize: false,
+    });
+
+    expect(requestOptions).toMatchObject({
+      detect_language: true,
+      keyterm: ['Notica', 'speech to text'],
+      numerals: true,
+      profanity_filter: false,
+      redact: ['pci'],
+      utterances: true,
+      utt_split: 1.2,
+      multichannel: true,
+      filler_words: true,
+      diarize: false,
+    });
+    expect(requestOptions).not.toHaveProperty('language');
+    expect(requestOptions).not.toHaveProperty('keywords');
+  });
+});
@@ -0,0 +1,56 @@
+// Per-request Deepgram features selectable on upload and saved on the job.
+// Unset fields keep the service defaults.
+export interface DeepgramOptions {
+  keyterms?: string[]; // Keyterm prompting (nova-3 only)
+  keywords?: string[]; // Keyword boosting, "word" or "word:intensifier" (not nova-3)
+  numerals?: boolean; // "twenty one" -> "21"
+  profanityFilter?: boolean;
+  redact?: string[]; // e.g. pci, pii, numbers, ssn
+  utterances?: boolean;
+  uttSplit?: number; // Seconds of silence between utterances
+  multichannel?: boolean; // Transcribe each audio channel separately
+  fillerWords?: boolean; // Keep "uh", "um"
+  smartFormat?: boolean; // Default true
+  punctuate?: boolean; // Default true
+  diarize?: boolean; // Default true
+  paragraphs?: boolean; // Default true
+}
+
+// Request options for listen.prerecorded.transcribeFile
+export function buildDeepgramRequestOptions(
+  model: string,
+  languageCode: string, // Deepgram code (e.g. 'en') or 'auto'
+  options: DeepgramOptions = {},
+): Record<string, unknown> {
+  const requestOptions: Record<string, unknown> = {
+    model,
+    smart_format: options.smartFormat ?? true,
+    punctuate: options.punctuate ?? true,
+    diarize: options.diarize ?? true, // Enable speaker diarization
+    paragraphs: options.paragraphs ?? true, // Enable paragraph grouping by speaker
+  };
+
+  // Auto-detect language or use specified language
+  if (languageCode === 'auto') {
+    requestOptions.detect_language = true;
+  } else {
+    requestOptions.language = languageCode;
+  }
+
+  const optional: Record<string, unknown> = {
+    keyterm: options.keyterms?.length ? options.keyterms : undefined,
+    keywords: options.keywords?.length ? options.keywords : undefined,
+    numerals: options.numerals,
+    profanity_filter: options.profanityFilter,
+    redact: options.redact?.length ? options.redact : undefined,
+    utterances: options.utterances,
+    utt_split: options.uttSplit,
+    multichannel: options.multichannel,
+    filler_words: options.fillerWords,
+  };
+  for (const [key, value] of Object.entries(optional)) {
+    if (value !== undefined) requestOptions[key] = value;
+  }
+
+  return requestOptions;
+}
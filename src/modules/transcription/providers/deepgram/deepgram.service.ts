@@ -1,11 +1,53 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { createClient } from '@deepgram/sdk';
+import {
+  createClient,
+  DeepgramClient,
+  SyncPrerecordedResponse,
+} from '@deepgram/sdk';
 import * as fs from 'fs';
+import { ProviderRegistryService } from '../provider-registry.service';
+import {
+  ProviderCapabilities,
+  ProviderTranscribeOptions,
+  ProviderUploadSettings,
+  TranscriptionProvider,
+} from '../transcription-provider.interface';
+import {
+  createFailedTranscriptResult,
+  TranscriptResult,
+  TranscriptSegment,
+  TranscriptWord,
+} from '../transcript-result.interface';
+import { abortMessage, raceWithSignal } from '../abort';
+import { classifyProviderError } from '../provider-errors';
+import {
+  buildDeepgramRequestOptions,
+  DeepgramOptions,
+} from './deepgram-options';
+import {
+  DEEPGRAM_LANGUAGE_SUPPORT,
+  toDeepgramLanguage,
+} from './deepgram-languages';
+import { AUTO_LANGUAGE } from '../../language/language-codes';
+import { DeepgramOptionsDto } from '../../dto/deepgram-options.dto';
+import { parseOptionsDto } from '../provider-upload-settings';
+
+type DeepgramAlternative =
+  SyncPrerecordedResponse['results']['channels'][number]['alternatives'][number];
 
 @Injectable()
-export class DeepgramService {
-  private deepgram: any;
+export class DeepgramService implements TranscriptionProvider, OnModuleInit {
+  readonly id = 'deepgram';
+  readonly displayName = 'Deepgram';
+  readonly capabilities: ProviderCapabilities = {
+    languageDetection: true,
+    diarization: true,
+    modelSelection: true,
+  };
+  readonly languageSupport = DEEPGRAM_LANGUAGE_SUPPORT;
+
+  private deepgram: DeepgramClient;
 
   // Deepgram supports a very wide range of audio formats
   private readonly DEEPGRAM_SUPPORTED_FORMATS = [
@@ -39,11 +81,37 @@ export class DeepgramService {
     'webm',
   ];
 
-  constructor(private configService: ConfigService) {
+  readonly supportedFormats = this.DEEPGRAM_SUPPORTED_FORMATS;
+
+  constructor(
+    private configService: ConfigService,
+    private providerRegistry: ProviderRegistryService,
+  ) {
     const apiKey = this.configService.get<string>('deepgram.apiKey');
     this.deepgram = createClient(apiKey);
   }
 
+  onModuleInit() {
+    this.providerRegistry.register(this);
+  }
+
+  // Deepgram bills by model
+  getBillingModel(options: ProviderTranscribeOptions): string {
+    return options.model || 'nova-3';
+  }
+
+  // The model is chosen with ?deepgramModel=; its languages are checked by
+  // LanguageService
+  async parseUploadSettings(
+    query: Record<string, unknown>,
+  ): Promise<ProviderUploadSettings> {
+    const { deepgramModel, ...options } = await parseOptionsDto(
+      DeepgramOptionsDto,
+      query,
+    );
+    return { options, model: deepgramModel || 'nova-3' };
+  }
+
   private isFormatSupported(fileName: string): boolean {
     const ext = fileName.split('.').pop()?.toLowerCase();
     return ext ? this.DEEPGRAM_SUPPORTED_FORMATS.includes(ext) : false;
@@ -52,9 +120,14 @@ export class DeepgramService {
   async transcribeFile(
     filePath: string,
     fileName: string,
-    languageCode: string = 'en',
-    model: string = 'nova-3',
-  ): Promise<any> {
+    options: ProviderTranscribeOptions,
+  ): Promise<TranscriptResult> {
+    const model = options.model || 'nova-3';
+    // Deepgram's code for the language ('vi-VN' -> 'vi')
+    const languageCode =
+      options.languageCode === AUTO_LANGUAGE
+        ? AUTO_LANGUAGE
+        : toDeepgramLanguage(options.languageCode || 'en-US', model);
     const startTime = Date.now();
 
     try {
@@ -64,13 +137,12 @@ export class DeepgramService {
         const endTime = Date.now();
         const duration = (endTime - startTime) / 1000;
 
-        return {
-          provider: 'Deepgram',
-          status: 'FAILED',
-          transcript: null,
-          error: `Unsupported format: ${ext}. Deepgram supports: ${this.DEEPGRAM_SUPPORTED_FORMATS.join(', ')}`,
-          duration: `${duration.toFixed(2)}s`,
-        };
+        return createFailedTranscriptResult(
+          this.id,
+          this.displayName,
+          `Unsupported format: ${ext}. Deepgram supports: ${this.DEEPGRAM_SUPPORTED_FORMATS.join(', ')}`,
+          duration,
+        );
       }
 
       const audioBuffer = fs.readFileSync(filePath);
@@ -78,31 +150,30 @@ export class DeepgramService {
         `[Deepgram] Transcribing file: ${fileName} (${audioBuffer.length} bytes)`,
       );
 
-      // Build transcription options
-      const options: any = {
-        model: model,
-        smart_format: true,
-        punctuate: true,
-        diarize: true, // Enable speaker diarization
-        paragraphs: true, // Enable paragraph grouping by speaker
-      };
+      // Build transcription options (defaults plus the job's options)
+      const deepgramOptions = (options.providerOptions ||
+        {}) as DeepgramOptions;
+      const requestOptions = buildDeepgramRequestOptions(
+        model,
+        languageCode,
+        deepgramOptions,
+      );
 
       console.log(`[Deepgram] Using model: ${model}`);
+      console.log(
+        languageCode === 'auto'
+          ? '[Deepgram] Using auto language detection'
+          : `[Deepgram] Using language: ${languageCode}`,
+      );
 
-      // Auto-detect language or use specified language
-      if (languageCode === 'auto') {
-        options.detect_language = true;
-        console.log('[Deepgram] Using auto language detection');
-      } else {
-        options.language = languageCode;
-        console.log(`[Deepgram] Using language: ${languageCode}`);
-      }
-
-      const { result, error } =
-        await this.deepgram.listen.prerecorded.transcribeFile(
+      // The SDK takes no AbortSignal - stop waiting when it fires
+      const { result, error } = await raceWithSignal(
+        this.deepgram.listen.prerecorded.transcribeFile(
           audioBuffer,
-          options,
-        );
+          requestOptions,
+        ),
+        options.signal,
+      );
 
       if (error) {
         throw error;
@@ -112,11 +183,24 @@ export class DeepgramService {
       const duration = (endTime - startTime) / 1000;
 
       // Safely access nested properties with null/undefined checks
-      const channel = result?.results?.channels?.[0];
+      const channels = result?.results?.channels || [];
+      const channel = channels[0];
       const alternative = channel?.alternatives?.[0];
-      const transcript = alternative?.transcript?.trim() || '';
+      // With multichannel every channel has its own alternative; they are
+      // merged and the channel index stands in for the speaker
+      const multichannel =
+        !!deepgramOptions.multichannel && channels.length > 1;
+      const alternatives: Partial<DeepgramAlternative>[] = multichannel
+        ? channels.map((c) => c.alternatives?.[0] || {})
+        : [alternative || {}];
+      const transcript = alternatives
+        .map((alt) => alt.transcript?.trim() || '')
+        .filter(Boolean)
+        .join('\n');
       const detectedLanguage = channel?.detected_language;
-      const confidence = alternative?.confidence || 0;
+      const confidence =
+        alternatives.reduce((sum, alt) => sum + (alt.confidence || 0), 0) /
+        alternatives.length;
 
       // Extract actual model used from metadata
       // model_info is an object with UUID as key, e.g.:
@@ -146,58 +230,102 @@ export class DeepgramService {
           alternativesLength: channel?.alternatives?.length,
           alternative: alternative,
         });
-        return {
-          provider: 'Deepgram',
-          status: 'FAILED',
-          transcript: null,
-          error: 'No transcript returned from Deepgram',
-          duration: `${duration.toFixed(2)}s`,
-        };
+        return createFailedTranscriptResult(
+          this.id,
+          this.displayName,
+          'No transcript returned from Deepgram',
+          duration,
+        );
       }
 
+      // Word-level tokens (punctuated_word is only present with punctuate/smart_format)
+      const words: TranscriptWord[] = alternatives
+        .flatMap((alt, index) =>
+          (alt.words || []).map((word) => ({
+            text: word.punctuated_word || word.word,
+            start: word.start,
+            end: word.end,
+            confidence: word.confidence ?? null,
+            speaker: word.speaker ?? (multichannel ? index : null),
+          })),
+        )
+        .sort((a, b) => a.start - b.start);
+
       // Parse speaker-separated paragraphs if available
-      const paragraphs = alternative?.paragraphs?.paragraphs || [];
-      const speakers = paragraphs.map((para: any) => ({
-        speaker: para.speaker !== undefined ? para.speaker : null,
-        text: para.sentences?.map((s: any) => s.text).join(' ') || '',
+      const paragraphs = alternatives.flatMap((alt, index) =>
+        (alt.paragraphs?.paragraphs || []).map((para) => ({
+          ...para,
+          speaker: para.speaker ?? (multichannel ? index : null),
+        })),
+      );
+      let segments: TranscriptSegment[] = paragraphs.map((para) => ({
+        speaker: para.speaker,
+        text: para.sentences?.map((s) => s.text).join(' ') || '',
         start: para.start,
         end: para.end,
-        numWords: para.num_words,
+        wordCount: para.num_words ?? 0,
       }));
 
+      // Fall back to utterances when paragraphs were turned off
+      const utterances = result?.results?.utterances || [];
+      if (segments.length === 0 && utterances.length > 0) {
+        segments = utterances.map((utterance) => ({
+          speaker:
+            utterance.speaker ?? (multichannel ? utterance.channel : null),
+          text: utterance.transcript,
+          start: utterance.start,
+          end: utterance.end,
+          wordCount: utterance.words?.length ?? 0,
+        }));
+      }
+      segments.sort((a, b) => a.start - b.start);
+
       console.log(
-        `[Deepgram] Transcription successful - Length: ${transcript.length} chars, Confidence: ${confidence.toFixed(2)}, Speakers: ${speakers.length} segments`,
+        `[Deepgram] Transcription successful - Length: ${transcript.length} chars, Confidence: ${confidence.toFixed(2)}, Speakers: ${segments.length} segments`,
       );
 
       return {
-        provider: 'Deepgram',
+        provider: this.displayName,
+        providerId: this.id,
         status: 'COMPLETED',
         transcript,
-        speakers: speakers.length > 0 ? speakers : null, // Speaker-separated segments
-        error: null,
-        duration: `${duration.toFixed(2)}s`,
+        words,
+        segments,
+        language:
+          detectedLanguage || (languageCode === 'auto' ? null : languageCode),
+        languageConfidence: channel?.language_confidence ?? null,
         confidence,
-        detectedLanguage: detectedLanguage || null,
         model: actualModel, // Actual model used by Deepgram
+        processingTime: duration,
+        audioDuration: result?.metadata?.duration ?? null,
+        error: null,
+        metadata: {
+          requestId: result?.metadata?.request_id ?? null,
+          channels: channels.length,
+        },
       };
     } catch (error) {
       const endTime = Date.now();
       const duration = (endTime - startTime) / 1000;
 
+      const message = options.signal?.aborted
+        ? abortMessage(options.signal)
+        : (error as Error).message;
+
       console.error('[Deepgram] Transcription failed:', {
         fileName,
-        error: error.message,
-        stack: error.stack,
+        error: message,
+        stack: (error as Error).stack,
         duration: `${duration.toFixed(2)}s`,
       });
 
-      return {
-        provider: 'Deepgram',
-        status: 'FAILED',
-        transcript: null,
-        error: error.message,
-        duration: `${duration.toFixed(2)}s`,
-      };
+      return createFailedTranscriptResult(
+        this.id,
+        this.displayName,
+        message,
+        duration,
+        options.signal?.aborted ? 'permanent' : classifyProviderError(error),
+      );
     }
   }
 }
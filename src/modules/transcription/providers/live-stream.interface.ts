@@ -0,0 +1,45 @@
+import { TranscriptWord } from './transcript-result.interface';
+
+// Audio the browser sends: raw 16-bit little-endian PCM or Ogg-wrapped Opus
+export type LiveAudioEncoding = 'pcm' | 'ogg-opus';
+
+export interface LiveStreamOptions {
+  languageCode: string; // BCP-47 code; live streams need an explicit language
+  encoding: LiveAudioEncoding;
+  sampleRate: number;
+  channels: number;
+  model?: string; // Only used by providers that support model selection
+}
+
+// One interim or final hypothesis; times are seconds from the stream start
+export interface LiveTranscriptEvent {
+  isFinal: boolean;
+  transcript: string;
+  start: number;
+  end: number;
+  confidence: number | null;
+  words: TranscriptWord[];
+}
+
+export interface LiveStreamHandlers {
+  onTranscript(event: LiveTranscriptEvent): void;
+  onError(error: Error): void;
+  onClose(): void; // Fired once, after the provider flushed its last result
+}
+
+export interface LiveProviderStream {
+  send(chunk: Buffer): void;
+  finish(): void; // Signal end of audio and let the provider flush finals
+  close(): void; // Drop the connection immediately
+}
+
+// Contract for engines that can transcribe audio as it is captured
+export interface LiveTranscriptionProvider {
+  readonly id: string; // Same id as the batch provider (e.g. 'aws')
+  readonly displayName: string;
+
+  openStream(
+    options: LiveStreamOptions,
+    handlers: LiveStreamHandlers,
+  ): Promise<LiveProviderStream>;
+}
@@ -0,0 +1,69 @@
+import { DeepgramApiError, DeepgramUnknownError } from '@deepgram/sdk';
+import { ProviderAbortedError } from './abort';
+import { classifyProviderError, getRetryDelay } from './provider-errors';
+
+describe('classifyProviderError', () => {
+  it('should treat rate limits, 5xx and network errors as transient', () => {
+    expect(classifyProviderError(new DeepgramApiError('slow down', 429))).toBe(
+      'transient',
+    );
+    expect(
+      classifyProviderError(
+        Object.assign(new Error('Rate exceeded'), {
+          name: 'LimitExceededException',
+        }),
+      ),
+    ).toBe('transient');
+    expect(
+      classifyProviderError(
+        Object.assign(new Error('Internal'), {
+          $metadata: { httpStatusCode: 503 },
+        }),
+      ),
+    ).toBe('transient');
+
+    // fetch failures are wrapped twice by the Deepgram SDK
+    const reset = Object.assign(new Error('socket hang up'), {
+      code: 'ECONNRESET',
+    });
+    expect(
+      classifyProviderError(
+        new DeepgramUnknownError(
+          'fetch failed',
+          new TypeError('fetch failed', { cause: reset }),
+        ),
+      ),
+    ).toBe('transient');
+  });
+
+  it('should treat client errors and cancellation as permanent', () => {
+    expect(classifyProviderError(new DeepgramApiError('bad key', 401))).toBe(
+      'permanent',
+    );
+    expect(
+      classifyProviderError(
+        Object.assign(new Error('Bad media'), { name: 'BadRequestException' }),
+      ),
+    ).toBe('permanent');
+    expect(
+      classifyProviderError(new ProviderAbortedError('Job was cancelled')),
+    ).toBe('permanent');
+    expect(classifyProviderError(undefined)).toBe('permanent');
+  });
+});
+
+describe('getRetryDelay', () => {
+  const policy = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+  it('should double the delay per retry up to the maximum', () => {
+    const max = () => 1;
+    expect(getRetryDelay(1, policy, max)).toBe(1000);
+    expect(getRetryDelay(2, policy, max)).toBe(2000);
+    expect(getRetryDelay(3, policy, max)).toBe(4000);
+    expect(getRetryDelay(4, policy, max)).toBe(5000);
+  });
+
+  it('should jitter down to half the delay', () => {
+    expect(getRetryDelay(2, policy, () => 0)).toBe(1000);
+  });
+});
@@ -0,0 +1,99 @@
+import { ProviderAbortedError } from './abort';
+
+// Transient failures (rate limits, 5xx, dropped connections) are worth
+// retrying; anything else (bad credentials, unsupported audio, cancellation)
+// fails the same way on every attempt.
+export type ProviderErrorType = 'transient' | 'permanent';
+
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first call; 1 disables retries
+  baseDelayMs: number; // Delay before the first retry, doubled per retry
+  maxDelayMs: number;
+}
+
+const TRANSIENT_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+const TRANSIENT_NETWORK_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+];
+
+// AWS SDK error names for throttling and service-side failures
+const TRANSIENT_AWS_ERRORS = [
+  'ThrottlingException',
+  'LimitExceededException',
+  'TooManyRequestsException',
+  'InternalFailureException',
+  'ServiceUnavailableException',
+  'SlowDown',
+  'RequestTimeout',
+  'TimeoutError',
+];
+
+// Fields that SDK, fetch and Node errors use to describe the failure
+interface ErrorDetails {
+  status?: unknown;
+  statusCode?: unknown;
+  $metadata?: { httpStatusCode?: number };
+  $retryable?: unknown;
+  name?: string;
+  code?: string;
+  message?: string;
+  originalError?: unknown;
+  cause?: unknown;
+}
+
+// Classify an error thrown by a provider SDK or fetch. Wrapped errors
+// (Deepgram's originalError, fetch's cause) are checked as well.
+export function classifyProviderError(error: unknown): ProviderErrorType {
+  if (error instanceof ProviderAbortedError) return 'permanent';
+
+  let current = error as ErrorDetails | undefined;
+  for (let depth = 0; current && depth < 5; depth++) {
+    const status: unknown =
+      current.status ?? current.statusCode ?? current.$metadata?.httpStatusCode;
+    if (typeof status === 'number' && TRANSIENT_STATUS_CODES.includes(status)) {
+      return 'transient';
+    }
+    if (
+      current.$retryable ||
+      TRANSIENT_AWS_ERRORS.includes(current.name ?? '')
+    ) {
+      return 'transient';
+    }
+    if (TRANSIENT_NETWORK_CODES.includes(current.code ?? '')) {
+      return 'transient';
+    }
+    // Node's fetch rejects with a bare 'fetch failed' on network errors
+    if (current.name === 'TypeError' && current.message === 'fetch failed') {
+      return 'transient';
+    }
+
+    current = (current.originalError ?? current.cause) as
+      ErrorDetails | undefined;
+  }
+
+  return 'permanent';
+}
+
+// Exponential backoff with jitter: the n-th retry waits between half and
+// all of baseDelayMs * 2^(n-1), capped at maxDelayMs
+export function getRetryDelay(
+  retry: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random,
+): number {
+  const delay = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (retry - 1),
+  );
+  return Math.round(delay / 2 + (random() * delay) / 2);
+}
@@ -0,0 +1,49 @@
+import { Injectable } from '@nestjs/common';
+import { TranscriptionProvider } from './transcription-provider.interface';
+import { LiveTranscriptionProvider } from './live-stream.interface';
+
+@Injectable()
+export class ProviderRegistryService {
+  private providers: Map<string, TranscriptionProvider> = new Map();
+  private liveProviders: Map<string, LiveTranscriptionProvider> = new Map();
+
+  // Called by each provider service on module init
+  register(provider: TranscriptionProvider): void {
+    if (this.providers.has(provider.id)) {
+      throw new Error(`Provider "${provider.id}" is already registered`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: string): TranscriptionProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  getAll(): TranscriptionProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  getIds(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  // Streaming engines are registered separately from batch providers
+  registerLive(provider: LiveTranscriptionProvider): void {
+    if (this.liveProviders.has(provider.id)) {
+      throw new Error(`Live provider "${provider.id}" is already registered`);
+    }
+    this.liveProviders.set(provider.id, provider);
+  }
+
+  getLive(id: string): LiveTranscriptionProvider | undefined {
+    return this.liveProviders.get(id);
+  }
+
+  getLiveIds(): string[] {
+    return Array.from(this.liveProviders.keys());
+  }
+}
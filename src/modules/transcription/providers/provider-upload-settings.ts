@@ -0,0 +1,31 @@
+import { ClassConstructor, plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+
+// Query parameters a provider rejected; the message is meant for the client
+export class ProviderOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderOptionsError';
+  }
+}
+
+// Validate the query against a provider's options DTO. Parameters of other
+// providers are ignored and only those that were given are returned.
+export async function parseOptionsDto<T extends object>(
+  dtoClass: ClassConstructor<T>,
+  query: Record<string, unknown>,
+): Promise<Partial<T>> {
+  const dto = plainToInstance(dtoClass, query);
+  const errors = await validate(dto, { whitelist: true });
+  if (errors.length > 0) {
+    throw new ProviderOptionsError(
+      errors
+        .flatMap((error) => Object.values(error.constraints ?? {}))
+        .join('; '),
+    );
+  }
+
+  return Object.fromEntries(
+    Object.entries(dto).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+}
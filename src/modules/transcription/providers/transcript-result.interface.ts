@@ -0,0 +1,113 @@
+// Normalized result shape every provider maps its response into.
+// All timings are numbers in seconds; speakers are zero-based numbers.
+
+import type { ProviderErrorType } from './provider-errors';
+
+export type TranscriptStatus = 'COMPLETED' | 'FAILED';
+
+export interface TranscriptWord {
+  text: string; // Punctuated form as displayed in the transcript
+  start: number;
+  end: number;
+  confidence: number | null;
+  speaker: number | null;
+}
+
+export interface TranscriptSegment {
+  speaker: number | null;
+  text: string;
+  start: number;
+  end: number;
+  wordCount: number;
+}
+
+export interface TranscriptResult {
+  provider: string; // Display name, e.g. 'AWS Transcribe'
+  providerId: string; // Registry id, e.g. 'aws'
+  status: TranscriptStatus;
+  transcript: string | null;
+  words: TranscriptWord[];
+  segments: TranscriptSegment[]; // Speaker-separated segments
+  language: string | null; // Language used or detected by the provider
+  languageConfidence: number | null;
+  confidence: number | null; // Overall transcript confidence (0-1)
+  model: string | null;
+  processingTime: number; // Wall-clock seconds spent in the provider
+  audioDuration: number | null; // Seconds of audio, when the provider reports it
+  error: string | null;
+  errorType?: ProviderErrorType; // Failed results only: whether a retry may help
+  metadata: Record<string, unknown>; // Provider-specific extras (job name, etc.)
+  // Set when the job's post-processing rules ran: the provider's own text,
+  // words and segments, and how many replacements the rules made
+  rawTranscript?: string | null;
+  rawWords?: TranscriptWord[];
+  rawSegments?: TranscriptSegment[];
+  postProcessing?: TranscriptPostProcessing;
+}
+
+export interface TranscriptPostProcessing {
+  rules: string[]; // Rule ids, in the order they were applied
+  replacements: number;
+}
+
+export function createFailedTranscriptResult(
+  providerId: string,
+  provider: string,
+  error: string,
+  processingTime: number,
+  errorType: ProviderErrorType = 'permanent',
+): TranscriptResult {
+  return {
+    provider,
+    providerId,
+    status: 'FAILED',
+    transcript: null,
+    words: [],
+    segments: [],
+    language: null,
+    languageConfidence: null,
+    confidence: null,
+    model: null,
+    processingTime,
+    audioDuration: null,
+    error,
+    errorType,
+    metadata: {},
+  };
+}
+
+// Build segments from runs of consecutive words with the same speaker, for
+// providers that label words but return no segments
+export function groupWordsBySpeaker(
+  words: TranscriptWord[],
+): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+
+  for (const word of words) {
+    const current = segments[segments.length - 1];
+    if (current && current.speaker === word.speaker) {
+      current.text += ` ${word.text}`;
+      current.end = word.end;
+      current.wordCount++;
+    } else {
+      segments.push({
+        speaker: word.speaker,
+        text: word.text,
+        start: word.start,
+        end: word.end,
+        wordCount: 1,
+      });
+    }
+  }
+
+  return segments;
+}
+
+// Mean word confidence, ignoring words without a score
+export function averageWordConfidence(words: TranscriptWord[]): number | null {
+  const scored = words.filter((word) => word.confidence !== null);
+  if (scored.length === 0) return null;
+
+  const total = scored.reduce((sum, word) => sum + (word.confidence ?? 0), 0);
+  return total / scored.length;
+}
@@ -0,0 +1,55 @@
+import { TranscriptResult } from './transcript-result.interface';
+
+// Feature flags a provider advertises so callers can decide what to send it
+export interface ProviderCapabilities {
+  languageDetection: boolean; // Accepts languageCode 'auto'
+  diarization: boolean; // Returns speaker-separated segments
+  modelSelection: boolean; // Honours the `model` option
+}
+
+// Languages a provider accepts, as canonical BCP-47 codes in the spelling
+// the provider expects (see language/language-codes.ts)
+export interface ProviderLanguageSupport {
+  languages: readonly string[]; // Every language of every model
+  // Languages per model for providers with modelSelection; other models
+  // are rejected
+  models?: Readonly<Record<string, readonly string[]>>;
+}
+
+export interface ProviderTranscribeOptions {
+  languageCode: string; // BCP-47 code (e.g. en-US) or 'auto'
+  model?: string; // Only used by providers with modelSelection
+  signal?: AbortSignal; // Aborted on job cancellation or provider timeout
+  providerOptions?: Record<string, unknown>; // The job's options for this provider
+}
+
+// What a provider keeps from its query parameters on the upload routes
+export interface ProviderUploadSettings {
+  options?: Record<string, unknown>; // Saved in the job's providerOptions
+  model?: string; // Saved in the job's models (providers with modelSelection)
+}
+
+// Common contract implemented by every speech-to-text engine
+export interface TranscriptionProvider {
+  readonly id: string; // Key used in routes and providerResults (e.g. 'aws')
+  readonly displayName: string;
+  readonly supportedFormats: readonly string[]; // Lower-case file extensions
+  readonly capabilities: ProviderCapabilities;
+  readonly languageSupport: ProviderLanguageSupport;
+
+  transcribeFile(
+    filePath: string,
+    fileName: string,
+    options: ProviderTranscribeOptions,
+  ): Promise<TranscriptResult>;
+
+  // Price table key for a call with these options (e.g. 'nova-3')
+  getBillingModel(options: ProviderTranscribeOptions): string;
+
+  // Read and check this provider's query parameters on the upload routes;
+  // throws ProviderOptionsError. Providers without it take no options.
+  parseUploadSettings?(
+    query: Record<string, unknown>,
+    languageCode: string,
+  ): Promise<ProviderUploadSettings>;
+}
@@ -0,0 +1,111 @@
+import { ConfigService } from '@nestjs/config';
+import { JobPriority } from '../job-manager.service';
+import { ProviderAbortedError } from '../providers/abort';
+import { ProviderQueueService, QueueTicket } from './provider-queue.service';
+
+describe('ProviderQueueService', () => {
+  let queue: ProviderQueueService;
+  let started: string[];
+  let finish: Map<string, () => void>;
+
+  beforeEach(() => {
+    queue = new ProviderQueueService(
+      new ConfigService({ deepgram: { maxConcurrent: 1 } }),
+    );
+    started = [];
+    finish = new Map();
+  });
+
+  // Queue a call that stays running until finish.get(jobId)() is called
+  const submit = (
+    ticket: Omit<QueueTicket, 'providerId'>,
+    signal?: AbortSignal,
+  ) =>
+    queue.run(
+      { providerId: 'deepgram', ...ticket },
+      () =>
+        new Promise<void>((resolve) => {
+          started.push(ticket.jobId!);
+          finish.set(ticket.jobId!, resolve);
+        }),
+      signal,
+    );
+
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  const complete = async (jobId: string) => {
+    finish.get(jobId)!();
+    await flush();
+  };
+
+  it('should limit concurrent calls and report queue positions', async () => {
+    void submit({ jobId: 'a' });
+    void submit({ jobId: 'b' });
+    void submit({ jobId: 'c' });
+    await flush();
+
+    expect(started).toEqual(['a']);
+    expect(queue.getPositions('c')).toEqual({ deepgram: 2 });
+    expect(queue.getStats('deepgram')).toEqual({
+      maxConcurrent: 1,
+      running: 1,
+      waiting: 2,
+    });
+
+    await complete('a');
+    expect(started).toEqual(['a', 'b']);
+    expect(queue.getPositions('c')).toEqual({ deepgram: 1 });
+    expect(queue.getPositions('b')).toEqual({});
+  });
+
+  it('should start higher priorities first', async () => {
+    void submit({ jobId: 'running' });
+    void submit({ jobId: 'low', priority: JobPriority.LOW });
+    void submit({ jobId: 'normal' });
+    void submit({ jobId: 'high', priority: JobPriority.HIGH });
+    await flush();
+
+    await complete('running');
+    await complete('high');
+    await complete('normal');
+    expect(started).toEqual(['running', 'high', 'normal', 'low']);
+  });
+
+  it('should alternate between clients', async () => {
+    for (const jobId of ['a1', 'a2', 'a3']) {
+      void submit({ jobId, clientId: 'a' });
+    }
+    void submit({ jobId: 'b1', clientId: 'b' });
+    void submit({ jobId: 'b2', clientId: 'b' });
+    await flush();
+
+    expect(queue.getPositions('b1')).toEqual({ deepgram: 1 });
+    expect(queue.getPositions('a3')).toEqual({ deepgram: 4 });
+
+    for (const jobId of ['a1', 'b1', 'a2', 'b2']) {
+      await complete(jobId);
+    }
+    expect(started).toEqual(['a1', 'b1', 'a2', 'b2', 'a3']);
+
+    // Idle clients leave the rotation
+    await complete('a3');
+    expect(queue['lastServed'].size).toBe(0);
+  });
+
+  it('should drop waiting calls when their signal aborts', async () => {
+    const controller = new AbortController();
+    void submit({ jobId: 'a' });
+    const waiting = submit({ jobId: 'b' }, controller.signal);
+
+    controller.abort(new Error('Job was cancelled'));
+    await expect(waiting).rejects.toThrow(ProviderAbortedError);
+    await expect(waiting).rejects.toThrow('Job was cancelled');
+    expect(queue.getStats('deepgram').waiting).toBe(0);
+    expect(queue.getPositions('b')).toEqual({});
+
+    controller.abort();
+    await expect(submit({ jobId: 'c' }, controller.signal)).rejects.toThrow(
+      ProviderAbortedError,
+    );
+  });
+});
@@ -0,0 +1,252 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JobPriority } from '../job-manager.service';
+import { abortMessage, ProviderAbortedError } from '../providers/abort';
+
+// Limits how many calls each provider gets at once (`<providerId>.maxConcurrent`
+// in configuration.ts, 0 = unlimited). Waiting calls are dispatched by
+// priority, then round-robin across clients, then in arrival order, so one
+// client uploading 50 files doesn't starve everyone else.
+
+export interface QueueTicket {
+  providerId: string;
+  jobId?: string;
+  clientId?: string;
+  priority?: JobPriority;
+}
+
+export interface ProviderQueueStats {
+  maxConcurrent: number | null; // null when unlimited
+  running: number;
+  waiting: number;
+}
+
+interface WaitingCall {
+  ticket: QueueTicket;
+  seq: number;
+  start: () => void;
+}
+
+interface ProviderQueue {
+  waiting: WaitingCall[];
+  running: number;
+  runningByClient: Map<string, number>;
+}
+
+const PRIORITY_RANK: Record<JobPriority, number> = {
+  [JobPriority.HIGH]: 2,
+  [JobPriority.NORMAL]: 1,
+  [JobPriority.LOW]: 0,
+};
+
+// Calls without a client id share one slot in the rotation
+const ANONYMOUS_CLIENT = '';
+
+@Injectable()
+export class ProviderQueueService {
+  private queues = new Map<string, ProviderQueue>();
+  // Dispatch sequence of each client's most recent call, for round-robin.
+  // Clients are forgotten once nothing of theirs is waiting or running.
+  private lastServed = new Map<string, number>();
+  // 1-based position of each waiting job by provider, built on demand and
+  // cleared whenever a queue changes
+  private positions = new Map<string, Map<string, number>>();
+  private seq = 0;
+
+  constructor(private configService: ConfigService) {}
+
+  // Run `task` once the provider has a free slot. Rejects with the signal's
+  // reason if it aborts while the call is still waiting.
+  async run<T>(
+    ticket: QueueTicket,
+    task: () => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    await this.acquire(ticket, signal);
+    try {
+      return await task();
+    } finally {
+      this.release(ticket);
+    }
+  }
+
+  // 1-based position of each of the job's waiting calls, keyed by provider
+  getPositions(jobId: string): Record<string, number> {
+    const positions: Record<string, number> = {};
+    for (const [providerId, queue] of this.queues) {
+      const position = this.getJobPositions(providerId, queue).get(jobId);
+      if (position !== undefined) positions[providerId] = position;
+    }
+    return positions;
+  }
+
+  getStats(providerId: string): ProviderQueueStats {
+    const queue = this.queues.get(providerId);
+    return {
+      maxConcurrent: this.getLimit(providerId),
+      running: queue?.running ?? 0,
+      waiting: queue?.waiting.length ?? 0,
+    };
+  }
+
+  private acquire(ticket: QueueTicket, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new ProviderAbortedError(abortMessage(signal)));
+    }
+
+    const queue = this.getQueue(ticket.providerId);
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        queue.waiting = queue.waiting.filter((entry) => entry !== call);
+        this.positions.clear();
+        this.forgetIfIdle(ticket.clientId ?? ANONYMOUS_CLIENT);
+        reject(
+          new ProviderAbortedError(signal ? abortMessage(signal) : 'Aborted'),
+        );
+      };
+      const call: WaitingCall = {
+        ticket,
+        seq: this.seq++,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      queue.waiting.push(call);
+      this.dispatch(ticket.providerId);
+    });
+  }
+
+  private release(ticket: QueueTicket): void {
+    const queue = this.getQueue(ticket.providerId);
+    const clientId = ticket.clientId ?? ANONYMOUS_CLIENT;
+    const running = (queue.runningByClient.get(clientId) ?? 1) - 1;
+
+    queue.running--;
+    if (running > 0) {
+      queue.runningByClient.set(clientId, running);
+    } else {
+      queue.runningByClient.delete(clientId);
+      this.forgetIfIdle(clientId);
+    }
+    this.dispatch(ticket.providerId);
+  }
+
+  // Start waiting calls while the provider has free slots
+  private dispatch(providerId: string): void {
+    const queue = this.getQueue(providerId);
+    const limit = this.getLimit(providerId);
+    this.positions.clear();
+
+    while (queue.waiting.length > 0 && (!limit || queue.running < limit)) {
+      const next = this.pickNext(
+        queue.waiting,
+        queue.runningByClient,
+        this.lastServed,
+      );
+      const clientId = next.ticket.clientId ?? ANONYMOUS_CLIENT;
+
+      queue.waiting = queue.waiting.filter((call) => call !== next);
+      queue.running++;
+      queue.runningByClient.set(
+        clientId,
+        (queue.runningByClient.get(clientId) ?? 0) + 1,
+      );
+      this.lastServed.set(clientId, this.seq++);
+      next.start();
+    }
+  }
+
+  private getJobPositions(
+    providerId: string,
+    queue: ProviderQueue,
+  ): Map<string, number> {
+    let positions = this.positions.get(providerId);
+    if (!positions) {
+      positions = new Map();
+      for (const [index, call] of this.dispatchOrder(queue).entries()) {
+        const jobId = call.ticket.jobId;
+        if (jobId && !positions.has(jobId)) positions.set(jobId, index + 1);
+      }
+      this.positions.set(providerId, positions);
+    }
+    return positions;
+  }
+
+  // Drop the client's round-robin entry once it has no waiting or running
+  // calls with any provider
+  private forgetIfIdle(clientId: string): void {
+    for (const queue of this.queues.values()) {
+      if (
+        queue.runningByClient.has(clientId) ||
+        queue.waiting.some(
+          (call) => (call.ticket.clientId ?? ANONYMOUS_CLIENT) === clientId,
+        )
+      ) {
+        return;
+      }
+    }
+    this.lastServed.delete(clientId);
+  }
+
+  // Order in which the waiting calls would start if no new ones arrived
+  private dispatchOrder(queue: ProviderQueue): WaitingCall[] {
+    const waiting = [...queue.waiting];
+    const runningByClient = new Map(queue.runningByClient);
+    const lastServed = new Map(this.lastServed);
+    const order: WaitingCall[] = [];
+
+    for (let seq = this.seq; waiting.length > 0; seq++) {
+      const next = this.pickNext(waiting, runningByClient, lastServed);
+      const clientId = next.ticket.clientId ?? ANONYMOUS_CLIENT;
+
+      waiting.splice(waiting.indexOf(next), 1);
+      runningByClient.set(clientId, (runningByClient.get(clientId) ?? 0) + 1);
+      lastServed.set(clientId, seq);
+      order.push(next);
+    }
+    return order;
+  }
+
+  // Highest priority first; within a priority the client with the fewest
+  // running calls, then the one served longest ago, then the oldest call
+  private pickNext(
+    waiting: WaitingCall[],
+    runningByClient: Map<string, number>,
+    lastServed: Map<string, number>,
+  ): WaitingCall {
+    const sortKey = (call: WaitingCall) => {
+      const clientId = call.ticket.clientId ?? ANONYMOUS_CLIENT;
+      return [
+        -PRIORITY_RANK[call.ticket.priority ?? JobPriority.NORMAL],
+        runningByClient.get(clientId) ?? 0,
+        lastServed.get(clientId) ?? -1,
+        call.seq,
+      ];
+    };
+
+    return waiting.reduce((best, call) => {
+      const a = sortKey(call);
+      const b = sortKey(best);
+      const index = a.findIndex((value, i) => value !== b[i]);
+      return index >= 0 && a[index] < b[index] ? call : best;
+    });
+  }
+
+  private getQueue(providerId: string): ProviderQueue {
+    let queue = this.queues.get(providerId);
+    if (!queue) {
+      queue = { waiting: [], running: 0, runningByClient: new Map() };
+      this.queues.set(providerId, queue);
+    }
+    return queue;
+  }
+
+  private getLimit(providerId: string): number | null {
+    return (
+      this.configService.get<number>(`${providerId}.maxConcurrent`) || null
+    );
+  }
+}
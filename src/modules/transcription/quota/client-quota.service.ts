@@ -0,0 +1,171 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ApiClient, ClientQuotas } from '../../auth/api-client.interface';
+import { UsageLedgerService } from '../usage/usage-ledger.service';
+import {
+  getQuotaError,
+  getQuotaUsage,
+  QUOTA_WINDOW_MS,
+  QuotaExceededError,
+  QuotaRecord,
+  QuotaUsage,
+} from './client-quota';
+
+// Keeps the quota ledger: every accepted audio file and live session of the
+// last day, saved to a JSON file so restarts don't reset anyone's quota.
+@Injectable()
+export class ClientQuotaService implements OnModuleInit {
+  private records: QuotaRecord[] = [];
+
+  constructor(
+    private configService: ConfigService,
+    private usageLedger: UsageLedgerService,
+  ) {}
+
+  // A missing file is treated as empty; it is created with the first upload
+  onModuleInit() {
+    const filePath = this.getFilePath();
+    if (!filePath || !fs.existsSync(filePath)) return;
+
+    let records: QuotaRecord[];
+    try {
+      records = JSON.parse(fs.readFileSync(filePath, 'utf8')) as QuotaRecord[];
+    } catch {
+      throw new Error(`Failed to load quota ledger ${filePath}: invalid JSON`);
+    }
+    if (!Array.isArray(records)) {
+      throw new Error(
+        `Failed to load quota ledger ${filePath}: expected an array`,
+      );
+    }
+
+    this.records = records.map((record) => ({
+      ...record,
+      createdAt: new Date(record.createdAt),
+    }));
+    console.log(`[Quota] Loaded ${this.records.length} upload record(s)`);
+  }
+
+  getStatus(client: ApiClient): { quotas: ClientQuotas; usage: QuotaUsage } {
+    return { quotas: client.quotas, usage: this.getUsage(client) };
+  }
+
+  // Check the quotas and count the audio files in one synchronous step, so
+  // concurrent uploads can't all pass the check before their jobs exist.
+  // `audioSeconds` holds the probed length of each file (null if unknown).
+  // Throws QuotaExceededError; without auth there are no quotas.
+  reserve(
+    client: ApiClient | undefined,
+    audioSeconds: (number | null)[],
+  ): QuotaRecord[] {
+    if (!client) return [];
+
+    const error = getQuotaError(
+      client.quotas,
+      this.getUsage(client),
+      audioSeconds.length,
+      audioSeconds.reduce<number>((sum, seconds) => sum + (seconds ?? 0), 0),
+    );
+    if (error) {
+      console.warn(`[Quota] Rejected upload from ${client.id}: ${error}`);
+      throw new QuotaExceededError(error);
+    }
+
+    const createdAt = new Date();
+    const records = audioSeconds.map((seconds) => ({
+      clientId: client.id,
+      audioSeconds: seconds,
+      createdAt,
+    }));
+    this.records.push(...records);
+    this.save();
+    return records;
+  }
+
+  // Link reserved files to their jobs, in the same order, so the lengths
+  // providers report count when a file couldn't be probed
+  assignJobs(records: QuotaRecord[], jobIds: string[]): void {
+    if (records.length === 0) return;
+
+    records.forEach((record, i) => (record.jobId = jobIds[i]));
+    this.save();
+  }
+
+  // Start counting a live session against the audio minutes. Throws
+  // QuotaExceededError when none are left today.
+  reserveLive(client: ApiClient | undefined): QuotaRecord | null {
+    if (!client) return null;
+
+    const error = this.getLiveQuotaError(client);
+    if (error) {
+      console.warn(`[Quota] Rejected live session from ${client.id}: ${error}`);
+      throw new QuotaExceededError(error);
+    }
+
+    const record: QuotaRecord = {
+      clientId: client.id,
+      audioSeconds: 0,
+      live: true,
+      createdAt: new Date(),
+    };
+    this.records.push(record);
+    this.save();
+    return record;
+  }
+
+  // Count the audio a live session streamed so far. Returns why the
+  // session has to stop, or null while the client is within its quota.
+  // The ledger file is only written by finishLive.
+  updateLive(
+    client: ApiClient,
+    record: QuotaRecord,
+    audioSeconds: number,
+  ): string | null {
+    record.audioSeconds = audioSeconds;
+    return this.getLiveQuotaError(client);
+  }
+
+  finishLive(record: QuotaRecord, audioSeconds: number): void {
+    record.audioSeconds = audioSeconds;
+    this.save();
+  }
+
+  private getLiveQuotaError(client: ApiClient): string | null {
+    const { audioMinutesPerDay } = client.quotas;
+    const { audioMinutesToday } = this.getUsage(client);
+    if (audioMinutesPerDay <= 0 || audioMinutesToday < audioMinutesPerDay) {
+      return null;
+    }
+    return `Audio quota exceeded: ${Math.ceil(audioMinutesToday)} of ${audioMinutesPerDay} minutes used today`;
+  }
+
+  private getUsage(client: ApiClient): QuotaUsage {
+    return getQuotaUsage(
+      this.records.filter((record) => record.clientId === client.id),
+      this.usageLedger.list(client.id),
+    );
+  }
+
+  // Records that can no longer count are dropped on every write
+  private save(): void {
+    const cutoff = Date.now() - QUOTA_WINDOW_MS;
+    this.records = this.records.filter(
+      (record) => record.createdAt.getTime() > cutoff,
+    );
+
+    const filePath = this.getFilePath();
+    if (!filePath) return;
+
+    // Write to a temp file first so a crash never leaves a partial file
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.records, null, 2));
+    fs.renameSync(tempPath, filePath);
+  }
+
+  private getFilePath(): string {
+    return this.configService.get<string>('quota.ledgerFile') || '';
+  }
+}
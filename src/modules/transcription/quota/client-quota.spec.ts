@@ -0,0 +1,166 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ApiClient } from '../../auth/api-client.interface';
+import { UsageLedgerService } from '../usage/usage-ledger.service';
+import {
+  getQuotaError,
+  getQuotaUsage,
+  QuotaExceededError,
+  QuotaRecord,
+} from './client-quota';
+import { ClientQuotaService } from './client-quota.service';
+
+describe('getQuotaUsage', () => {
+  const now = new Date('2025-03-10T12:00:00Z');
+  const record = (
+    jobId: string,
+    createdAt: string,
+    audioSeconds: number | null,
+  ): QuotaRecord => ({
+    clientId: 'team-a',
+    jobId,
+    audioSeconds,
+    createdAt: new Date(createdAt),
+  });
+  const call = (jobId: string, provider: string, audioSeconds: number) => ({
+    jobId,
+    provider,
+    usage: {
+      model: 'standard',
+      audioSeconds,
+      billedSeconds: audioSeconds,
+      estimatedCost: null,
+    },
+    completedAt: now,
+  });
+
+  it('should count uploads in the last hour and audio since midnight UTC', () => {
+    const usage = getQuotaUsage(
+      [
+        record('recent', '2025-03-10T11:30:00Z', 120),
+        // Not probed: the longest length a provider reported counts
+        record('morning', '2025-03-10T08:00:00Z', null),
+        record('yesterday', '2025-03-09T23:59:00Z', 600),
+      ],
+      [call('morning', 'aws', 60), call('morning', 'deepgram', 61.5)],
+      now,
+    );
+
+    expect(usage).toEqual({ uploadsLastHour: 1, audioMinutesToday: 3.025 });
+  });
+});
+
+describe('ClientQuotaService', () => {
+  const client: ApiClient = {
+    id: 'team-a',
+    admin: false,
+    quotas: { uploadsPerHour: 2, audioMinutesPerDay: 0 },
+  };
+  let directory: string;
+
+  const createService = () => {
+    const config = new ConfigService({
+      quota: { ledgerFile: path.join(directory, 'quota.json') },
+    });
+    const service = new ClientQuotaService(
+      config,
+      new UsageLedgerService(config),
+    );
+    service.onModuleInit();
+    return service;
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'quota-ledger-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should count uploads as they are reserved and keep them on restart', () => {
+    const quota = createService();
+    quota.assignJobs(quota.reserve(client, [30]), ['job-1']);
+    quota.reserve(client, [null]);
+
+    // Both were counted before either job finished, or even existed
+    expect(() => quota.reserve(client, [10])).toThrow(QuotaExceededError);
+    expect(createService().getStatus(client).usage).toEqual({
+      uploadsLastHour: 2,
+      audioMinutesToday: 0.5,
+    });
+    expect(() => createService().reserve(client, [10])).toThrow(
+      QuotaExceededError,
+    );
+  });
+
+  it('should not count anything without auth', () => {
+    expect(createService().reserve(undefined, [30, 60])).toEqual([]);
+    expect(createService().reserveLive(undefined)).toBeNull();
+  });
+
+  it('should count live audio towards the audio minutes only', () => {
+    const limited = {
+      ...client,
+      quotas: { uploadsPerHour: 1, audioMinutesPerDay: 1 },
+    };
+    const quota = createService();
+    const session = quota.reserveLive(limited)!;
+
+    expect(quota.updateLive(limited, session, 45)).toBeNull();
+    expect(quota.updateLive(limited, session, 60)).toContain(
+      'Audio quota exceeded',
+    );
+    quota.finishLive(session, 61);
+
+    expect(createService().getStatus(limited).usage).toEqual({
+      uploadsLastHour: 0,
+      audioMinutesToday: 61 / 60,
+    });
+    expect(() => createService().reserveLive(limited)).toThrow(
+      QuotaExceededError,
+    );
+  });
+});
+
+describe('getQuotaError', () => {
+  const quotas = { uploadsPerHour: 10, audioMinutesPerDay: 60 };
+
+  it('should allow uploads within both quotas', () => {
+    expect(
+      getQuotaError(
+        quotas,
+        { uploadsLastHour: 9, audioMinutesToday: 50 },
+        1,
+        600,
+      ),
+    ).toBeNull();
+  });
+
+  it('should reject uploads over either quota', () => {
+    expect(
+      getQuotaError(quotas, { uploadsLastHour: 9, audioMinutesToday: 0 }, 2, 0),
+    ).toMatch(/^Upload quota exceeded/);
+    expect(
+      getQuotaError(
+        quotas,
+        { uploadsLastHour: 0, audioMinutesToday: 50 },
+        1,
+        601,
+      ),
+    ).toMatch(/^Audio quota exceeded/);
+  });
+
+  it('should treat 0 as unlimited', () => {
+    expect(
+      getQuotaError(
+        { uploadsPerHour: 0, audioMinutesPerDay: 0 },
+        { uploadsLastHour: 1000, audioMinutesToday: 1000 },
+        1,
+        60,
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import { ClientQuotas } from '../../auth/api-client.interface';
+import { UsageRecord } from '../usage/usage-ledger.service';
+
+// Upload quotas of an API client, counted from the quota ledger: audio files
+// in the last hour and audio minutes since midnight UTC. Uploads are
+// recorded when they are accepted, so cancelling or purging jobs doesn't
+// free any quota. Live sessions only count towards the audio minutes.
+
+// One accepted audio file (a single upload or one file of a batch), or one
+// live session
+export interface QuotaRecord {
+  clientId: string;
+  jobId?: string; // Set once the job is created
+  audioSeconds: number | null; // Probed length, null without ffprobe
+  live?: boolean; // Audio streamed so far by a live session
+  createdAt: Date;
+}
+
+export interface QuotaUsage {
+  uploadsLastHour: number;
+  audioMinutesToday: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Records older than this never count towards either quota
+export const QUOTA_WINDOW_MS = 24 * HOUR_MS;
+
+export function getQuotaUsage(
+  records: QuotaRecord[], // The client's records
+  usage: UsageRecord[], // The client's provider calls
+  now: Date = new Date(),
+): QuotaUsage {
+  const hourAgo = now.getTime() - HOUR_MS;
+  const midnight = Date.UTC(
+    now.getUTCFullYear(),
+    now.getUTCMonth(),
+    now.getUTCDate(),
+  );
+
+  return {
+    uploadsLastHour: records.filter(
+      (record) => !record.live && record.createdAt.getTime() > hourAgo,
+    ).length,
+    audioMinutesToday:
+      records
+        .filter((record) => record.createdAt.getTime() >= midnight)
+        .reduce((sum, record) => sum + getAudioSeconds(record, usage), 0) / 60,
+  };
+}
+
+// Why a new upload of `files` audio files totalling `audioSeconds` would
+// exceed the quotas, or null when it fits
+export function getQuotaError(
+  quotas: ClientQuotas,
+  usage: QuotaUsage,
+  files: number,
+  audioSeconds: number,
+): string | null {
+  if (
+    quotas.uploadsPerHour > 0 &&
+    usage.uploadsLastHour + files > quotas.uploadsPerHour
+  ) {
+    return `Upload quota exceeded: ${usage.uploadsLastHour} of ${quotas.uploadsPerHour} files used in the last hour`;
+  }
+  if (
+    quotas.audioMinutesPerDay > 0 &&
+    usage.audioMinutesToday + audioSeconds / 60 > quotas.audioMinutesPerDay
+  ) {
+    return `Audio quota exceeded: ${Math.ceil(usage.audioMinutesToday)} of ${quotas.audioMinutesPerDay} minutes used today, this upload adds ${Math.ceil(audioSeconds / 60)}`;
+  }
+  return null;
+}
+
+// Probed length of the upload, or the longest length a provider reported
+// when ffprobe is not available
+function getAudioSeconds(record: QuotaRecord, usage: UsageRecord[]): number {
+  if (record.audioSeconds !== null) return record.audioSeconds;
+
+  return Math.max(
+    0,
+    ...usage
+      .filter((call) => call.jobId === record.jobId)
+      .map((call) => call.usage.audioSeconds),
+  );
+}
+
+export class QuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+}
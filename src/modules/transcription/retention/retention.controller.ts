@@ -0,0 +1,31 @@
+import { Controller, Get, HttpCode, Post } from '@nestjs/common';
+import { AdminOnly } from '../../auth/admin-only.decorator';
+import { RetentionService } from './retention.service';
+
+@AdminOnly()
+@Controller('transcription/admin/retention')
+export class RetentionController {
+  constructor(private retentionService: RetentionService) {}
+
+  @Get()
+  getStatus() {
+    return {
+      success: true,
+      policy: this.retentionService.getPolicy(),
+      lastRun: this.retentionService.getLastReport(),
+    };
+  }
+
+  // Run a sweep now and report what was purged
+  @Post('run')
+  @HttpCode(200)
+  async runNow() {
+    const report = await this.retentionService.runSweep('manual');
+
+    return {
+      success: report !== null,
+      message: report ? undefined : 'A retention sweep is already running',
+      report: report ?? this.retentionService.getLastReport(),
+    };
+  }
+}
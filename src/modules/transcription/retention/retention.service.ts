@@ -0,0 +1,186 @@
+import {
+  Injectable,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JobManagerService, JobStatus } from '../job-manager.service';
+import { AwsTranscribeService } from '../providers/aws-transcribe/aws-transcribe.service';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface RetentionPolicy {
+  enabled: boolean;
+  intervalMs: number;
+  jobTtlMs: Partial<Record<JobStatus, number>>;
+  orphanUploadTtlMs: number;
+  s3Cleanup: boolean;
+  s3TtlMs: number;
+}
+
+export interface RetentionReport {
+  startedAt: Date;
+  finishedAt: Date;
+  trigger: 'schedule' | 'manual';
+  jobs: { id: string; status: JobStatus; fileName: string }[];
+  uploads: string[]; // Deleted file names in the upload directory
+  s3Objects: string[]; // Deleted keys under transcriptions/
+  errors: string[];
+}
+
+@Injectable()
+export class RetentionService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private lastReport: RetentionReport | null = null;
+
+  constructor(
+    private configService: ConfigService,
+    private jobManagerService: JobManagerService,
+    private awsTranscribeService: AwsTranscribeService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const policy = this.getPolicy();
+    if (!policy.enabled) return;
+
+    this.timer = setInterval(() => {
+      this.runSweep('schedule').catch((error) => {
+        console.error('[Retention] Sweep failed:', error);
+      });
+    }, policy.intervalMs);
+    // Do not keep the process alive just for the sweeper
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  getPolicy(): RetentionPolicy {
+    return {
+      enabled: this.configService.get<boolean>('retention.enabled') ?? true,
+      intervalMs:
+        this.configService.get<number>('retention.intervalMs') || 900000,
+      jobTtlMs: this.configService.get('retention.jobTtlMs') || {},
+      orphanUploadTtlMs:
+        this.configService.get<number>('retention.orphanUploadTtlMs') ||
+        3600000,
+      s3Cleanup:
+        this.configService.get<boolean>('retention.s3Cleanup') ?? false,
+      s3TtlMs: this.configService.get<number>('retention.s3TtlMs') || 86400000,
+    };
+  }
+
+  getLastReport(): RetentionReport | null {
+    return this.lastReport;
+  }
+
+  async runSweep(
+    trigger: RetentionReport['trigger'],
+  ): Promise<RetentionReport | null> {
+    // Skip overlapping runs (slow S3 listing, manual trigger during schedule)
+    if (this.running) return null;
+    this.running = true;
+
+    const policy = this.getPolicy();
+    const report: RetentionReport = {
+      startedAt: new Date(),
+      finishedAt: new Date(),
+      trigger,
+      jobs: [],
+      uploads: [],
+      s3Objects: [],
+      errors: [],
+    };
+
+    try {
+      report.jobs = this.jobManagerService
+        .purgeExpiredJobs(policy.jobTtlMs, report.startedAt)
+        .map((job) => ({
+          id: job.id,
+          status: job.status,
+          fileName: job.fileName,
+        }));
+
+      report.uploads = this.sweepOrphanedUploads(
+        policy.orphanUploadTtlMs,
+        report.startedAt,
+        report.errors,
+      );
+
+      if (policy.s3Cleanup) {
+        try {
+          report.s3Objects = await this.awsTranscribeService.purgeUploadedMedia(
+            new Date(report.startedAt.getTime() - policy.s3TtlMs),
+          );
+        } catch (error) {
+          report.errors.push(`S3 cleanup failed: ${(error as Error).message}`);
+        }
+      }
+    } finally {
+      report.finishedAt = new Date();
+      this.lastReport = report;
+      this.running = false;
+    }
+
+    if (
+      report.jobs.length ||
+      report.uploads.length ||
+      report.s3Objects.length
+    ) {
+      console.log(
+        `[Retention] Purged ${report.jobs.length} jobs, ${report.uploads.length} uploads, ${report.s3Objects.length} S3 objects`,
+      );
+    }
+
+    return report;
+  }
+
+  // Delete upload files that no pending/processing job needs anymore,
+  // e.g. left behind when the process died mid-job
+  private sweepOrphanedUploads(
+    ttlMs: number,
+    now: Date,
+    errors: string[],
+  ): string[] {
+    const uploadDir =
+      this.configService.get<string>('uploads.dir') || './public/uploads';
+    if (!fs.existsSync(uploadDir)) return [];
+
+    const activeFiles = new Set(
+      this.jobManagerService
+        .getAllJobs()
+        .filter((job) =>
+          [JobStatus.PENDING, JobStatus.PROCESSING].includes(job.status),
+        )
+        .flatMap((job) => [job.filePath, job.preprocessing?.filePath])
+        .filter((filePath): filePath is string => !!filePath)
+        .map((filePath) => path.resolve(filePath)),
+    );
+
+    const deleted: string[] = [];
+    for (const entry of fs.readdirSync(uploadDir, { withFileTypes: true })) {
+      if (!entry.isFile() || entry.name.startsWith('.')) continue;
+
+      const filePath = path.resolve(uploadDir, entry.name);
+      if (activeFiles.has(filePath)) continue;
+
+      try {
+        const { mtime } = fs.statSync(filePath);
+        if (now.getTime() - mtime.getTime() > ttlMs) {
+          fs.unlinkSync(filePath);
+          deleted.push(entry.name);
+        }
+      } catch (error) {
+        errors.push(
+          `Failed to delete upload ${entry.name}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return deleted;
+  }
+}
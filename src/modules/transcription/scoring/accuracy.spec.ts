@@ -0,0 +1,62 @@
+import { scoreTranscript } from './accuracy';
+import { normalizeText } from './text-normalizer';
+
+describe('normalizeText', () => {
+  it('should lower-case and strip punctuation', () => {
+    expect(normalizeText('Hello, World! Don\'t "stop".')).toBe(
+      "hello world don't stop",
+    );
+  });
+
+  it('should spell out English numbers', () => {
+    expect(normalizeText('I paid 1,250 dollars on the 3rd, 42% off')).toBe(
+      'i paid one thousand two hundred fifty dollars on the third forty two percent off',
+    );
+    expect(normalizeText('version 2.5')).toBe('version two point five');
+  });
+
+  it('should keep digits for other languages', () => {
+    expect(normalizeText('Tôi có 2 con mèo.', { languageCode: 'vi-VN' })).toBe(
+      'tôi có 2 con mèo',
+    );
+  });
+});
+
+describe('scoreTranscript', () => {
+  it('should score identical text after normalization as perfect', () => {
+    const score = scoreTranscript('Forty-two apples.', '42 apples');
+    expect(score.wer).toBe(0);
+    expect(score.cer).toBe(0);
+  });
+
+  it('should count substitutions, insertions and deletions', () => {
+    const score = scoreTranscript(
+      'the quick brown fox jumps',
+      'the quack brown fox fox',
+    );
+
+    expect(score.words).toMatchObject({
+      substitutions: 2,
+      insertions: 0,
+      deletions: 0,
+      hits: 3,
+      referenceLength: 5,
+    });
+    expect(score.wer).toBeCloseTo(0.4);
+  });
+
+  it('should produce an aligned diff', () => {
+    const score = scoreTranscript('a b c d', 'a c d e');
+
+    expect(score.alignment.map((entry) => entry.operation)).toEqual([
+      'match',
+      'deletion',
+      'match',
+      'match',
+      'insertion',
+    ]);
+    expect(score.words.deletions).toBe(1);
+    expect(score.words.insertions).toBe(1);
+    expect(score.wer).toBe(0.5);
+  });
+});
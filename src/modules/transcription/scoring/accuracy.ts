@@ -0,0 +1,43 @@
+import {
+  AlignmentEntry,
+  alignSequences,
+  computeErrorCounts,
+  ErrorCounts,
+} from './error-rate';
+import { normalizeText, tokenizeWords } from './text-normalizer';
+
+export interface AccuracyScore {
+  wer: number;
+  cer: number;
+  words: ErrorCounts;
+  characters: ErrorCounts; // Whitespace is ignored for CER
+  alignment: AlignmentEntry[]; // Word-level diff against the reference
+  scoredAt: Date;
+}
+
+export function scoreTranscript(
+  reference: string,
+  hypothesis: string,
+  languageCode?: string,
+): AccuracyScore {
+  const normalizedReference = normalizeText(reference, { languageCode });
+  const normalizedHypothesis = normalizeText(hypothesis, { languageCode });
+
+  const { counts, alignment } = alignSequences(
+    tokenizeWords(normalizedReference),
+    tokenizeWords(normalizedHypothesis),
+  );
+  const characters = computeErrorCounts(
+    Array.from(normalizedReference.replace(/\s/g, '')),
+    Array.from(normalizedHypothesis.replace(/\s/g, '')),
+  );
+
+  return {
+    wer: counts.errorRate,
+    cer: characters.errorRate,
+    words: counts,
+    characters,
+    alignment,
+    scoredAt: new Date(),
+  };
+}
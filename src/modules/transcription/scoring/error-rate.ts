@@ -0,0 +1,172 @@
+// Levenshtein alignment used for Word Error Rate (WER) and
+// Character Error Rate (CER) scoring.
+
+export interface ErrorCounts {
+  substitutions: number;
+  insertions: number;
+  deletions: number;
+  hits: number;
+  referenceLength: number;
+  errorRate: number; // (S + I + D) / referenceLength
+}
+
+export type AlignmentOperation =
+  'match' | 'substitution' | 'insertion' | 'deletion';
+
+export interface AlignmentEntry {
+  operation: AlignmentOperation;
+  reference: string | null;
+  hypothesis: string | null;
+}
+
+function toErrorCounts(
+  substitutions: number,
+  insertions: number,
+  deletions: number,
+  referenceLength: number,
+): ErrorCounts {
+  const errors = substitutions + insertions + deletions;
+  return {
+    substitutions,
+    insertions,
+    deletions,
+    hits: referenceLength - substitutions - deletions,
+    referenceLength,
+    errorRate:
+      referenceLength > 0 ? errors / referenceLength : errors > 0 ? 1 : 0,
+  };
+}
+
+// Error counts only - keeps two rows in memory so it is safe for
+// character-level scoring of long transcripts
+export function computeErrorCounts(
+  reference: string[],
+  hypothesis: string[],
+): ErrorCounts {
+  const columns = hypothesis.length + 1;
+  // Each cell tracks [cost, substitutions, insertions, deletions]
+  let previous: number[][] = [];
+  for (let j = 0; j < columns; j++) previous.push([j, 0, j, 0]);
+
+  for (let i = 1; i <= reference.length; i++) {
+    const current: number[][] = [[i, 0, 0, i]];
+    for (let j = 1; j < columns; j++) {
+      const diagonal = previous[j - 1];
+      const up = previous[j];
+      const left = current[j - 1];
+
+      if (reference[i - 1] === hypothesis[j - 1]) {
+        current.push(diagonal);
+      } else if (diagonal[0] <= up[0] && diagonal[0] <= left[0]) {
+        current.push([
+          diagonal[0] + 1,
+          diagonal[1] + 1,
+          diagonal[2],
+          diagonal[3],
+        ]);
+      } else if (up[0] <= left[0]) {
+        current.push([up[0] + 1, up[1], up[2], up[3] + 1]);
+      } else {
+        current.push([left[0] + 1, left[1], left[2] + 1, left[3]]);
+      }
+    }
+    previous = current;
+  }
+
+  const [, substitutions, insertions, deletions] = previous[columns - 1];
+  return toErrorCounts(substitutions, insertions, deletions, reference.length);
+}
+
+// Full alignment with backtrace, used for the word-level diff
+export function alignSequences(
+  reference: string[],
+  hypothesis: string[],
+): { counts: ErrorCounts; alignment: AlignmentEntry[] } {
+  const rows = reference.length + 1;
+  const columns = hypothesis.length + 1;
+  const cost = new Uint32Array(rows * columns);
+  // 0 = match, 1 = substitution, 2 = deletion, 3 = insertion
+  const moves = new Uint8Array(rows * columns);
+
+  for (let i = 1; i < rows; i++) {
+    cost[i * columns] = i;
+    moves[i * columns] = 2;
+  }
+  for (let j = 1; j < columns; j++) {
+    cost[j] = j;
+    moves[j] = 3;
+  }
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < columns; j++) {
+      const index = i * columns + j;
+      const diagonal = cost[index - columns - 1];
+
+      if (reference[i - 1] === hypothesis[j - 1]) {
+        cost[index] = diagonal;
+        moves[index] = 0;
+        continue;
+      }
+
+      const up = cost[index - columns];
+      const left = cost[index - 1];
+      if (diagonal <= up && diagonal <= left) {
+        cost[index] = diagonal + 1;
+        moves[index] = 1;
+      } else if (up <= left) {
+        cost[index] = up + 1;
+        moves[index] = 2;
+      } else {
+        cost[index] = left + 1;
+        moves[index] = 3;
+      }
+    }
+  }
+
+  const alignment: AlignmentEntry[] = [];
+  let substitutions = 0;
+  let insertions = 0;
+  let deletions = 0;
+  let i = rows - 1;
+  let j = columns - 1;
+
+  while (i > 0 || j > 0) {
+    const move = moves[i * columns + j];
+    if (move === 0 || move === 1) {
+      alignment.push({
+        operation: move === 0 ? 'match' : 'substitution',
+        reference: reference[i - 1],
+        hypothesis: hypothesis[j - 1],
+      });
+      if (move === 1) substitutions++;
+      i--;
+      j--;
+    } else if (move === 2) {
+      alignment.push({
+        operation: 'deletion',
+        reference: reference[i - 1],
+        hypothesis: null,
+      });
+      deletions++;
+      i--;
+    } else {
+      alignment.push({
+        operation: 'insertion',
+        reference: null,
+        hypothesis: hypothesis[j - 1],
+      });
+      insertions++;
+      j--;
+    }
+  }
+
+  return {
+    counts: toErrorCounts(
+      substitutions,
+      insertions,
+      deletions,
+      reference.length,
+    ),
+    alignment: alignment.reverse(),
+  };
+}
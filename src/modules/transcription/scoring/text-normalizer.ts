@@ -0,0 +1,161 @@
+// Text normalization applied to both the reference and the hypothesis
+// before scoring, so formatting differences are not counted as errors.
+
+const ONES = [
+  'zero',
+  'one',
+  'two',
+  'three',
+  'four',
+  'five',
+  'six',
+  'seven',
+  'eight',
+  'nine',
+  'ten',
+  'eleven',
+  'twelve',
+  'thirteen',
+  'fourteen',
+  'fifteen',
+  'sixteen',
+  'seventeen',
+  'eighteen',
+  'nineteen',
+];
+
+const TENS = [
+  '',
+  '',
+  'twenty',
+  'thirty',
+  'forty',
+  'fifty',
+  'sixty',
+  'seventy',
+  'eighty',
+  'ninety',
+];
+
+const SCALES: [number, string][] = [
+  [1_000_000_000, 'billion'],
+  [1_000_000, 'million'],
+  [1_000, 'thousand'],
+];
+
+function hundredsToWords(value: number): string[] {
+  const words: string[] = [];
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+
+  if (hundreds > 0) words.push(ONES[hundreds], 'hundred');
+  if (rest >= 20) {
+    words.push(TENS[Math.floor(rest / 10)]);
+    if (rest % 10 > 0) words.push(ONES[rest % 10]);
+  } else if (rest > 0 || hundreds === 0) {
+    words.push(ONES[rest]);
+  }
+
+  return words;
+}
+
+// 1234 -> 'one thousand two hundred thirty four'
+export function integerToWords(value: number): string {
+  if (value === 0) return ONES[0];
+
+  const words: string[] = [];
+  let remaining = value;
+  for (const [scale, name] of SCALES) {
+    if (remaining >= scale) {
+      words.push(...hundredsToWords(Math.floor(remaining / scale)), name);
+      remaining %= scale;
+    }
+  }
+  if (remaining > 0) words.push(...hundredsToWords(remaining));
+
+  return words.join(' ');
+}
+
+const ORDINAL_EXCEPTIONS: Record<string, string> = {
+  one: 'first',
+  two: 'second',
+  three: 'third',
+  five: 'fifth',
+  eight: 'eighth',
+  nine: 'ninth',
+  twelve: 'twelfth',
+};
+
+// 'twenty one' -> 'twenty first'
+function toOrdinal(cardinal: string): string {
+  const words = cardinal.split(' ');
+  const last = words.pop() || '';
+  let ordinal = ORDINAL_EXCEPTIONS[last];
+  if (!ordinal) {
+    ordinal = last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`;
+  }
+  return [...words, ordinal].join(' ');
+}
+
+// Spell out digits so '42' and 'forty-two' score the same.
+// Only English is supported; other languages keep their digits.
+function spellOutNumbers(text: string): string {
+  return text
+    .replace(/(\d),(?=\d{3}\b)/g, '$1') // 1,000 -> 1000
+    .replace(/(\d+)%/g, '$1 percent')
+    .replace(
+      /\b(\d{1,12})(st|nd|rd|th)\b/g,
+      (_, digits: string) => ` ${toOrdinal(integerToWords(Number(digits)))} `,
+    )
+    .replace(/\d+(\.\d+)?/g, (match) => {
+      const [integerPart, decimalPart] = match.split('.');
+      const integer = parseInt(integerPart, 10);
+      // Very long digit strings (phone numbers, ids) are read digit by digit
+      const spokenInteger =
+        integerPart.length > 12
+          ? integerPart
+              .split('')
+              .map((digit) => ONES[Number(digit)])
+              .join(' ')
+          : integerToWords(integer);
+
+      if (!decimalPart) return ` ${spokenInteger} `;
+      const spokenDecimal = decimalPart
+        .split('')
+        .map((digit) => ONES[Number(digit)])
+        .join(' ');
+      return ` ${spokenInteger} point ${spokenDecimal} `;
+    });
+}
+
+export interface NormalizeOptions {
+  languageCode?: string; // Numbers are spelled out for English only
+}
+
+export function normalizeText(
+  text: string,
+  options: NormalizeOptions = {},
+): string {
+  let normalized = text.normalize('NFC').toLocaleLowerCase();
+
+  const language = (options.languageCode || 'en').toLowerCase();
+  if (language.startsWith('en') || language === 'auto') {
+    normalized = spellOutNumbers(normalized);
+  }
+
+  return (
+    normalized
+      // Hyphens and slashes separate words ('forty-two', 'and/or')
+      .replace(/[-–—/]/g, ' ')
+      // Keep apostrophes inside words (don't), drop all other punctuation
+      .replace(/(?<!\p{L})['’]|['’](?!\p{L})/gu, ' ')
+      .replace(/[^\p{L}\p{N}\s'’]/gu, ' ')
+      .replace(/’/g, "'")
+      .replace(/\s+/g, ' ')
+      .trim()
+  );
+}
+
+export function tokenizeWords(text: string): string[] {
+  return text ? text.split(' ') : [];
+}
@@ -0,0 +1,26 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import type { ApiClient } from '../../auth/api-client.interface';
+import { CurrentClient } from '../../auth/current-client.decorator';
+import { SearchQueryDto } from '../dto/search-query.dto';
+import { TranscriptSearchService } from './transcript-search.service';
+
+@Controller('transcription')
+export class SearchController {
+  constructor(private searchService: TranscriptSearchService) {}
+
+  // Full-text search over the completed transcripts of every provider
+  @Get('search')
+  search(
+    @Query() query: SearchQueryDto,
+    @CurrentClient() client: ApiClient | undefined,
+  ) {
+    return {
+      success: true,
+      query: query.q,
+      ...this.searchService.search(query.q, client, {
+        provider: query.provider,
+        limit: query.limit,
+      }),
+    };
+  }
+}
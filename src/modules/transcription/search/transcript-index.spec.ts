@@ -0,0 +1,121 @@
+import {
+  TranscriptResult,
+  TranscriptWord,
+} from '../providers/transcript-result.interface';
+import { TranscriptIndex, toSearchTerm } from './transcript-index';
+
+describe('TranscriptIndex', () => {
+  let index: TranscriptIndex;
+
+  // One word per second, all from one speaker
+  const result = (
+    text: string,
+    speaker: number | null = 0,
+    withWords = true,
+  ): TranscriptResult => {
+    const words: TranscriptWord[] = text.split(' ').map((word, i) => ({
+      text: word,
+      start: i,
+      end: i + 0.5,
+      confidence: 0.9,
+      speaker,
+    }));
+    return {
+      provider: 'Test',
+      providerId: 'test',
+      status: 'COMPLETED',
+      transcript: text,
+      words: withWords ? words : [],
+      segments: [],
+      language: 'en-US',
+      languageConfidence: null,
+      confidence: null,
+      model: null,
+      processingTime: 1,
+      audioDuration: 10,
+      error: null,
+      metadata: {},
+    };
+  };
+
+  beforeEach(() => {
+    index = new TranscriptIndex();
+  });
+
+  it('should normalize case, accents and punctuation', () => {
+    expect(toSearchTerm('Café,')).toBe('cafe');
+    expect(toSearchTerm("Don't")).toBe('dont');
+  });
+
+  it('should find a word with its time, speaker and context', () => {
+    index.add(
+      'job-1',
+      'aws',
+      result('Hello, I would like a Refund for my order please', 1),
+    );
+
+    expect(index.search('refund')).toEqual([
+      {
+        jobId: 'job-1',
+        provider: 'aws',
+        speaker: 1,
+        start: 5,
+        end: 5.5,
+        text: 'Refund',
+        snippet: 'Hello, I would like a Refund for my order please',
+      },
+    ]);
+  });
+
+  it('should index each provider separately', () => {
+    index.add('job-1', 'aws', result('a refund please'));
+    index.add('job-1', 'deepgram', result('a re fund please'));
+
+    expect(index.search('refund').map((hit) => hit.provider)).toEqual(['aws']);
+    expect(index.search('refund', 'deepgram')).toEqual([]);
+  });
+
+  it('should match phrases and prefixes', () => {
+    index.add('job-1', 'aws', result('I want my money back and a refund'));
+    index.add('job-2', 'aws', result('money is back in the account refunded'));
+
+    expect(index.search('money back').map((hit) => hit.jobId)).toEqual([
+      'job-1',
+    ]);
+    // Newest transcripts first
+    expect(index.search('refund*').map((hit) => hit.text)).toEqual([
+      'refunded',
+      'refund',
+    ]);
+  });
+
+  it('should trim long snippets', () => {
+    const words = Array.from({ length: 30 }, (_, i) => `w${i}`);
+    words[15] = 'refund';
+    index.add('job-1', 'aws', result(words.join(' ')));
+
+    expect(index.search('refund')[0].snippet).toBe(
+      '… w7 w8 w9 w10 w11 w12 w13 w14 refund w16 w17 w18 w19 w20 w21 w22 w23 …',
+    );
+  });
+
+  it('should index transcripts without word timings from their text', () => {
+    index.add('job-1', 'aws', result('no refund here', null, false));
+
+    expect(index.search('refund')[0]).toMatchObject({
+      start: null,
+      end: null,
+      speaker: null,
+    });
+  });
+
+  it('should replace re-indexed transcripts and remove jobs', () => {
+    index.add('job-1', 'aws', result('refund'));
+    index.add('job-1', 'aws', result('exchange'));
+    expect(index.search('refund')).toEqual([]);
+
+    index.removeJob('job-1');
+    expect(index.search('exchange')).toEqual([]);
+    expect(index.size).toBe(0);
+  });
+});
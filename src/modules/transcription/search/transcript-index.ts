@@ -0,0 +1,190 @@
+import { TranscriptResult } from '../providers/transcript-result.interface';
+
+// In-memory full-text index over transcripts, one entry per provider of a
+// job. Terms are looked up in an inverted index; the query's terms must
+// appear in a row (a phrase), and a trailing '*' matches any word starting
+// with the term ('refund*' finds 'refunds').
+
+// Words shown on each side of a hit
+const CONTEXT_WORDS = 8;
+
+export interface SearchHit {
+  jobId: string;
+  provider: string;
+  speaker: number | null;
+  start: number | null; // Seconds; null for transcripts without word timings
+  end: number | null;
+  text: string; // The matched words as transcribed
+  snippet: string; // The match with surrounding words
+}
+
+interface IndexedWord {
+  text: string;
+  term: string;
+  start: number | null;
+  end: number | null;
+  speaker: number | null;
+}
+
+interface QueryTerm {
+  term: string;
+  prefix: boolean; // Written with a trailing '*'
+}
+
+interface IndexedTranscript {
+  jobId: string;
+  provider: string;
+  words: IndexedWord[];
+}
+
+// Lower-cased word without accents or punctuation ('Café,' -> 'cafe')
+export function toSearchTerm(word: string): string {
+  return word
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+export class TranscriptIndex {
+  // Keyed by `${jobId}:${provider}`, in the order they were indexed
+  private transcripts = new Map<string, IndexedTranscript>();
+  private postings = new Map<string, Set<string>>(); // Term -> transcript keys
+
+  get size(): number {
+    return this.transcripts.size;
+  }
+
+  // Index (or re-index) one provider's transcript of a job. Word timings
+  // and speakers come from result.words; transcripts without words are
+  // indexed from their text.
+  add(jobId: string, provider: string, result: TranscriptResult): void {
+    const key = `${jobId}:${provider}`;
+    this.remove(key);
+
+    // Punctuation-only tokens are left out so they don't break phrases
+    const words: IndexedWord[] = (
+      result.words.length > 0
+        ? result.words.map((word) => ({
+            text: word.text,
+            term: toSearchTerm(word.text),
+            start: word.start,
+            end: word.end,
+            speaker: word.speaker,
+          }))
+        : (result.transcript ?? '')
+            .split(/\s+/)
+            .filter(Boolean)
+            .map((text) => ({
+              text,
+              term: toSearchTerm(text),
+              start: null,
+              end: null,
+              speaker: null,
+            }))
+    ).filter((word) => word.term);
+    if (words.length === 0) return;
+
+    // Re-inserted so the newest transcripts come last
+    this.transcripts.set(key, { jobId, provider, words });
+    for (const word of words) {
+      const keys = this.postings.get(word.term) ?? new Set<string>();
+      keys.add(key);
+      this.postings.set(word.term, keys);
+    }
+  }
+
+  // Drop every transcript of a job
+  removeJob(jobId: string): void {
+    for (const [key, transcript] of [...this.transcripts]) {
+      if (transcript.jobId === jobId) this.remove(key);
+    }
+  }
+
+  // Every occurrence of the query, newest transcripts first
+  search(query: string, provider?: string): SearchHit[] {
+    const terms: QueryTerm[] = query
+      .split(/\s+/)
+      .map((word) => ({ term: toSearchTerm(word), prefix: word.endsWith('*') }))
+      .filter(({ term }) => term);
+    if (terms.length === 0) return [];
+
+    // Transcripts containing every term
+    let candidates: Set<string> | null = null;
+    for (const term of terms) {
+      const keys = this.lookup(term);
+      candidates = candidates
+        ? new Set([...candidates].filter((key) => keys.has(key)))
+        : keys;
+    }
+
+    const hits: SearchHit[] = [];
+    for (const key of [...candidates!].reverse()) {
+      const transcript = this.transcripts.get(key)!;
+      if (provider && transcript.provider !== provider) continue;
+      hits.push(...this.findPhrase(transcript, terms));
+    }
+    return hits;
+  }
+
+  private remove(key: string): void {
+    const transcript = this.transcripts.get(key);
+    if (!transcript) return;
+
+    this.transcripts.delete(key);
+    for (const word of transcript.words) {
+      const keys = this.postings.get(word.term);
+      keys?.delete(key);
+      if (keys?.size === 0) this.postings.delete(word.term);
+    }
+  }
+
+  // Transcript keys for a term; prefix terms scan the vocabulary
+  private lookup({ term, prefix }: QueryTerm): Set<string> {
+    if (!prefix) return this.postings.get(term) ?? new Set();
+
+    const keys = new Set<string>();
+    for (const [word, wordKeys] of this.postings) {
+      if (word.startsWith(term)) wordKeys.forEach((key) => keys.add(key));
+    }
+    return keys;
+  }
+
+  private findPhrase(
+    transcript: IndexedTranscript,
+    terms: QueryTerm[],
+  ): SearchHit[] {
+    const { words } = transcript;
+    const hits: SearchHit[] = [];
+
+    for (let i = 0; i + terms.length <= words.length; i++) {
+      const matches = terms.every(({ term, prefix }, offset) =>
+        prefix
+          ? words[i + offset].term.startsWith(term)
+          : words[i + offset].term === term,
+      );
+      if (!matches) continue;
+
+      const matched = words.slice(i, i + terms.length);
+      const from = Math.max(0, i - CONTEXT_WORDS);
+      const to = Math.min(words.length, i + terms.length + CONTEXT_WORDS);
+      hits.push({
+        jobId: transcript.jobId,
+        provider: transcript.provider,
+        speaker: matched[0].speaker,
+        start: matched[0].start,
+        end: matched[matched.length - 1].end,
+        text: matched.map((word) => word.text).join(' '),
+        snippet: [
+          from > 0 ? '…' : '',
+          ...words.slice(from, to).map((word) => word.text),
+          to < words.length ? '…' : '',
+        ]
+          .filter(Boolean)
+          .join(' '),
+      });
+      i += terms.length - 1;
+    }
+    return hits;
+  }
+}
@@ -0,0 +1,115 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { ApiClient } from '../../auth/api-client.interface';
+import { JobManagerService, TranscriptionJob } from '../job-manager.service';
+import { TranscriptResult } from '../providers/transcript-result.interface';
+import { canAccessJob } from '../job-access';
+import { getProviderSpeakerNames } from '../diarization/job-diarization';
+import { TranscriptIndex } from './transcript-index';
+
+export interface SearchOptions {
+  provider?: string;
+  limit: number;
+}
+
+@Injectable()
+export class TranscriptSearchService implements OnModuleInit, OnModuleDestroy {
+  private index = new TranscriptIndex();
+  private subscription?: Subscription;
+
+  constructor(private jobManagerService: JobManagerService) {}
+
+  // Index the stored jobs, then every result as completeJob and
+  // updateProviderResult store it
+  onModuleInit() {
+    const jobs = this.jobManagerService
+      .getAllJobs()
+      .sort(
+        (a, b) =>
+          (a.completedAt?.getTime() ?? 0) - (b.completedAt?.getTime() ?? 0),
+      );
+    for (const job of jobs) {
+      this.indexJob(job);
+    }
+    console.log(`[Search] Indexed ${this.index.size} transcripts`);
+
+    this.subscription = this.jobManagerService
+      .watchAllJobs()
+      .subscribe((event) => {
+        if (
+          event.type === 'provider.completed' ||
+          event.type === 'job.completed'
+        ) {
+          this.indexJob(event.job);
+        }
+      });
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  // Hits in the jobs the client may see, newest transcripts first
+  search(query: string, client: ApiClient | undefined, options: SearchOptions) {
+    const jobs = new Map<string, TranscriptionJob | undefined>();
+    const hits = this.index.search(query, options.provider).filter((hit) => {
+      if (!jobs.has(hit.jobId)) {
+        jobs.set(hit.jobId, this.jobManagerService.getJob(hit.jobId));
+      }
+      const job = jobs.get(hit.jobId);
+      if (!job) {
+        // Deleted by retention since it was indexed
+        this.index.removeJob(hit.jobId);
+        return false;
+      }
+      return canAccessJob(client, job);
+    });
+
+    const speakerNames = new Map<string, Record<number, string>>();
+    return {
+      total: hits.length,
+      hits: hits.slice(0, options.limit).map((hit) => {
+        const job = jobs.get(hit.jobId)!;
+        const key = `${hit.jobId}:${hit.provider}`;
+        if (!speakerNames.has(key)) {
+          speakerNames.set(key, getProviderSpeakerNames(job, hit.provider));
+        }
+
+        return {
+          jobId: hit.jobId,
+          fileName: job.fileName,
+          completedAt: job.completedAt,
+          provider: hit.provider,
+          speaker: hit.speaker,
+          speakerName:
+            hit.speaker === null
+              ? null
+              : (speakerNames.get(key)![hit.speaker] ?? null),
+          start: hit.start,
+          end: hit.end,
+          text: hit.text,
+          snippet: hit.snippet,
+        };
+      }),
+    };
+  }
+
+  // (Re-)index every completed transcript of a job
+  private indexJob(job: TranscriptionJob): void {
+    const results: [string, TranscriptResult | undefined][] =
+      job.providerResults
+        ? Object.entries(job.providerResults).map(([providerId, entry]) => [
+            providerId,
+            entry.result,
+          ])
+        : job.provider
+          ? [[job.provider, job.result]]
+          : [];
+
+    for (const [providerId, result] of results) {
+      if (result?.status === 'COMPLETED') {
+        this.index.add(job.id, providerId, result);
+      }
+    }
+  }
+}
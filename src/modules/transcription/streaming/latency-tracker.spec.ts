@@ -0,0 +1,62 @@
+import { LatencyTracker, summarizeLatencies } from './latency-tracker';
+
+describe('LatencyTracker', () => {
+  it('should measure PCM results from the chunk that completed them', () => {
+    // 16 kHz mono 16-bit PCM: 32000 bytes per second
+    const tracker = new LatencyTracker(32000);
+    tracker.recordChunk(16000, 1000); // 0.0 - 0.5s
+    tracker.recordChunk(16000, 1500); // 0.5 - 1.0s
+    tracker.recordChunk(16000, 2000); // 1.0 - 1.5s
+
+    expect(tracker.recordResult('aws', false, 0.8, 1700)).toBe(200);
+    expect(tracker.recordResult('aws', true, 1.5, 2300)).toBe(300);
+    // Results past the audio sent so far count from the latest chunk
+    expect(tracker.recordResult('deepgram', true, 1.6, 2100)).toBe(100);
+    expect(tracker.audioDuration).toBe(1.5);
+  });
+
+  it('should map compressed audio onto the wall clock', () => {
+    const tracker = new LatencyTracker(null);
+    tracker.recordChunk(500, 1000);
+    tracker.recordChunk(500, 3000);
+
+    expect(tracker.recordResult('deepgram', true, 1.2, 2500)).toBe(300);
+    expect(tracker.audioDuration).toBe(2);
+  });
+
+  it('should ignore results before any audio was sent', () => {
+    const tracker = new LatencyTracker(32000);
+    expect(tracker.recordResult('aws', true, 1, 1000)).toBeNull();
+  });
+
+  it('should summarize latencies per provider', () => {
+    const tracker = new LatencyTracker(32000);
+    tracker.recordChunk(32000, 1000);
+    tracker.recordResult('aws', false, 1, 1400);
+    tracker.recordResult('aws', true, 1, 1600);
+
+    expect(tracker.summary(['aws', 'deepgram'])).toEqual({
+      aws: {
+        firstResultMs: 400,
+        interim: { count: 1, mean: 400, p50: 400, p95: 400, max: 400 },
+        final: { count: 1, mean: 600, p50: 600, p95: 600, max: 600 },
+      },
+      deepgram: {
+        firstResultMs: null,
+        interim: { count: 0, mean: null, p50: null, p95: null, max: null },
+        final: { count: 0, mean: null, p50: null, p95: null, max: null },
+      },
+    });
+  });
+
+  it('should use nearest-rank percentiles', () => {
+    const values = Array.from({ length: 20 }, (_, i) => (i + 1) * 10);
+    expect(summarizeLatencies(values)).toEqual({
+      count: 20,
+      mean: 105,
+      p50: 100,
+      p95: 190,
+      max: 200,
+    });
+  });
+});
@@ -0,0 +1,146 @@
+// Real-time latency for live streams: the wall-clock delay between sending
+// the last audio a result covers and receiving that result.
+
+export interface LatencyStats {
+  count: number;
+  mean: number | null; // Milliseconds; null until a result arrived
+  p50: number | null;
+  p95: number | null;
+  max: number | null;
+}
+
+export interface ProviderLatencySummary {
+  firstResultMs: number | null; // From the first audio chunk to the first result
+  interim: LatencyStats;
+  final: LatencyStats;
+}
+
+interface SentChunk {
+  audioEnd: number; // Seconds of audio sent up to and including this chunk
+  sentAt: number;
+}
+
+interface ProviderSamples {
+  firstResultAt: number | null;
+  interim: number[];
+  final: number[];
+}
+
+export class LatencyTracker {
+  private chunks: SentChunk[] = [];
+  private startedAt: number | null = null;
+  private samples = new Map<string, ProviderSamples>();
+
+  // bytesPerSecond is known for raw PCM. Compressed audio is assumed to be
+  // captured in real time, so audio time maps onto the wall clock instead.
+  constructor(private readonly bytesPerSecond: number | null) {}
+
+  get audioDuration(): number {
+    if (this.bytesPerSecond) {
+      return this.chunks[this.chunks.length - 1]?.audioEnd ?? 0;
+    }
+    const last = this.chunks[this.chunks.length - 1];
+    return last && this.startedAt !== null
+      ? (last.sentAt - this.startedAt) / 1000
+      : 0;
+  }
+
+  recordChunk(byteLength: number, now: number = Date.now()): void {
+    if (this.startedAt === null) this.startedAt = now;
+    if (!this.bytesPerSecond) {
+      this.chunks.push({
+        audioEnd: (now - this.startedAt) / 1000,
+        sentAt: now,
+      });
+      return;
+    }
+    const previous = this.chunks[this.chunks.length - 1]?.audioEnd ?? 0;
+    this.chunks.push({
+      audioEnd: previous + byteLength / this.bytesPerSecond,
+      sentAt: now,
+    });
+  }
+
+  // Record a result ending at `audioEnd` seconds; returns its latency in ms
+  recordResult(
+    providerId: string,
+    isFinal: boolean,
+    audioEnd: number,
+    now: number = Date.now(),
+  ): number | null {
+    const sentAt = this.sentAtFor(audioEnd);
+    if (sentAt === null) return null;
+
+    const samples = this.getSamples(providerId);
+    if (samples.firstResultAt === null) samples.firstResultAt = now;
+
+    const latency = Math.max(0, Math.round(now - sentAt));
+    (isFinal ? samples.final : samples.interim).push(latency);
+    return latency;
+  }
+
+  summary(providerIds: string[]): Record<string, ProviderLatencySummary> {
+    const summary: Record<string, ProviderLatencySummary> = {};
+    for (const providerId of providerIds) {
+      const samples = this.getSamples(providerId);
+      summary[providerId] = {
+        firstResultMs:
+          samples.firstResultAt !== null && this.startedAt !== null
+            ? samples.firstResultAt - this.startedAt
+            : null,
+        interim: summarizeLatencies(samples.interim),
+        final: summarizeLatencies(samples.final),
+      };
+    }
+    return summary;
+  }
+
+  // When the audio at `audioTime` seconds was sent: the first chunk reaching
+  // it, or the latest chunk if the provider reports a time beyond what we sent
+  private sentAtFor(audioTime: number): number | null {
+    if (this.chunks.length === 0 || this.startedAt === null) return null;
+    if (!this.bytesPerSecond) {
+      return Math.min(
+        this.startedAt + audioTime * 1000,
+        this.chunks[this.chunks.length - 1].sentAt,
+      );
+    }
+
+    let low = 0;
+    let high = this.chunks.length - 1;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (this.chunks[middle].audioEnd < audioTime) low = middle + 1;
+      else high = middle;
+    }
+    return this.chunks[low].sentAt;
+  }
+
+  private getSamples(providerId: string): ProviderSamples {
+    let samples = this.samples.get(providerId);
+    if (!samples) {
+      samples = { firstResultAt: null, interim: [], final: [] };
+      this.samples.set(providerId, samples);
+    }
+    return samples;
+  }
+}
+
+export function summarizeLatencies(values: number[]): LatencyStats {
+  if (values.length === 0) {
+    return { count: 0, mean: null, p50: null, p95: null, max: null };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  // Nearest-rank percentile
+  const percentile = (p: number) =>
+    sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+
+  return {
+    count: sorted.length,
+    mean: Math.round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length),
+    p50: percentile(0.5),
+    p95: percentile(0.95),
+    max: sorted[sorted.length - 1],
+  };
+}
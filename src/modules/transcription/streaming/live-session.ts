@@ -0,0 +1,143 @@
+import { randomUUID } from 'crypto';
+import {
+  LiveProviderStream,
+  LiveStreamOptions,
+  LiveTranscriptEvent,
+  LiveTranscriptionProvider,
+} from '../providers/live-stream.interface';
+import { LatencyTracker, ProviderLatencySummary } from './latency-tracker';
+
+// How long to wait for providers to flush their final results after stop
+const FLUSH_TIMEOUT_MS = 10000;
+
+export type LiveMessageSender = (event: string, data: unknown) => void;
+
+export interface LiveSessionSummary {
+  sessionId: string;
+  audioDuration: number; // Seconds of audio received from the client
+  latency: Record<string, ProviderLatencySummary>;
+}
+
+// One browser connection fanned out to several live providers
+export class LiveTranscriptionSession {
+  readonly id = randomUUID();
+
+  private streams = new Map<string, LiveProviderStream>();
+  private providerIds: string[] = [];
+  private latency: LatencyTracker;
+  private stopping: Promise<LiveSessionSummary> | null = null;
+  private onDrained: (() => void) | null = null;
+
+  constructor(
+    private readonly options: LiveStreamOptions,
+    private readonly providers: LiveTranscriptionProvider[],
+    private readonly send: LiveMessageSender,
+  ) {
+    this.latency = new LatencyTracker(
+      options.encoding === 'pcm'
+        ? options.sampleRate * options.channels * 2 // 16-bit samples
+        : null,
+    );
+  }
+
+  // Open every provider; one failing to connect doesn't stop the others
+  async start(): Promise<string[]> {
+    await Promise.all(
+      this.providers.map(async (provider) => {
+        try {
+          const stream = await provider.openStream(this.options, {
+            onTranscript: (event) => this.handleTranscript(provider.id, event),
+            onError: (error) =>
+              this.send('provider-error', {
+                provider: provider.id,
+                error: error.message,
+              }),
+            onClose: () => this.handleClose(provider.id),
+          });
+          this.streams.set(provider.id, stream);
+          this.providerIds.push(provider.id);
+        } catch (error) {
+          const message = (error as Error).message;
+          console.error(
+            `[Live] ${provider.displayName} failed to open: ${message}`,
+          );
+          this.send('provider-error', {
+            provider: provider.id,
+            error: message,
+          });
+        }
+      }),
+    );
+    return this.providerIds;
+  }
+
+  // Seconds of audio received from the client so far
+  get audioDuration(): number {
+    return this.latency.audioDuration;
+  }
+
+  sendAudio(chunk: Buffer): void {
+    if (this.stopping || this.streams.size === 0) return;
+    this.latency.recordChunk(chunk.length);
+    for (const stream of this.streams.values()) {
+      stream.send(chunk);
+    }
+  }
+
+  // End the audio and resolve once every provider flushed (or timed out)
+  stop(): Promise<LiveSessionSummary> {
+    if (this.stopping) return this.stopping;
+
+    this.stopping = new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.onDrained = null;
+        this.close();
+        resolve(this.summary());
+      };
+      const timer = setTimeout(done, FLUSH_TIMEOUT_MS);
+      this.onDrained = done;
+
+      if (this.streams.size === 0) {
+        done();
+        return;
+      }
+      for (const stream of this.streams.values()) {
+        stream.finish();
+      }
+    });
+    return this.stopping;
+  }
+
+  close(): void {
+    for (const stream of this.streams.values()) {
+      stream.close();
+    }
+    this.streams.clear();
+    // Nothing is left to flush if the client went away during stop
+    this.onDrained?.();
+  }
+
+  summary(): LiveSessionSummary {
+    return {
+      sessionId: this.id,
+      audioDuration: this.latency.audioDuration,
+      latency: this.latency.summary(this.providerIds),
+    };
+  }
+
+  private handleTranscript(providerId: string, event: LiveTranscriptEvent) {
+    const latencyMs = this.latency.recordResult(
+      providerId,
+      event.isFinal,
+      event.end,
+    );
+    this.send('transcript', { provider: providerId, ...event, latencyMs });
+  }
+
+  private handleClose(providerId: string) {
+    if (!this.streams.delete(providerId)) return;
+    this.send('provider-closed', { provider: providerId });
+    if (this.streams.size === 0) this.onDrained?.();
+  }
+}
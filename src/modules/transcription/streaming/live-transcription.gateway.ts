@@ -0,0 +1,246 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  SubscribeMessage,
+  WebSocketGateway,
+  WsResponse,
+} from '@nestjs/websockets';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import type { IncomingMessage } from 'http';
+import type WebSocket from 'ws';
+import { ApiClient } from '../../auth/api-client.interface';
+import { ApiKeyService } from '../../auth/api-key.service';
+import { extractApiKey } from '../../auth/api-key.guard';
+import { ProviderRegistryService } from '../providers/provider-registry.service';
+import { ClientQuotaService } from '../quota/client-quota.service';
+import { QuotaRecord } from '../quota/client-quota';
+import { LiveStartDto } from '../dto/live-start.dto';
+import { LiveSessionSummary, LiveTranscriptionSession } from './live-session';
+
+interface ActiveSession {
+  session: LiveTranscriptionSession;
+  timer?: NodeJS.Timeout;
+  client?: ApiClient; // Quotas apply to authenticated clients
+  quota: QuotaRecord | null;
+  overQuota?: boolean;
+}
+
+// Live microphone transcription. Protocol (JSON text frames as
+// { event, data }, audio as binary frames):
+//   client -> 'start' { languageCode, encoding, sampleRate, ... }
+//   server -> 'started' { sessionId, providers }
+//   client -> binary audio chunks
+//   server -> 'transcript' { provider, isFinal, transcript, latencyMs, ... }
+//   client -> 'stop'
+//   server -> 'summary' { sessionId, audioDuration, latency }
+// Streamed audio counts towards the client's daily audio minutes; a session
+// that uses up the quota gets an 'error' and is stopped with a 'summary'.
+@WebSocketGateway({ path: '/transcription/live' })
+export class LiveTranscriptionGateway
+  implements OnGatewayConnection, OnGatewayDisconnect
+{
+  private sessions = new Map<WebSocket, ActiveSession>();
+  private clients = new Map<WebSocket, ApiClient>();
+  private maxSessions: number;
+  private maxSessionMs: number;
+
+  constructor(
+    private configService: ConfigService,
+    private providerRegistry: ProviderRegistryService,
+    private apiKeyService: ApiKeyService,
+    private clientQuota: ClientQuotaService,
+  ) {
+    this.maxSessions =
+      this.configService.get<number>('streaming.maxSessions') || 10;
+    this.maxSessionMs =
+      this.configService.get<number>('streaming.maxSessionMs') || 0;
+  }
+
+  handleConnection(client: WebSocket, request: IncomingMessage) {
+    // Browsers cannot set headers on a WebSocket, so the key usually comes
+    // in the apiKey query parameter
+    if (this.apiKeyService.isEnabled()) {
+      const key = extractApiKey(request);
+      const apiClient = key ? this.apiKeyService.authenticate(key) : undefined;
+      if (!apiClient) {
+        client.close(1008, key ? 'Invalid API key' : 'Missing API key');
+        return;
+      }
+      this.clients.set(client, apiClient);
+    }
+
+    // Text frames are routed to the message handlers below by the adapter
+    client.on('message', (data: Buffer, isBinary: boolean) => {
+      if (!isBinary) return;
+
+      // Audio before 'started' is dropped; the session buffers nothing
+      const active = this.sessions.get(client);
+      if (!active) return;
+      active.session.sendAudio(data);
+      this.checkQuota(client, active);
+    });
+  }
+
+  handleDisconnect(client: WebSocket) {
+    this.clients.delete(client);
+    const active = this.sessions.get(client);
+    if (!active) return;
+
+    clearTimeout(active.timer);
+    active.session.close();
+    this.sessions.delete(client);
+    this.recordAudio(active);
+    console.log(`[Live] Session ${active.session.id} closed by the client`);
+  }
+
+  @SubscribeMessage('start')
+  async handleStart(
+    @ConnectedSocket() client: WebSocket,
+    @MessageBody() body: unknown,
+  ): Promise<WsResponse | undefined> {
+    if (this.sessions.has(client)) {
+      return this.error('A live session is already running on this socket');
+    }
+    if (this.sessions.size >= this.maxSessions) {
+      return this.error('Too many live sessions, try again later');
+    }
+
+    const dto = plainToInstance(LiveStartDto, body ?? {});
+    const errors = await validate(dto, { whitelist: true });
+    if (errors.length > 0) {
+      return this.error(
+        errors
+          .flatMap((error) => Object.values(error.constraints ?? {}))
+          .join('; '),
+      );
+    }
+
+    const available = this.providerRegistry.getLiveIds();
+    const providerIds = dto.providers ?? available;
+    const unknown = providerIds.filter((id) => !available.includes(id));
+    if (unknown.length > 0) {
+      return this.error(
+        `Unknown live provider(s): ${unknown.join(', ')}. Available: ${available.join(', ')}`,
+      );
+    }
+
+    const apiClient = this.clients.get(client);
+    let quota: QuotaRecord | null;
+    try {
+      quota = this.clientQuota.reserveLive(apiClient);
+    } catch (error) {
+      return this.error((error as Error).message);
+    }
+
+    const session = new LiveTranscriptionSession(
+      {
+        languageCode: dto.languageCode || 'en-US',
+        encoding: dto.encoding,
+        sampleRate: dto.sampleRate,
+        channels: dto.channels ?? 1,
+        model: dto.deepgramModel,
+      },
+      providerIds.map((id) => this.providerRegistry.getLive(id)!),
+      (event, data) => this.sendMessage(client, event, data),
+    );
+    // Registered before connecting so the session limit covers it
+    const active: ActiveSession = { session, client: apiClient, quota };
+    this.sessions.set(client, active);
+
+    const started = await session.start();
+
+    // The client may have gone away while providers were connecting
+    if (this.sessions.get(client) !== active) {
+      session.close();
+      return undefined;
+    }
+    if (started.length === 0) {
+      this.sessions.delete(client);
+      this.recordAudio(active);
+      return this.error('No live provider could be started');
+    }
+
+    if (this.maxSessionMs > 0) {
+      active.timer = setTimeout(() => {
+        console.log(`[Live] Session ${session.id} reached the time limit`);
+        void this.finishSession(client).then((summary) => {
+          if (summary) this.sendMessage(client, 'summary', summary);
+        });
+      }, this.maxSessionMs);
+      active.timer.unref();
+    }
+
+    console.log(
+      `[Live] Session ${session.id} started with ${started.join(', ')}`,
+    );
+    return {
+      event: 'started',
+      data: { sessionId: session.id, providers: started },
+    };
+  }
+
+  @SubscribeMessage('stop')
+  async handleStop(@ConnectedSocket() client: WebSocket): Promise<WsResponse> {
+    const summary = await this.finishSession(client);
+    if (!summary) {
+      return this.error('No live session is running on this socket');
+    }
+    return { event: 'summary', data: summary };
+  }
+
+  private async finishSession(
+    client: WebSocket,
+  ): Promise<LiveSessionSummary | null> {
+    const active = this.sessions.get(client);
+    if (!active) return null;
+
+    clearTimeout(active.timer);
+    const summary = await active.session.stop();
+    this.sessions.delete(client);
+    this.recordAudio(active);
+    console.log(
+      `[Live] Session ${summary.sessionId} finished after ${summary.audioDuration.toFixed(1)}s of audio`,
+    );
+    return summary;
+  }
+
+  // Stop the session once the audio streamed so far uses up the client's
+  // daily audio minutes
+  private checkQuota(client: WebSocket, active: ActiveSession) {
+    if (!active.client || !active.quota || active.overQuota) return;
+
+    const error = this.clientQuota.updateLive(
+      active.client,
+      active.quota,
+      active.session.audioDuration,
+    );
+    if (!error) return;
+
+    active.overQuota = true;
+    console.log(`[Live] Session ${active.session.id} reached the audio quota`);
+    this.sendMessage(client, 'error', { message: error });
+    void this.finishSession(client).then((summary) => {
+      if (summary) this.sendMessage(client, 'summary', summary);
+    });
+  }
+
+  // Save the audio the session streamed to the quota ledger
+  private recordAudio(active: ActiveSession) {
+    if (active.quota) {
+      this.clientQuota.finishLive(active.quota, active.session.audioDuration);
+    }
+  }
+
+  private sendMessage(client: WebSocket, event: string, data: unknown) {
+    if (client.readyState !== client.OPEN) return;
+    client.send(JSON.stringify({ event, data }));
+  }
+
+  private error(message: string): WsResponse {
+    return { event: 'error', data: { message } };
+  }
+}
@@ -1,81 +1,150 @@
 import {
   BadRequestException,
+  Body,
+  ConflictException,
   Controller,
+  Delete,
   Get,
+  HttpException,
+  HttpStatus,
+  Ip,
+  MessageEvent,
   NotFoundException,
   Param,
   Post,
+  Put,
   Query,
+  Sse,
+  StreamableFile,
   UploadedFile,
   UseInterceptors,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { diskStorage } from 'multer';
+import type { ApiClient } from '../auth/api-client.interface';
+import { CurrentClient } from '../auth/current-client.decorator';
 import { TranscriptionService } from './transcription.service';
-import { JobManagerService } from './job-manager.service';
+import {
+  JobListPage,
+  JobManagerService,
+  JobStatus,
+  TranscriptionJob,
+} from './job-manager.service';
+import { ProviderRegistryService } from './providers/provider-registry.service';
+import { AttachReferenceDto } from './dto/attach-reference.dto';
+import { ExportQueryDto } from './dto/export-query.dto';
+import { ListJobsQueryDto } from './dto/list-jobs-query.dto';
+import { QueueOptionsDto } from './dto/queue-options.dto';
+import { ConsensusOptionsDto } from './dto/consensus-options.dto';
+import { PostProcessingOptionsDto } from './dto/post-processing-options.dto';
+import { parseProviderSettings, ProviderSettings } from './provider-options';
+import { exportTranscript } from './export/transcript-exporter';
+import { DEFAULT_SUBTITLE_OPTIONS } from './export/subtitle-builder';
+import { toJobResponse, toJobSummary } from './job-response';
+import { WebhookService } from './webhooks/webhook.service';
+import { UploadValidatorService } from './upload/upload-validator.service';
+import { RemoveUploadOnErrorInterceptor } from './upload/remove-upload-on-error.interceptor';
+import { ProviderQueueService } from './queue/provider-queue.service';
+import { ClientQuotaService } from './quota/client-quota.service';
+import { QuotaExceededError, QuotaRecord } from './quota/client-quota';
+import { canAccessJob, getClientFilter } from './job-access';
+import { getProviderSpeakerNames } from './diarization/job-diarization';
+import { MediaInfo } from './preprocessing/ffmpeg';
+import { LanguageService } from './language/language.service';
+import { PostProcessingRulesService } from './postprocessing/post-processing-rules.service';
+import { JobPostProcessingRule } from './postprocessing/post-processing-rule';
 import * as path from 'path';
-import * as fs from 'fs';
+import { concat, map, Observable, of, takeWhile } from 'rxjs';
 
 @Controller('transcription')
 export class TranscriptionController {
   constructor(
     private transcriptionService: TranscriptionService,
     private jobManagerService: JobManagerService,
+    private providerRegistry: ProviderRegistryService,
+    private webhookService: WebhookService,
+    private uploadValidator: UploadValidatorService,
+    private providerQueue: ProviderQueueService,
+    private clientQuota: ClientQuotaService,
+    private languageService: LanguageService,
+    private postProcessingRules: PostProcessingRulesService,
   ) {}
 
+  @Get('providers')
+  getProviders() {
+    return {
+      success: true,
+      providers: this.providerRegistry.getAll().map((provider) => ({
+        id: provider.id,
+        name: provider.displayName,
+        supportedFormats: provider.supportedFormats,
+        capabilities: provider.capabilities,
+        languages: provider.languageSupport.languages,
+        models: provider.languageSupport.models,
+        queue: this.providerQueue.getStats(provider.id),
+      })),
+    };
+  }
+
+  // Quotas of the calling API key and how much of them is used
+  @Get('quota')
+  getQuota(@CurrentClient() client: ApiClient | undefined) {
+    if (!client) {
+      return { success: true, client: null, quotas: null, usage: null };
+    }
+
+    return {
+      success: true,
+      client: client.id,
+      ...this.clientQuota.getStatus(client),
+    };
+  }
+
   @Post('upload')
-  @UseInterceptors(
-    FileInterceptor('file', {
-      storage: diskStorage({
-        destination: './public/uploads',
-        filename: (req, file, cb) => {
-          const uniqueSuffix =
-            Date.now() + '-' + Math.round(Math.random() * 1e9);
-          cb(
-            null,
-            file.fieldname +
-              '-' +
-              uniqueSuffix +
-              path.extname(file.originalname),
-          );
-        },
-      }),
-      fileFilter: (req, file, cb) => {
-        // Expanded format list - supports formats from AWS Transcribe and Deepgram
-        // AWS: AMR, FLAC, M4A, MP3, MP4, OGG, WebM, WAV
-        // Deepgram: MP3, WAV, FLAC, OGG, M4A, AAC, WMA, OPUS, AMR, 3GP, and more
-        const allowedTypes = /mp3|wav|m4a|mp4|webm|ogg|flac|amr|aac|wma|opus|3gp|aiff|aif|ape|avi|dss|m4p|m4v|mov|mpc|mpg|mpeg|qt|ra|rm|voc|wv/;
-        const extname = allowedTypes.test(
-          path.extname(file.originalname).toLowerCase(),
-        );
-        const mimetype = allowedTypes.test(file.mimetype);
-
-        console.log('mimetype: ', mimetype);
-        console.log('extension: ', extname);
-        if (extname) {
-          return cb(null, true);
-        } else {
-          cb(
-            new BadRequestException(
-              'Unsupported audio format. Supported formats: mp3, wav, m4a, mp4, webm, ogg, flac, amr, aac, wma, opus, 3gp, aiff, ape, avi, and more',
-            ),
-            false,
-          );
-        }
-      },
-    }),
-  )
+  @UseInterceptors(FileInterceptor('file'), RemoveUploadOnErrorInterceptor)
   async uploadAndCompare(
     @UploadedFile() file: Express.Multer.File,
+    // Provider options, read by each provider that runs
+    @Query() query: Record<string, unknown>,
+    @Query() queueOptions: QueueOptionsDto,
+    @Query() consensusOptions: ConsensusOptionsDto,
+    @Query() postProcessingOptions: PostProcessingOptionsDto,
+    @Ip() clientIp: string,
+    @CurrentClient() client: ApiClient | undefined,
     @Query('language') language?: string,
-    @Query('deepgramModel') deepgramModel?: string,
+    @Query('providers') providers?: string,
+    @Body('reference') reference?: string,
+    @Body('callbackUrl') callbackUrl?: string,
   ) {
     if (!file) {
       throw new BadRequestException('No file uploaded');
     }
 
-    const languageCode = language || 'en-US';
-    const model = deepgramModel || 'nova-3';
+    const media = await this.validateUpload(file);
+    const callback = await this.parseCallbackUrl(callbackUrl);
+
+    // Comma-separated provider ids, defaults to every registered provider
+    const providerIds = providers
+      ? providers
+          .split(',')
+          .map((id) => id.trim())
+          .filter(Boolean)
+      : [];
+    const unknown = providerIds.filter((id) => !this.providerRegistry.has(id));
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Invalid provider(s): ${unknown.join(', ')}. Choose from: ${this.providerRegistry.getIds().join(', ')}`,
+      );
+    }
+
+    const runIds =
+      providerIds.length > 0 ? providerIds : this.providerRegistry.getIds();
+    const { languageCode, providerOptions, models } =
+      await this.parseProviderSettings(runIds, query, language);
+    const postProcessingRules = this.getPostProcessingRules(
+      postProcessingOptions,
+      client,
+    );
+    const quota = this.reserveQuota(client, media);
 
     try {
       // Return job ID immediately instead of waiting for transcription
@@ -84,84 +153,69 @@ export class TranscriptionController {
           file.path,
           file.originalname,
           languageCode,
-          model,
+          providerIds,
+          {
+            referenceTranscript: reference?.trim() || undefined,
+            callbackUrl: callback,
+            providerOptions,
+            models,
+            priority: queueOptions.priority,
+            clientId: client?.id ?? clientIp,
+            media,
+            consensus: consensusOptions.consensus,
+            postProcessingRules,
+          },
         );
+      this.clientQuota.assignJobs(quota, [jobId]);
 
       return {
         success: true,
         jobId,
-        message: 'Transcription job started. Use GET /transcription/job/:jobId to check status',
+        message:
+          'Transcription job started. Use GET /transcription/job/:jobId to check status',
       };
     } catch (error) {
-      // Clean up uploaded file if error occurs
-      if (fs.existsSync(file.path)) {
-        fs.unlinkSync(file.path);
-      }
-
-      throw new BadRequestException(`Failed to start transcription: ${error.message}`);
+      throw new BadRequestException(
+        `Failed to start transcription: ${(error as Error).message}`,
+      );
     }
   }
 
   @Post('upload/:provider')
-  @UseInterceptors(
-    FileInterceptor('file', {
-      storage: diskStorage({
-        destination: './public/uploads',
-        filename: (req, file, cb) => {
-          const uniqueSuffix =
-            Date.now() + '-' + Math.round(Math.random() * 1e9);
-          cb(
-            null,
-            file.fieldname +
-              '-' +
-              uniqueSuffix +
-              path.extname(file.originalname),
-          );
-        },
-      }),
-      fileFilter: (req, file, cb) => {
-        // Expanded format list - supports formats from AWS Transcribe and Deepgram
-        // AWS: AMR, FLAC, M4A, MP3, MP4, OGG, WebM, WAV
-        // Deepgram: MP3, WAV, FLAC, OGG, M4A, AAC, WMA, OPUS, AMR, 3GP, and more
-        const allowedTypes = /mp3|wav|m4a|mp4|webm|ogg|flac|amr|aac|wma|opus|3gp|aiff|aif|ape|avi|dss|m4p|m4v|mov|mpc|mpg|mpeg|qt|ra|rm|voc|wv/;
-        const extname = allowedTypes.test(
-          path.extname(file.originalname).toLowerCase(),
-        );
-        const mimetype = allowedTypes.test(file.mimetype);
-
-        console.log('mimetype: ', mimetype);
-        console.log('extension: ', extname);
-        if (extname) {
-          return cb(null, true);
-        } else {
-          cb(
-            new BadRequestException(
-              'Unsupported audio format. Supported formats: mp3, wav, m4a, mp4, webm, ogg, flac, amr, aac, wma, opus, 3gp, aiff, ape, avi, and more',
-            ),
-            false,
-          );
-        }
-      },
-    }),
-  )
+  @UseInterceptors(FileInterceptor('file'), RemoveUploadOnErrorInterceptor)
   async uploadWithProvider(
     @UploadedFile() file: Express.Multer.File,
-    @Query('provider') provider: 'aws' | 'deepgram',
+    @Param('provider') provider: string,
+    // Options of the provider, read by the provider itself
+    @Query() query: Record<string, unknown>,
+    @Query() queueOptions: QueueOptionsDto,
+    @Query() postProcessingOptions: PostProcessingOptionsDto,
+    @Ip() clientIp: string,
+    @CurrentClient() client: ApiClient | undefined,
     @Query('language') language?: string,
-    @Query('deepgramModel') deepgramModel?: string,
+    @Body('reference') reference?: string,
+    @Body('callbackUrl') callbackUrl?: string,
   ) {
     if (!file) {
       throw new BadRequestException('No file uploaded');
     }
 
-    if (!['aws', 'deepgram'].includes(provider)) {
+    const media = await this.validateUpload(file);
+    const callback = await this.parseCallbackUrl(callbackUrl);
+
+    if (!this.providerRegistry.has(provider)) {
       throw new BadRequestException(
-        'Invalid provider. Choose "aws" or "deepgram"',
+        `Invalid provider. Choose from: ${this.providerRegistry.getIds().join(', ')}`,
       );
     }
 
-    const languageCode = language || 'en-US';
-    const model = deepgramModel || 'nova-3';
+    const { languageCode, providerOptions, models } =
+      await this.parseProviderSettings([provider], query, language);
+    const postProcessingRules = this.getPostProcessingRules(
+      postProcessingOptions,
+      client,
+    );
+    const quota = this.reserveQuota(client, media);
 
     try {
       // Return job ID immediately instead of waiting for transcription
@@ -171,46 +225,351 @@ export class TranscriptionController {
           file.path,
           file.originalname,
           languageCode,
-          model,
+          {
+            referenceTranscript: reference?.trim() || undefined,
+            callbackUrl: callback,
+            providerOptions,
+            models,
+            priority: queueOptions.priority,
+            clientId: client?.id ?? clientIp,
+            media,
+            postProcessingRules,
+          },
         );
+      this.clientQuota.assignJobs(quota, [jobId]);
 
       return {
         success: true,
         jobId,
-        message: 'Transcription job started. Use GET /transcription/job/:jobId to check status',
+        message:
+          'Transcription job started. Use GET /transcription/job/:jobId to check status',
       };
     } catch (error) {
-      // Clean up uploaded file if error occurs
-      if (fs.existsSync(file.path)) {
-        fs.unlinkSync(file.path);
-      }
+      throw new BadRequestException(
+        `Failed to start transcription: ${(error as Error).message}`,
+      );
+    }
+  }
 
-      throw new BadRequestException(`Failed to start transcription: ${error.message}`);
+  @Get('jobs')
+  listJobs(
+    @Query() query: ListJobsQueryDto,
+    @CurrentClient() client: ApiClient | undefined,
+  ) {
+    let page: JobListPage;
+    try {
+      page = this.jobManagerService.listJobs(
+        {
+          status: query.status,
+          provider: query.provider,
+          language: query.language,
+          fileName: query.fileName,
+          createdFrom: query.createdFrom,
+          createdTo: query.createdTo,
+          clientId: getClientFilter(client),
+        },
+        {
+          sortBy: query.sortBy,
+          order: query.order,
+          limit: query.limit,
+          cursor: query.cursor,
+        },
+      );
+    } catch (error) {
+      throw new BadRequestException((error as Error).message);
     }
+
+    return {
+      success: true,
+      jobs: page.jobs.map((job) =>
+        toJobSummary(job, this.providerQueue.getPositions(job.id)),
+      ),
+      nextCursor: page.nextCursor,
+      total: page.total,
+    };
   }
 
   @Get('job/:jobId')
-  async getJobStatus(@Param('jobId') jobId: string) {
-    const job = this.jobManagerService.getJob(jobId);
+  async getJobStatus(
+    @Param('jobId') jobId: string,
+    @CurrentClient() client: ApiClient | undefined,
+  ) {
+    const job = this.getJobFor(jobId, client);
 
-    if (!job) {
-      throw new NotFoundException(`Job with ID ${jobId} not found`);
+    return {
+      success: true,
+      job: toJobResponse(job, this.providerQueue.getPositions(jobId)),
+    };
+  }
+
+  // Server-Sent Events: a 'snapshot' of the job, then one event per change.
+  // The stream ends after job.completed, job.failed or job.cancelled.
+  @Sse('job/:jobId/events')
+  streamJobEvents(
+    @Param('jobId') jobId: string,
+    @CurrentClient() client: ApiClient | undefined,
+  ): Observable<MessageEvent> {
+    const job = this.getJobFor(jobId, client);
+
+    const snapshot = of<MessageEvent>({
+      type: 'snapshot',
+      data: {
+        jobId,
+        job: toJobResponse(job, this.providerQueue.getPositions(jobId)),
+      },
+    });
+
+    if (this.isJobFinished(job)) {
+      return snapshot;
     }
 
+    const changes = this.jobManagerService.watchJob(jobId).pipe(
+      takeWhile(
+        (event) =>
+          !['job.completed', 'job.failed', 'job.cancelled'].includes(
+            event.type,
+          ),
+        true,
+      ),
+      map((event): MessageEvent => ({
+        type: event.type,
+        data: {
+          jobId,
+          provider: event.provider,
+          // Partial result of the provider that just changed
+          providerResult: event.provider
+            ? event.job.providerResults?.[event.provider]
+            : undefined,
+          job: toJobResponse(event.job, this.providerQueue.getPositions(jobId)),
+        },
+      })),
+    );
+
+    return concat(snapshot, changes);
+  }
+
+  @Delete('job/:jobId')
+  cancelJob(
+    @Param('jobId') jobId: string,
+    @CurrentClient() client: ApiClient | undefined,
+  ) {
+    const job = this.getJobFor(jobId, client);
+
+    if (this.isJobFinished(job)) {
+      throw new ConflictException(`Job ${jobId} has already ${job.status}`);
+    }
+
+    this.transcriptionService.cancelJob(jobId);
+
     return {
       success: true,
-      job: {
-        id: job.id,
-        status: job.status,
-        fileName: job.fileName,
-        languageCode: job.languageCode,
-        provider: job.provider,
-        result: job.result,
-        providerResults: job.providerResults, // Include partial results for comparison jobs
-        error: job.error,
-        createdAt: job.createdAt,
-        completedAt: job.completedAt,
-      },
+      job: toJobResponse(this.jobManagerService.getJob(jobId) ?? job),
+    };
+  }
+
+  // Webhook delivery log of a job, oldest first
+  @Get('job/:jobId/webhooks')
+  getWebhookDeliveries(
+    @Param('jobId') jobId: string,
+    @CurrentClient() client: ApiClient | undefined,
+  ) {
+    const job = this.getJobFor(jobId, client);
+
+    return {
+      success: true,
+      callbackUrl: job.callbackUrl ?? null,
+      deliveries: job.webhookDeliveries ?? [],
     };
   }
+
+  @Put('job/:jobId/reference')
+  attachReference(
+    @Param('jobId') jobId: string,
+    @Body() body: AttachReferenceDto,
+    @CurrentClient() client: ApiClient | undefined,
+  ) {
+    this.getJobFor(jobId, client);
+
+    this.transcriptionService.attachReferenceTranscript(
+      jobId,
+      body.reference.trim(),
+    );
+
+    return {
+      success: true,
+      accuracy: this.jobManagerService.getJob(jobId)?.accuracy,
+    };
+  }
+
+  @Get('job/:jobId/export')
+  exportJob(
+    @Param('jobId') jobId: string,
+    @Query() query: ExportQueryDto,
+    @CurrentClient() client: ApiClient | undefined,
+  ) {
+    const job = this.getJobFor(jobId, client);
+
+    let providerId = query.provider || job.provider;
+    if (!providerId && job.providerResults) {
+      const providerIds = Object.keys(job.providerResults);
+      if (providerIds.length !== 1) {
+        throw new BadRequestException(
+          `Specify a provider to export: ${providerIds.join(', ')}`,
+        );
+      }
+      providerId = providerIds[0];
+    }
+
+    if (!providerId) {
+      throw new BadRequestException(`Job ${jobId} has no provider results`);
+    }
+
+    const result = job.providerResults
+      ? job.providerResults[providerId]?.result
+      : providerId === job.provider
+        ? job.result
+        : undefined;
+
+    if (!result || result.status !== 'COMPLETED') {
+      throw new BadRequestException(
+        `No completed transcript for provider "${providerId}" on job ${jobId}`,
+      );
+    }
+
+    const file = exportTranscript(result, query.format, {
+      maxLineLength:
+        query.maxLineLength ?? DEFAULT_SUBTITLE_OPTIONS.maxLineLength,
+      maxLines: query.maxLines ?? DEFAULT_SUBTITLE_OPTIONS.maxLines,
+      maxCueDuration:
+        query.maxCueDuration ?? DEFAULT_SUBTITLE_OPTIONS.maxCueDuration,
+      includeSpeakers: query.speakers ?? false,
+      speakerNames: getProviderSpeakerNames(job, providerId),
+    });
+
+    const baseName = path.parse(job.fileName).name.replace(/[^\w.-]/g, '_');
+    return new StreamableFile(Buffer.from(file.content, 'utf8'), {
+      type: file.contentType,
+      disposition: `attachment; filename="${baseName}.${providerId}.${file.extension}"`,
+    });
+  }
+
+  // Jobs of other clients are reported as missing
+  private getJobFor(
+    jobId: string,
+    client: ApiClient | undefined,
+  ): TranscriptionJob {
+    const job = this.jobManagerService.getJob(jobId);
+
+    if (!job || !canAccessJob(client, job)) {
+      throw new NotFoundException(`Job with ID ${jobId} not found`);
+    }
+    return job;
+  }
+
+  // Reject empty, corrupt, mislabelled or too long uploads (removed by
+  // RemoveUploadOnErrorInterceptor). Returns the probed media info.
+  private async validateUpload(
+    file: Express.Multer.File,
+  ): Promise<MediaInfo | null> {
+    try {
+      const { media } = await this.uploadValidator.validate(file);
+      return media;
+    } catch (error) {
+      throw new BadRequestException((error as Error).message);
+    }
+  }
+
+  // Count the upload against the client's quotas, right before its job is
+  // created. Over quota the request fails with 429 and the stored upload is
+  // removed by RemoveUploadOnErrorInterceptor.
+  private reserveQuota(
+    client: ApiClient | undefined,
+    media: MediaInfo | null,
+  ): QuotaRecord[] {
+    try {
+      return this.clientQuota.reserve(client, [media?.duration ?? null]);
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        throw new HttpException(error.message, HttpStatus.TOO_MANY_REQUESTS);
+      }
+      throw error;
+    }
+  }
+
+  // Canonical language of an upload with the options and models of the
+  // providers that run. Rejected when the language is malformed, a provider
+  // doesn't support it (or the model) or rejects its options; the stored
+  // upload is removed by RemoveUploadOnErrorInterceptor.
+  private async parseProviderSettings(
+    providerIds: string[],
+    query: Record<string, unknown>,
+    language?: string,
+  ): Promise<ProviderSettings & { languageCode: string }> {
+    const languageCode = this.languageService.parseLanguage(language);
+    if (!languageCode) {
+      throw new BadRequestException(
+        `Invalid language "${language}". Use a code such as en-US, or auto`,
+      );
+    }
+
+    const settings = await parseProviderSettings(
+      this.providerRegistry,
+      providerIds,
+      query,
+      languageCode,
+    );
+    const error = this.languageService.getLanguageError(
+      providerIds,
+      languageCode,
+      settings.models,
+    );
+    if (error) {
+      throw new BadRequestException(error);
+    }
+    return { ...settings, languageCode };
+  }
+
+  // Copies of the rules picked with ?postProcessing= for the new job
+  private getPostProcessingRules(
+    options: PostProcessingOptionsDto,
+    client: ApiClient | undefined,
+  ): JobPostProcessingRule[] | undefined {
+    if (!options.postProcessing?.length) return undefined;
+
+    try {
+      return this.postProcessingRules.getJobRules(
+        options.postProcessing,
+        client,
+      );
+    } catch (error) {
+      throw new BadRequestException((error as Error).message);
+    }
+  }
+
+  // Validate the optional callbackUrl form field; the upload is removed by
+  // RemoveUploadOnErrorInterceptor when it is rejected
+  private async parseCallbackUrl(
+    callbackUrl?: string,
+  ): Promise<string | undefined> {
+    const value = callbackUrl?.trim();
+    if (!value) return undefined;
+
+    const error = this.webhookService.isEnabled()
+      ? await this.webhookService.getCallbackUrlError(value)
+      : 'Webhook callbacks are disabled: WEBHOOK_SECRET is not set';
+
+    if (error) {
+      throw new BadRequestException(error);
+    }
+
+    return value;
+  }
+
+  private isJobFinished(job: TranscriptionJob): boolean {
+    return [
+      JobStatus.COMPLETED,
+      JobStatus.FAILED,
+      JobStatus.CANCELLED,
+    ].includes(job.status);
+  }
 }
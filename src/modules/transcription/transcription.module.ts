@@ -1,19 +1,80 @@
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TranscriptionController } from './transcription.controller';
 import { TranscriptionService } from './transcription.service';
 import { AwsTranscribeService } from './providers/aws-transcribe/aws-transcribe.service';
 import { DeepgramService } from './providers/deepgram/deepgram.service';
 import { JobManagerService } from './job-manager.service';
+import { ProviderRegistryService } from './providers/provider-registry.service';
+import { JOB_STORE } from './job-store/job-store.interface';
+import { InMemoryJobStore } from './job-store/in-memory-job-store';
+import { FileJobStore } from './job-store/file-job-store';
+import { RetentionService } from './retention/retention.service';
+import { RetentionController } from './retention/retention.controller';
+import { WebhookService } from './webhooks/webhook.service';
+import { AudioPreprocessorService } from './preprocessing/audio-preprocessor.service';
+import { UploadModule } from './upload/upload.module';
+import { AwsVocabularyController } from './providers/aws-transcribe/aws-vocabulary.controller';
+import { AwsStreamingService } from './providers/aws-transcribe/aws-streaming.service';
+import { DeepgramLiveService } from './providers/deepgram/deepgram-live.service';
+import { LiveTranscriptionGateway } from './streaming/live-transcription.gateway';
+import { BatchService } from './batch/batch.service';
+import { ProviderQueueService } from './queue/provider-queue.service';
+import { PricingService } from './usage/pricing.service';
+import { UsageController } from './usage/usage.controller';
+import { UsageLedgerService } from './usage/usage-ledger.service';
+import { BatchController } from './batch/batch.controller';
+import { DiarizationController } from './diarization/diarization.controller';
+import { ClientQuotaService } from './quota/client-quota.service';
+import { LanguageService } from './language/language.service';
+import { TranscriptSearchService } from './search/transcript-search.service';
+import { SearchController } from './search/search.controller';
+import { PostProcessingRulesService } from './postprocessing/post-processing-rules.service';
+import { PostProcessingController } from './postprocessing/post-processing.controller';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
-  imports: [ConfigModule],
-  controllers: [TranscriptionController],
+  imports: [ConfigModule, UploadModule, AuthModule],
+  controllers: [
+    TranscriptionController,
+    RetentionController,
+    AwsVocabularyController,
+    BatchController,
+    UsageController,
+    DiarizationController,
+    SearchController,
+    PostProcessingController,
+  ],
   providers: [
     TranscriptionService,
+    ProviderRegistryService,
     AwsTranscribeService,
     DeepgramService,
     JobManagerService,
+    RetentionService,
+    WebhookService,
+    AudioPreprocessorService,
+    AwsStreamingService,
+    DeepgramLiveService,
+    LiveTranscriptionGateway,
+    BatchService,
+    ProviderQueueService,
+    PricingService,
+    UsageLedgerService,
+    ClientQuotaService,
+    LanguageService,
+    TranscriptSearchService,
+    PostProcessingRulesService,
+    {
+      provide: JOB_STORE,
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('jobs.store') === 'file'
+          ? new FileJobStore(
+              configService.get<string>('jobs.storeDir') || './data/jobs',
+            )
+          : new InMemoryJobStore(),
+      inject: [ConfigService],
+    },
   ],
   exports: [TranscriptionService],
 })
@@ -1,81 +1,201 @@
-import { Injectable } from '@nestjs/common';
-import { AwsTranscribeService } from './providers/aws-transcribe/aws-transcribe.service';
-import { DeepgramService } from './providers/deepgram/deepgram.service';
-import { JobManagerService, JobStatus } from './job-manager.service';
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  getProviderIds,
+  JobCreateOptions,
+  JobManagerService,
+  JobStatus,
+  TranscriptionJob,
+} from './job-manager.service';
+import { ProviderRegistryService } from './providers/provider-registry.service';
+import { TranscriptionProvider } from './providers/transcription-provider.interface';
+import { TranscriptResult } from './providers/transcript-result.interface';
+import { scoreTranscript } from './scoring/accuracy';
+import { AudioPreprocessorService } from './preprocessing/audio-preprocessor.service';
+import { ProviderQueueService } from './queue/provider-queue.service';
+import { PricingService } from './usage/pricing.service';
+import { UsageLedgerService } from './usage/usage-ledger.service';
+import { ProviderUsage } from './usage/price-table';
+import {
+  combineSignals,
+  ProviderAbortedError,
+  sleep,
+  timeoutSignal,
+} from './providers/abort';
+import { getRetryDelay, RetryPolicy } from './providers/provider-errors';
+import {
+  CONSENSUS_PROVIDER_ID,
+  createConsensusResult,
+} from './consensus/rover';
+import { getCompletedResults } from './diarization/job-diarization';
+import { applyPostProcessing } from './postprocessing/post-processing';
 import * as fs from 'fs';
 
 @Injectable()
-export class TranscriptionService {
+export class TranscriptionService implements OnApplicationBootstrap {
+  // Running jobs, aborted by cancelJob
+  private abortControllers: Map<string, AbortController> = new Map();
+
   constructor(
-    private awsTranscribeService: AwsTranscribeService,
-    private deepgramService: DeepgramService,
+    private configService: ConfigService,
+    private providerRegistry: ProviderRegistryService,
     private jobManagerService: JobManagerService,
+    private audioPreprocessor: AudioPreprocessorService,
+    private providerQueue: ProviderQueueService,
+    private pricingService: PricingService,
+    private usageLedger: UsageLedgerService,
   ) {}
 
+  // Pick up jobs that were interrupted by a restart (persistent stores only)
+  onApplicationBootstrap() {
+    for (const job of this.jobManagerService.getInterruptedJobs()) {
+      // Batches are recovered by the batch service, which keeps their
+      // children within the batch concurrency limit
+      if (job.batch || job.batchId) continue;
+      if (!this.prepareRecovery(job)) continue;
+
+      this.runJob(job.id).catch((error) => {
+        console.error(`Job ${job.id} failed:`, error);
+      });
+    }
+  }
+
+  // Whether an interrupted job can be resumed; jobs that can't (recovery
+  // disabled, file or provider gone) are marked as failed
+  prepareRecovery(job: TranscriptionJob): boolean {
+    const recovery = this.configService.get<string>('jobs.recovery');
+    const canResume =
+      recovery === 'resume' &&
+      fs.existsSync(job.filePath) &&
+      (job.providerResults
+        ? getProviderIds(job).every((id) => this.providerRegistry.has(id))
+        : !!job.provider && this.providerRegistry.has(job.provider));
+
+    if (!canResume) {
+      console.warn(`Marking interrupted job ${job.id} as failed`);
+      this.jobManagerService.failJob(
+        job.id,
+        'Job was interrupted by a server restart',
+      );
+      return false;
+    }
+
+    console.log(`Resuming interrupted job ${job.id}`);
+    return true;
+  }
+
+  // Resolve requested provider ids, defaulting to every registered provider
+  resolveProviders(providerIds?: string[]): TranscriptionProvider[] {
+    const ids =
+      providerIds && providerIds.length > 0
+        ? providerIds
+        : this.providerRegistry.getIds();
+
+    return ids.map((id) => this.getProvider(id));
+  }
+
+  getProvider(providerId: string): TranscriptionProvider {
+    const provider = this.providerRegistry.get(providerId);
+    if (!provider) {
+      throw new Error(
+        `Unknown provider "${providerId}". Available providers: ${this.providerRegistry.getIds().join(', ')}`,
+      );
+    }
+    return provider;
+  }
+
   async compareTranscriptions(
     filePath: string,
     fileName: string,
     languageCode: string = 'en-US',
-    deepgramModel: string = 'nova-3',
+    models: Record<string, string> = {},
+    providerIds?: string[],
+    referenceTranscript?: string,
   ) {
+    const providers = this.resolveProviders(providerIds);
     const startTime = Date.now();
 
-    // Run both services in parallel
-    const [awsResult, deepgramResult] = await Promise.all([
-      this.awsTranscribeService.transcribeFile(
-        filePath,
-        fileName,
-        languageCode,
+    // Run all selected providers in parallel
+    const providerOutputs = await Promise.all(
+      providers.map((provider) =>
+        this.callProvider(
+          provider,
+          filePath,
+          fileName,
+          languageCode,
+          models[provider.id],
+        ),
       ),
-      this.deepgramService.transcribeFile(
-        filePath,
-        fileName,
-        languageCode.split('-')[0],
-        deepgramModel,
-      ), // Deepgram uses 'en' instead of 'en-US'
-    ]);
+    );
 
     const totalTime = Date.now() - startTime;
 
+    const results: Record<string, TranscriptResult> = {};
+    providers.forEach((provider, index) => {
+      results[provider.id] = providerOutputs[index];
+    });
+
+    // Score each provider against the reference when one is given
+    const accuracy = referenceTranscript
+      ? providers
+          .filter((provider) => results[provider.id].transcript)
+          .map((provider) => ({
+            provider: provider.id,
+            name: provider.displayName,
+            score: scoreTranscript(
+              referenceTranscript,
+              results[provider.id].transcript || '',
+              languageCode,
+            ),
+          }))
+          .sort((a, b) => a.score.wer - b.score.wer)
+      : [];
+
+    // Rank providers by processing time
+    const ranked = providers
+      .map((provider, index) => ({
+        name: provider.displayName,
+        processingTime: providerOutputs[index].processingTime,
+      }))
+      .sort((a, b) => a.processingTime - b.processingTime);
+
     return {
       fileName,
       languageCode,
       totalComparisonTime: `${(totalTime / 1000).toFixed(2)}s`,
-      results: {
-        awsTranscribe: awsResult,
-        deepgram: deepgramResult,
-      },
+      results,
+      accuracy: Object.fromEntries(
+        accuracy.map((entry) => [entry.provider, entry.score]),
+      ),
       comparison: {
-        faster:
-          parseFloat(awsResult.duration) < parseFloat(deepgramResult.duration)
-            ? 'AWS Transcribe'
-            : 'Deepgram',
-        timeDifference: `${Math.abs(parseFloat(awsResult.duration) - parseFloat(deepgramResult.duration)).toFixed(2)}s`,
+        faster: ranked[0]?.name,
+        timeDifference:
+          ranked.length > 1
+            ? `${(ranked[ranked.length - 1].processingTime - ranked[0].processingTime).toFixed(2)}s`
+            : '0.00s',
+        mostAccurate: accuracy[0]?.name,
       },
     };
   }
 
   async transcribeWithProvider(
-    provider: 'aws' | 'deepgram',
+    providerId: string,
     filePath: string,
     fileName: string,
     languageCode: string = 'en-US',
-    deepgramModel: string = 'nova-3',
-  ) {
-    if (provider === 'aws') {
-      return this.awsTranscribeService.transcribeFile(
-        filePath,
-        fileName,
-        languageCode,
-      );
-    } else {
-      return this.deepgramService.transcribeFile(
-        filePath,
-        fileName,
-        languageCode.split('-')[0],
-        deepgramModel,
-      );
-    }
+    model?: string,
+    signal?: AbortSignal,
+    providerOptions?: Record<string, unknown>,
+  ): Promise<TranscriptResult> {
+    return this.callProvider(
+      this.getProvider(providerId),
+      filePath,
+      fileName,
+      languageCode,
+      model,
+      signal,
+      providerOptions,
+    );
   }
 
   // Async version that returns job ID immediately
@@ -83,13 +203,22 @@ export class TranscriptionService {
     filePath: string,
     fileName: string,
     languageCode: string = 'en-US',
-    deepgramModel: string = 'nova-3',
+    providerIds?: string[],
+    options: JobCreateOptions = {},
   ): Promise<string> {
+    const providers = this.resolveProviders(providerIds);
+
     const jobId = this.jobManagerService.createComparisonJob(
       fileName,
       filePath,
       languageCode,
-      deepgramModel,
+      providers.map((provider) => provider.id),
+      {
+        ...options,
+        consensus:
+          options.consensus ??
+          this.configService.get<boolean>('consensus.enabled'),
+      },
     );
 
     // Run transcription in background
@@ -102,18 +231,20 @@ export class TranscriptionService {
 
   // Async version for single provider
   async startTranscribeWithProviderAsync(
-    provider: 'aws' | 'deepgram',
+    providerId: string,
     filePath: string,
     fileName: string,
     languageCode: string = 'en-US',
-    deepgramModel: string = 'nova-3',
+    options: JobCreateOptions = {},
   ): Promise<string> {
+    this.getProvider(providerId);
+
     const jobId = this.jobManagerService.createJob(
       fileName,
       filePath,
       languageCode,
-      provider,
-      deepgramModel,
+      providerId,
+      options,
     );
 
     // Run transcription in background
@@ -124,78 +255,391 @@ export class TranscriptionService {
     return jobId;
   }
 
-  private async runCompareTranscriptionsJob(jobId: string): Promise<void> {
+  // Run a created job until every provider is done. Used for recovery and
+  // by the batch runner, which starts jobs itself to limit concurrency.
+  runJob(jobId: string): Promise<void> {
+    const job = this.jobManagerService.getJob(jobId);
+    if (!job || job.status === JobStatus.CANCELLED) return Promise.resolve();
+
+    return job.providerResults
+      ? this.runCompareTranscriptionsJob(jobId)
+      : this.runTranscribeWithProviderJob(jobId);
+  }
+
+  // Attach a reference transcript to an existing job and score every
+  // provider that has already finished
+  attachReferenceTranscript(jobId: string, referenceTranscript: string): void {
+    this.jobManagerService.setReferenceTranscript(jobId, referenceTranscript);
+
     const job = this.jobManagerService.getJob(jobId);
     if (!job) return;
 
-    this.jobManagerService.updateJobStatus(jobId, JobStatus.PROCESSING);
+    const providerIds = job.providerResults
+      ? Object.keys(job.providerResults)
+      : job.provider
+        ? [job.provider]
+        : [];
+    for (const providerId of providerIds) {
+      const result = job.providerResults
+        ? job.providerResults[providerId]?.result
+        : job.result;
+      this.scoreProviderResult(jobId, providerId, result);
+    }
+  }
 
-    const startTime = Date.now();
-    const deepgramModel = job.deepgramModel || 'nova-3';
+  // Apply the job's post-processing rules. A rule that fails leaves the
+  // provider's result as it was rather than failing the provider.
+  private postProcess(
+    jobId: string,
+    result: TranscriptResult,
+  ): TranscriptResult {
+    const job = this.jobManagerService.getJob(jobId);
+    if (!job?.postProcessingRules?.length) return result;
+
+    try {
+      return applyPostProcessing(
+        result,
+        job.postProcessingRules,
+        result.language || job.languageCode,
+      );
+    } catch (error) {
+      console.error(`[PostProcessing] Failed for job ${jobId}:`, error);
+      return result;
+    }
+  }
+
+  // Compute WER/CER for one provider if the job has a reference transcript.
+  // Called before the result is stored so the job never completes unscored.
+  private scoreProviderResult(
+    jobId: string,
+    providerId: string,
+    result?: TranscriptResult,
+  ): void {
+    const job = this.jobManagerService.getJob(jobId);
+    if (!job || !job.referenceTranscript) return;
+    if (!result || result.status !== 'COMPLETED' || !result.transcript) return;
 
-    // Run both providers independently (fire-and-forget)
-    // Each provider will update the job when it completes
-    const awsPromise = this.runProviderTranscription(
+    this.jobManagerService.setProviderAccuracy(
       jobId,
-      'aws',
-      job.filePath,
-      job.fileName,
-      job.languageCode,
-      deepgramModel,
+      providerId,
+      scoreTranscript(
+        job.referenceTranscript,
+        result.transcript,
+        result.language || job.languageCode,
+      ),
+    );
+  }
+
+  // Cancel a running job: mark it cancelled first so late provider results
+  // are dropped, then abort in-flight provider calls. Cancelling a batch
+  // cancels its unfinished jobs.
+  cancelJob(jobId: string): void {
+    this.jobManagerService.cancelJob(jobId);
+    this.abortControllers
+      .get(jobId)
+      ?.abort(new ProviderAbortedError('Job was cancelled'));
+
+    for (const child of this.jobManagerService.getBatchJobs(jobId)) {
+      if ([JobStatus.PENDING, JobStatus.PROCESSING].includes(child.status)) {
+        this.cancelJob(child.id);
+      }
+    }
+  }
+
+  // Call a provider with the job's abort signal plus its configured timeout
+  // (`<providerId>.timeoutMs` in configuration.ts)
+  private async callProvider(
+    provider: TranscriptionProvider,
+    filePath: string,
+    fileName: string,
+    languageCode: string,
+    model?: string,
+    signal?: AbortSignal,
+    providerOptions?: Record<string, unknown>,
+  ): Promise<TranscriptResult> {
+    const timeoutMs = this.configService.get<number>(
+      `${provider.id}.timeoutMs`,
     );
+    const timeout = timeoutMs
+      ? timeoutSignal(
+          timeoutMs,
+          `${provider.displayName} timed out after ${timeoutMs / 1000}s`,
+        )
+      : undefined;
+    const combined = combineSignals(signal, timeout?.signal);
+
+    try {
+      return await provider.transcribeFile(filePath, fileName, {
+        languageCode,
+        model: provider.capabilities.modelSelection ? model : undefined,
+        signal: combined.signal,
+        providerOptions,
+      });
+    } finally {
+      timeout?.clear();
+      combined.clear();
+    }
+  }
 
-    const deepgramPromise = this.runProviderTranscription(
+  // Billed audio and estimated cost of a completed call, added to the usage
+  // ledger. The probed length of the upload is preferred; AWS only reports
+  // the last word's end time.
+  private recordUsage(
+    jobId: string,
+    providerId: string,
+    result: TranscriptResult,
+  ): ProviderUsage | undefined {
+    const job = this.jobManagerService.getJob(jobId);
+    const audioSeconds = job?.media?.duration ?? result.audioDuration;
+    if (!job || result.status !== 'COMPLETED' || audioSeconds == null) {
+      return undefined;
+    }
+
+    const provider = this.getProvider(providerId);
+    const model = provider.getBillingModel({
+      languageCode: job.languageCode,
+      model: provider.capabilities.modelSelection
+        ? job.models?.[providerId]
+        : undefined,
+      providerOptions: job.providerOptions?.[providerId],
+    });
+    const usage = this.pricingService.estimate(providerId, model, audioSeconds);
+    this.usageLedger.record({
+      jobId,
+      clientId: job.clientId,
+      provider: providerId,
+      usage,
+      completedAt: new Date(),
+    });
+    return usage;
+  }
+
+  // Run a provider call through the provider's queue (the job's priority
+  // and client decide its place) and retry transient failures with
+  // exponential backoff (`<providerId>.retry` in configuration.ts). Every
+  // attempt is recorded on the job.
+  private async callWithRetries(
+    jobId: string,
+    providerId: string,
+    signal: AbortSignal | undefined,
+    call: () => Promise<TranscriptResult>,
+  ): Promise<TranscriptResult> {
+    const job = this.jobManagerService.getJob(jobId);
+    const ticket = {
+      providerId,
       jobId,
-      'deepgram',
+      clientId: job?.clientId,
+      priority: job?.priority,
+    };
+    const policy = this.getRetryPolicy(providerId);
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = new Date();
+      const result = await this.providerQueue.run(ticket, call, signal);
+
+      const retry =
+        result.status === 'FAILED' &&
+        result.errorType === 'transient' &&
+        attempt < policy.maxAttempts &&
+        !signal?.aborted;
+      const retryDelayMs = retry ? getRetryDelay(attempt, policy) : undefined;
+
+      this.jobManagerService.recordProviderAttempt(jobId, providerId, {
+        attempt,
+        startedAt,
+        processingTime: result.processingTime,
+        status: result.status === 'COMPLETED' ? 'completed' : 'failed',
+        error: result.error ?? undefined,
+        errorType: result.errorType,
+        retryDelayMs,
+      });
+      if (retryDelayMs === undefined) return result;
+
+      console.warn(
+        `[Retry] ${providerId} failed for job ${jobId} (attempt ${attempt}/${policy.maxAttempts}): ${result.error}. Retrying in ${retryDelayMs}ms`,
+      );
+      await sleep(retryDelayMs, signal);
+    }
+  }
+
+  private getRetryPolicy(providerId: string): RetryPolicy {
+    const retry = this.configService.get<Partial<RetryPolicy>>(
+      `${providerId}.retry`,
+    );
+    return {
+      maxAttempts: Math.max(1, retry?.maxAttempts ?? 1),
+      baseDelayMs: retry?.baseDelayMs ?? 1000,
+      maxDelayMs: retry?.maxDelayMs ?? 30000,
+    };
+  }
+
+  // Probe and, if needed, transcode the upload once for all providers of
+  // the job. Returns the file (and name) the providers should receive.
+  private async prepareInput(
+    job: TranscriptionJob,
+    providerIds: string[],
+    signal: AbortSignal,
+  ): Promise<{ filePath: string; fileName: string }> {
+    const prepared = await this.audioPreprocessor.prepare(
       job.filePath,
       job.fileName,
-      job.languageCode,
-      deepgramModel,
+      this.resolveProviders(providerIds),
+      signal,
+    );
+    this.jobManagerService.setPreprocessing(
+      job.id,
+      prepared.media,
+      prepared.preprocessing,
     );
+    return { filePath: prepared.filePath, fileName: prepared.fileName };
+  }
 
-    // Wait for both to complete (for cleanup purposes only)
-    await Promise.allSettled([awsPromise, deepgramPromise]);
+  // Remove the upload and any transcoded copy once the job is done
+  private cleanupJobFiles(job: TranscriptionJob): void {
+    const preprocessedPath = this.jobManagerService.getJob(job.id)
+      ?.preprocessing?.filePath;
 
-    // Clean up uploaded file after all providers are done
-    if (fs.existsSync(job.filePath)) {
-      fs.unlinkSync(job.filePath);
+    for (const filePath of [job.filePath, preprocessedPath]) {
+      if (filePath && fs.existsSync(filePath)) {
+        fs.unlinkSync(filePath);
+      }
+    }
+  }
+
+  private async runCompareTranscriptionsJob(jobId: string): Promise<void> {
+    this.jobManagerService.resetUnfinishedProviders(jobId);
+    const job = this.jobManagerService.getJob(jobId);
+    if (!job || !job.providerResults) return;
+
+    this.jobManagerService.updateJobStatus(jobId, JobStatus.PROCESSING);
+
+    const abortController = new AbortController();
+    this.abortControllers.set(jobId, abortController);
+    const pendingProviders = getProviderIds(job).filter(
+      (providerId) => job.providerResults![providerId].status === 'pending',
+    );
+
+    try {
+      // Every provider gets the same input, even when only some are pending
+      const input = await this.prepareInput(
+        job,
+        getProviderIds(job),
+        abortController.signal,
+      );
+
+      // Run every pending provider independently (fire-and-forget)
+      // Each provider will update the job when it completes
+      const providerPromises = pendingProviders.map((providerId) =>
+        this.runProviderTranscription(
+          jobId,
+          providerId,
+          input.filePath,
+          input.fileName,
+          job.languageCode,
+          job.models?.[providerId],
+          abortController.signal,
+          job.providerOptions?.[providerId],
+        ),
+      );
+
+      // Wait for all to complete, then combine their transcripts
+      await Promise.allSettled(providerPromises);
+      this.runConsensus(jobId);
+    } finally {
+      this.abortControllers.delete(jobId);
+
+      // Clean up uploaded files after all providers are done
+      this.cleanupJobFiles(job);
+    }
+  }
+
+  // Combine the finished transcripts into the job's consensus result, if
+  // one was requested
+  private runConsensus(jobId: string): void {
+    const job = this.jobManagerService.getJob(jobId);
+    if (job?.providerResults?.[CONSENSUS_PROVIDER_ID]?.status !== 'pending') {
+      return;
+    }
+
+    const results = getCompletedResults(job);
+    if (Object.keys(results).length < 2) {
+      this.jobManagerService.failProviderResult(
+        jobId,
+        CONSENSUS_PROVIDER_ID,
+        'A consensus needs at least two completed transcripts',
+      );
+      return;
+    }
+
+    try {
+      const result = createConsensusResult(results, {
+        tieBreaker:
+          this.configService.get<string>('consensus.tieBreaker') || undefined,
+        confidenceWeight:
+          this.configService.get<number>('consensus.confidenceWeight') ?? 0.5,
+      });
+
+      this.scoreProviderResult(jobId, CONSENSUS_PROVIDER_ID, result);
+      this.jobManagerService.updateProviderResult(
+        jobId,
+        CONSENSUS_PROVIDER_ID,
+        result,
+      );
+    } catch (error) {
+      console.error(`[Consensus] Failed for job ${jobId}:`, error);
+      this.jobManagerService.failProviderResult(
+        jobId,
+        CONSENSUS_PROVIDER_ID,
+        (error as Error).message,
+      );
     }
   }
 
   // Run a single provider and update job immediately when done
   private async runProviderTranscription(
     jobId: string,
-    provider: 'aws' | 'deepgram',
+    providerId: string,
     filePath: string,
     fileName: string,
     languageCode: string,
-    deepgramModel: string = 'nova-3',
+    model?: string,
+    signal?: AbortSignal,
+    providerOptions?: Record<string, unknown>,
   ): Promise<void> {
     try {
-      let result;
-      if (provider === 'aws') {
-        result = await this.awsTranscribeService.transcribeFile(
-          filePath,
-          fileName,
-          languageCode,
-        );
-      } else {
-        result = await this.deepgramService.transcribeFile(
-          filePath,
-          fileName,
-          languageCode.split('-')[0],
-          deepgramModel,
-        );
-      }
+      const providerResult = await this.callWithRetries(
+        jobId,
+        providerId,
+        signal,
+        () => {
+          this.jobManagerService.startProvider(jobId, providerId);
+          return this.transcribeWithProvider(
+            providerId,
+            filePath,
+            fileName,
+            languageCode,
+            model,
+            signal,
+            providerOptions,
+          );
+        },
+      );
 
       // Update job immediately when this provider completes
-      this.jobManagerService.updateProviderResult(jobId, provider, result);
+      const result = this.postProcess(jobId, providerResult);
+      this.scoreProviderResult(jobId, providerId, result);
+      this.jobManagerService.updateProviderResult(
+        jobId,
+        providerId,
+        result,
+        this.recordUsage(jobId, providerId, result),
+      );
     } catch (error) {
-      console.error(`Provider ${provider} failed for job ${jobId}:`, error);
+      console.error(`Provider ${providerId} failed for job ${jobId}:`, error);
       this.jobManagerService.failProviderResult(
         jobId,
-        provider,
-        error.message,
+        providerId,
+        (error as Error).message,
       );
     }
   }
@@ -204,31 +648,47 @@ export class TranscriptionService {
     const job = this.jobManagerService.getJob(jobId);
     if (!job || !job.provider) return;
 
+    const abortController = new AbortController();
+    this.abortControllers.set(jobId, abortController);
+
     try {
       this.jobManagerService.updateJobStatus(jobId, JobStatus.PROCESSING);
 
-      const deepgramModel = job.deepgramModel || 'nova-3';
-      const result = await this.transcribeWithProvider(
+      const input = await this.prepareInput(
+        job,
+        [job.provider],
+        abortController.signal,
+      );
+      const providerResult = await this.callWithRetries(
+        jobId,
         job.provider,
-        job.filePath,
-        job.fileName,
-        job.languageCode,
-        deepgramModel,
+        abortController.signal,
+        () =>
+          this.transcribeWithProvider(
+            job.provider!,
+            input.filePath,
+            input.fileName,
+            job.languageCode,
+            job.models?.[job.provider!],
+            abortController.signal,
+            job.providerOptions?.[job.provider!],
+          ),
       );
 
-      this.jobManagerService.completeJob(jobId, result);
-
-      // Clean up uploaded file after processing
-      if (fs.existsSync(job.filePath)) {
-        fs.unlinkSync(job.filePath);
-      }
+      const result = this.postProcess(jobId, providerResult);
+      this.scoreProviderResult(jobId, job.provider, result);
+      this.jobManagerService.completeJob(
+        jobId,
+        result,
+        this.recordUsage(jobId, job.provider, result),
+      );
     } catch (error) {
-      this.jobManagerService.failJob(jobId, error.message);
+      this.jobManagerService.failJob(jobId, (error as Error).message);
+    } finally {
+      this.abortControllers.delete(jobId);
 
-      // Clean up uploaded file if error occurs
-      if (fs.existsSync(job.filePath)) {
-        fs.unlinkSync(job.filePath);
-      }
+      // Clean up uploaded files after processing or if an error occurs
+      this.cleanupJobFiles(job);
     }
   }
 }
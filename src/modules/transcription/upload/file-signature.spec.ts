@@ -0,0 +1,39 @@
+import { ALLOWED_EXTENSIONS, detectFileType } from './file-signature';
+
+describe('detectFileType', () => {
+  const header = (...parts: (string | number[])[]) =>
+    Buffer.concat(
+      parts.map((part) =>
+        typeof part === 'string'
+          ? Buffer.from(part, 'latin1')
+          : Buffer.from(part),
+      ),
+    );
+
+  it.each([
+    ['mp3', header('ID3', [3, 0, 0])],
+    ['mp3', header([0xff, 0xfb, 0x90, 0x64])],
+    ['aac', header([0xff, 0xf1, 0x50, 0x80])],
+    ['wav', header('RIFF', [0x24, 0, 0, 0], 'WAVEfmt ')],
+    ['flac', header('fLaC', [0, 0, 0, 0x22])],
+    ['ogg', header('OggS', [0, 2])],
+    ['mp4', header([0, 0, 0, 0x20], 'ftypM4A ')],
+    ['webm', header([0x1a, 0x45, 0xdf, 0xa3])],
+    ['asf', header([0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11])],
+    ['aiff', header('FORM', [0, 0, 0, 0], 'AIFF')],
+  ])('should detect %s', (id, bytes) => {
+    expect(detectFileType(bytes)?.id).toBe(id);
+  });
+
+  it('should not detect text or truncated headers', () => {
+    expect(detectFileType(Buffer.from('hello world'))).toBeNull();
+    expect(detectFileType(Buffer.from('RIFF'))).toBeNull();
+    expect(detectFileType(Buffer.alloc(0))).toBeNull();
+  });
+
+  it('should accept whole extensions only', () => {
+    expect(ALLOWED_EXTENSIONS).toContain('m4a');
+    expect(ALLOWED_EXTENSIONS).not.toContain('mp3x');
+    expect(ALLOWED_EXTENSIONS).not.toContain('txt');
+  });
+});
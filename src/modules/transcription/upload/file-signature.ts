@@ -0,0 +1,165 @@
+// Magic-byte detection for the audio/video containers we accept. Each type
+// lists the file extensions that may carry it, so an upload is only valid
+// when its content matches its extension.
+
+export interface FileType {
+  id: string;
+  description: string;
+  extensions: string[];
+  match: (header: Buffer) => boolean;
+}
+
+// Bytes needed by the longest signature below
+export const SIGNATURE_LENGTH = 64;
+
+const ascii = (header: Buffer, offset: number, text: string): boolean =>
+  header.length >= offset + text.length &&
+  header.toString('latin1', offset, offset + text.length) === text;
+
+const bytes = (header: Buffer, offset: number, values: number[]): boolean =>
+  header.length >= offset + values.length &&
+  values.every((value, index) => header[offset + index] === value);
+
+// MPEG audio frame header: 11 sync bits, layer bits not "reserved"
+const isMpegAudioFrame = (header: Buffer): boolean =>
+  header.length >= 2 &&
+  header[0] === 0xff &&
+  (header[1] & 0xe0) === 0xe0 &&
+  (header[1] & 0x06) !== 0x00;
+
+// ADTS AAC frame header: sync bits with layer bits set to 00
+const isAdtsFrame = (header: Buffer): boolean =>
+  header.length >= 2 && header[0] === 0xff && (header[1] & 0xf6) === 0xf0;
+
+export const FILE_TYPES: FileType[] = [
+  {
+    id: 'mp3',
+    description: 'MP3',
+    extensions: ['mp3'],
+    match: (header) => ascii(header, 0, 'ID3') || isMpegAudioFrame(header),
+  },
+  {
+    id: 'aac',
+    description: 'AAC (ADTS)',
+    extensions: ['aac'],
+    match: isAdtsFrame,
+  },
+  {
+    id: 'wav',
+    description: 'WAV',
+    extensions: ['wav'],
+    match: (header) =>
+      (ascii(header, 0, 'RIFF') || ascii(header, 0, 'RF64')) &&
+      ascii(header, 8, 'WAVE'),
+  },
+  {
+    id: 'avi',
+    description: 'AVI',
+    extensions: ['avi'],
+    match: (header) => ascii(header, 0, 'RIFF') && ascii(header, 8, 'AVI '),
+  },
+  {
+    id: 'flac',
+    description: 'FLAC',
+    extensions: ['flac'],
+    match: (header) => ascii(header, 0, 'fLaC'),
+  },
+  {
+    id: 'ogg',
+    description: 'Ogg',
+    extensions: ['ogg', 'opus'],
+    match: (header) => ascii(header, 0, 'OggS'),
+  },
+  {
+    id: 'mp4',
+    description: 'MP4/QuickTime',
+    extensions: ['mp4', 'm4a', 'm4p', 'm4v', 'mov', 'qt', '3gp'],
+    // ISO base media: a box type at offset 4 (ftyp, or moov/mdat/wide/free
+    // in older QuickTime files)
+    match: (header) =>
+      ['ftyp', 'moov', 'mdat', 'wide', 'free', 'skip'].some((box) =>
+        ascii(header, 4, box),
+      ),
+  },
+  {
+    id: 'webm',
+    description: 'WebM/Matroska',
+    extensions: ['webm'],
+    match: (header) => bytes(header, 0, [0x1a, 0x45, 0xdf, 0xa3]),
+  },
+  {
+    id: 'amr',
+    description: 'AMR',
+    extensions: ['amr'],
+    match: (header) => ascii(header, 0, '#!AMR'),
+  },
+  {
+    id: 'asf',
+    description: 'Windows Media',
+    extensions: ['wma'],
+    match: (header) =>
+      bytes(header, 0, [0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11]),
+  },
+  {
+    id: 'aiff',
+    description: 'AIFF',
+    extensions: ['aiff', 'aif'],
+    match: (header) =>
+      ascii(header, 0, 'FORM') &&
+      (ascii(header, 8, 'AIFF') || ascii(header, 8, 'AIFC')),
+  },
+  {
+    id: 'ape',
+    description: "Monkey's Audio",
+    extensions: ['ape'],
+    match: (header) => ascii(header, 0, 'MAC '),
+  },
+  {
+    id: 'wavpack',
+    description: 'WavPack',
+    extensions: ['wv'],
+    match: (header) => ascii(header, 0, 'wvpk'),
+  },
+  {
+    id: 'musepack',
+    description: 'Musepack',
+    extensions: ['mpc'],
+    match: (header) => ascii(header, 0, 'MPCK') || ascii(header, 0, 'MP+'),
+  },
+  {
+    id: 'mpeg',
+    description: 'MPEG program stream',
+    extensions: ['mpg', 'mpeg'],
+    match: (header) =>
+      bytes(header, 0, [0x00, 0x00, 0x01, 0xba]) ||
+      bytes(header, 0, [0x00, 0x00, 0x01, 0xb3]),
+  },
+  {
+    id: 'realmedia',
+    description: 'RealMedia',
+    extensions: ['rm', 'ra'],
+    match: (header) =>
+      ascii(header, 0, '.RMF') || bytes(header, 0, [0x2e, 0x72, 0x61, 0xfd]),
+  },
+  {
+    id: 'voc',
+    description: 'Creative Voice',
+    extensions: ['voc'],
+    match: (header) => ascii(header, 0, 'Creative Voice File'),
+  },
+  {
+    id: 'dss',
+    description: 'Digital Speech Standard',
+    extensions: ['dss'],
+    match: (header) => ascii(header, 1, 'dss') || ascii(header, 1, 'ds2'),
+  },
+];
+
+// Every extension accepted by the upload filter
+export const ALLOWED_EXTENSIONS: string[] = Array.from(
+  new Set(FILE_TYPES.flatMap((type) => type.extensions)),
+);
+
+export function detectFileType(header: Buffer): FileType | null {
+  return FILE_TYPES.find((type) => type.match(header)) ?? null;
+}
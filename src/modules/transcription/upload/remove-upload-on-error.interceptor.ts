@@ -0,0 +1,42 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import { catchError, Observable, throwError } from 'rxjs';
+import * as fs from 'fs';
+
+// Delete the stored upload(s) when the request fails after multer ran, e.g.
+// when a query DTO is rejected by the ValidationPipe. Register after
+// FileInterceptor / FileFieldsInterceptor so `req.file(s)` is set.
+@Injectable()
+export class RemoveUploadOnErrorInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest<
+      Request & {
+        file?: Express.Multer.File;
+        files?: Express.Multer.File[] | Record<string, Express.Multer.File[]>;
+      }
+    >();
+
+    return next.handle().pipe(
+      catchError((error: unknown) => {
+        // req.files is an array (FilesInterceptor) or keyed by field name
+        const files: Express.Multer.File[] = [
+          ...(request.file ? [request.file] : []),
+          ...(Array.isArray(request.files)
+            ? request.files
+            : Object.values(request.files ?? {}).flat()),
+        ];
+        for (const file of files) {
+          if (fs.existsSync(file.path)) {
+            fs.unlinkSync(file.path);
+          }
+        }
+        return throwError(() => error);
+      }),
+    );
+  }
+}
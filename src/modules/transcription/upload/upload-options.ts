@@ -0,0 +1,57 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MulterOptions } from '@nestjs/platform-express/multer/interfaces/multer-options.interface';
+import { diskStorage } from 'multer';
+import * as path from 'path';
+import { ALLOWED_EXTENSIONS } from './file-signature';
+
+// Multer settings shared by every upload route. Only the extension can be
+// checked here; the content is validated by UploadValidatorService once the
+// file is on disk.
+export function createUploadOptions(
+  configService: ConfigService,
+): MulterOptions {
+  const maxFileSizeMb =
+    configService.get<number>('uploads.maxFileSizeMb') || 500;
+
+  return {
+    storage: diskStorage({
+      destination:
+        configService.get<string>('uploads.dir') || './public/uploads',
+      filename: (req, file, cb) => {
+        const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
+        cb(
+          null,
+          file.fieldname + '-' + uniqueSuffix + path.extname(file.originalname),
+        );
+      },
+    }),
+    // Exceeding the limit is answered with 413 Payload Too Large
+    limits: { fileSize: maxFileSizeMb * 1024 * 1024 },
+    fileFilter: createExtensionFilter(ALLOWED_EXTENSIONS),
+  };
+}
+
+// Multer fileFilter accepting the given lower-case extensions
+export function createExtensionFilter(
+  extensions: string[],
+  label = 'audio format',
+): NonNullable<MulterOptions['fileFilter']> {
+  return (req, file, cb) => {
+    const extension = path
+      .extname(file.originalname)
+      .toLowerCase()
+      .replace('.', '');
+
+    if (extensions.includes(extension)) {
+      return cb(null, true);
+    }
+
+    cb(
+      new BadRequestException(
+        `Unsupported ${label}${extension ? ` ".${extension}"` : ''}. Supported formats: ${extensions.join(', ')}`,
+      ),
+      false,
+    );
+  };
+}
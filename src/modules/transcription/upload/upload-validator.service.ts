@@ -0,0 +1,112 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  buildProbeArgs,
+  MediaInfo,
+  parseProbeOutput,
+  runProcess,
+} from '../preprocessing/ffmpeg';
+import { detectFileType, FileType, SIGNATURE_LENGTH } from './file-signature';
+
+export interface ValidatedUpload {
+  fileType: FileType;
+  media: MediaInfo | null; // null when ffprobe is not installed
+}
+
+@Injectable()
+export class UploadValidatorService {
+  private warnedMissingProbe = false;
+
+  constructor(private configService: ConfigService) {}
+
+  // Check a stored upload: non-empty, content matches the extension, and
+  // (when ffprobe is available) decodable audio within the duration limit.
+  // Throws an Error with a message meant for the client.
+  async validate(
+    file: Pick<Express.Multer.File, 'path' | 'originalname' | 'size'>,
+  ): Promise<ValidatedUpload> {
+    if (!file.size) {
+      throw new Error('Uploaded file is empty');
+    }
+
+    const fileType = detectFileType(this.readHeader(file.path));
+    const extension = path
+      .extname(file.originalname)
+      .toLowerCase()
+      .replace('.', '');
+
+    if (!fileType) {
+      throw new Error(
+        `File content is not a recognized audio or video format (extension ".${extension}")`,
+      );
+    }
+    if (!fileType.extensions.includes(extension)) {
+      throw new Error(
+        `File content is ${fileType.description}, which does not match the ".${extension}" extension`,
+      );
+    }
+
+    const media = await this.probe(file.path);
+    if (media) {
+      this.checkDuration(media);
+    }
+
+    return { fileType, media };
+  }
+
+  private readHeader(filePath: string): Buffer {
+    const fd = fs.openSync(filePath, 'r');
+    try {
+      const header = Buffer.alloc(SIGNATURE_LENGTH);
+      const bytesRead = fs.readSync(fd, header, 0, SIGNATURE_LENGTH, 0);
+      return header.subarray(0, bytesRead);
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  private async probe(filePath: string): Promise<MediaInfo | null> {
+    try {
+      const output = await runProcess(
+        this.configService.get<string>('preprocessing.ffprobePath') ||
+          'ffprobe',
+        buildProbeArgs(filePath),
+      );
+      return parseProbeOutput(output);
+    } catch (error) {
+      // Without ffprobe only the signature and size checks apply
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        if (!this.warnedMissingProbe) {
+          console.warn(
+            '[Upload] ffprobe not found - skipping decode and duration checks',
+          );
+          this.warnedMissingProbe = true;
+        }
+        return null;
+      }
+      throw new Error(
+        `File is corrupt or cannot be decoded: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  private checkDuration(media: MediaInfo): void {
+    if (media.duration !== null && media.duration <= 0) {
+      throw new Error('Audio has zero length');
+    }
+
+    const maxDurationSec =
+      this.configService.get<number>('uploads.maxDurationSec') || 0;
+    if (
+      maxDurationSec > 0 &&
+      media.duration !== null &&
+      media.duration > maxDurationSec
+    ) {
+      throw new Error(
+        `Audio is ${Math.round(media.duration)}s long, the limit is ${maxDurationSec}s`,
+      );
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import { createUploadOptions } from './upload-options';
+import { UploadValidatorService } from './upload-validator.service';
+
+// Storage, size limit and extension filter for FileInterceptor, plus the
+// content checks run after the file is stored
+@Module({
+  imports: [
+    ConfigModule,
+    MulterModule.registerAsync({
+      imports: [ConfigModule],
+      useFactory: createUploadOptions,
+      inject: [ConfigService],
+    }),
+  ],
+  providers: [UploadValidatorService],
+  exports: [MulterModule, UploadValidatorService],
+})
+export class UploadModule {}
@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { pipeline } from 'stream/promises';
+import * as yauzl from 'yauzl';
+
+// Extract a zip upload entry by entry so large archives never sit in
+// memory. Declared sizes are checked before anything is written; yauzl
+// fails the read when an entry inflates past its declared size.
+
+export interface ArchiveEntry {
+  name: string; // Path inside the archive, e.g. 'set-1/call.mp3'
+  path: string; // Extracted file on disk
+  size: number;
+}
+
+export interface ArchiveLimits {
+  maxEntries: number; // Extracted files, not counting skipped entries
+  maxEntryBytes: number;
+  maxTotalBytes: number;
+}
+
+export interface ExtractedArchive {
+  entries: ArchiveEntry[];
+  skipped: string[]; // Entries with an extension not in the allowed list
+}
+
+export async function extractZipArchive(
+  zipPath: string,
+  destDir: string,
+  extensions: string[],
+  limits: ArchiveLimits,
+): Promise<ExtractedArchive> {
+  let zipfile: yauzl.ZipFile;
+  try {
+    zipfile = await yauzl.openPromise(zipPath, {
+      lazyEntries: true,
+      autoClose: false,
+    });
+  } catch (error) {
+    throw new Error(
+      `Archive is not a valid zip file: ${(error as Error).message}`,
+    );
+  }
+
+  const entries: ArchiveEntry[] = [];
+  const skipped: string[] = [];
+  let totalBytes = 0;
+
+  try {
+    for (
+      let entry = await readNextEntry(zipfile);
+      entry;
+      entry = await readNextEntry(zipfile)
+    ) {
+      const name = entry.fileName;
+      // Folders and OS metadata (__MACOSX/, .DS_Store) are ignored
+      if (name.endsWith('/') || isHiddenPath(name)) continue;
+
+      const extension = path.extname(name).toLowerCase().replace('.', '');
+      if (!extensions.includes(extension)) {
+        skipped.push(name);
+        continue;
+      }
+
+      if (entries.length >= limits.maxEntries) {
+        throw new Error(
+          `Archive contains more than ${limits.maxEntries} files`,
+        );
+      }
+      if (entry.uncompressedSize > limits.maxEntryBytes) {
+        throw new Error(
+          `${name} is larger than ${Math.round(limits.maxEntryBytes / 1024 / 1024)} MB`,
+        );
+      }
+      totalBytes += entry.uncompressedSize;
+      if (totalBytes > limits.maxTotalBytes) {
+        throw new Error(
+          `Archive contents exceed ${Math.round(limits.maxTotalBytes / 1024 / 1024)} MB`,
+        );
+      }
+
+      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
+      const filePath = path.join(
+        destDir,
+        `archive-${uniqueSuffix}${extension ? `.${extension}` : ''}`,
+      );
+      // Listed first so a failed write is cleaned up below
+      entries.push({ name, path: filePath, size: entry.uncompressedSize });
+      await pipeline(
+        await zipfile.openReadStreamPromise(entry),
+        fs.createWriteStream(filePath),
+      );
+    }
+  } catch (error) {
+    // Don't leave half an archive behind
+    for (const entry of entries) {
+      if (fs.existsSync(entry.path)) fs.unlinkSync(entry.path);
+    }
+    throw error;
+  } finally {
+    zipfile.close();
+  }
+
+  return { entries, skipped };
+}
+
+function isHiddenPath(name: string): boolean {
+  return name
+    .split('/')
+    .some((part) => part.startsWith('.') || part === '__MACOSX');
+}
+
+function readNextEntry(zipfile: yauzl.ZipFile): Promise<yauzl.Entry | null> {
+  return new Promise((resolve, reject) => {
+    const onEntry = (entry: yauzl.Entry) => {
+      cleanup();
+      resolve(entry);
+    };
+    const onEnd = () => {
+      cleanup();
+      resolve(null);
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const cleanup = () => {
+      zipfile.off('entry', onEntry);
+      zipfile.off('end', onEnd);
+      zipfile.off('error', onError);
+    };
+
+    zipfile.on('entry', onEntry);
+    zipfile.on('end', onEnd);
+    zipfile.on('error', onError);
+    zipfile.readEntry();
+  });
+}
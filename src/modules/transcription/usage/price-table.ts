@@ -0,0 +1,70 @@
+// Prices used to estimate what each provider call costs. List prices in
+// USD for pay-as-you-go accounts; override them with PRICE_TABLE_PATH when
+// you have negotiated rates.
+
+export interface ProviderPricing {
+  // USD per minute of billed audio, keyed by billing model (see
+  // TranscriptionProvider.getBillingModel)
+  perMinute: Record<string, number>;
+  minimumSeconds: number; // Shorter files are billed as this long
+  incrementSeconds: number; // Billed duration is rounded up to a multiple
+}
+
+export type PriceTable = Record<string, ProviderPricing>;
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  deepgram: {
+    perMinute: {
+      'nova-3': 0.0043,
+      'nova-2': 0.0043,
+      nova: 0.0043,
+      enhanced: 0.0145,
+      base: 0.0125,
+    },
+    minimumSeconds: 0,
+    incrementSeconds: 1,
+  },
+  aws: {
+    perMinute: {
+      standard: 0.024,
+      redaction: 0.0264, // Standard plus PII redaction
+    },
+    minimumSeconds: 15,
+    incrementSeconds: 1,
+  },
+};
+
+export interface ProviderUsage {
+  model: string; // Billing model the price was looked up for
+  audioSeconds: number;
+  billedSeconds: number; // After the minimum and rounding
+  estimatedCost: number | null; // USD, null when the model has no price
+}
+
+export function estimateUsage(
+  pricing: ProviderPricing | undefined,
+  model: string,
+  audioSeconds: number,
+): ProviderUsage {
+  const increment = pricing?.incrementSeconds || 1;
+  const billedSeconds =
+    Math.ceil(
+      Math.max(audioSeconds, pricing?.minimumSeconds ?? 0) / increment,
+    ) * increment;
+  const perMinute = pricing?.perMinute[model];
+
+  return {
+    model,
+    audioSeconds,
+    billedSeconds,
+    estimatedCost:
+      perMinute === undefined
+        ? null
+        : roundCost((billedSeconds / 60) * perMinute),
+  };
+}
+
+// Costs are kept to a hundredth of a cent
+export function roundCost(cost: number): number {
+  return Math.round(cost * 10000) / 10000;
+}
@@ -0,0 +1,65 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import {
+  DEFAULT_PRICE_TABLE,
+  estimateUsage,
+  PriceTable,
+  ProviderUsage,
+} from './price-table';
+
+@Injectable()
+export class PricingService {
+  private table: PriceTable;
+
+  constructor(private configService: ConfigService) {
+    this.table = this.loadTable(
+      this.configService.get<string>('pricing.tablePath'),
+    );
+  }
+
+  getTable(): PriceTable {
+    return this.table;
+  }
+
+  // Billed duration and estimated cost of one provider call
+  estimate(
+    providerId: string,
+    model: string,
+    audioSeconds: number,
+  ): ProviderUsage {
+    return estimateUsage(this.table[providerId], model, audioSeconds);
+  }
+
+  // The defaults, with providers and prices from the JSON file on top.
+  // A broken file stops the app from starting rather than mispricing jobs.
+  private loadTable(tablePath?: string): PriceTable {
+    if (!tablePath) return DEFAULT_PRICE_TABLE;
+
+    let custom: Partial<PriceTable>;
+    try {
+      custom = JSON.parse(
+        fs.readFileSync(tablePath, 'utf8'),
+      ) as Partial<PriceTable>;
+    } catch (error) {
+      throw new Error(
+        `Failed to load price table ${tablePath}: ${(error as Error).message}`,
+      );
+    }
+
+    const table: PriceTable = { ...DEFAULT_PRICE_TABLE };
+    for (const [providerId, pricing] of Object.entries(custom)) {
+      const defaults = DEFAULT_PRICE_TABLE[providerId];
+      table[providerId] = {
+        minimumSeconds:
+          pricing?.minimumSeconds ?? defaults?.minimumSeconds ?? 0,
+        incrementSeconds:
+          pricing?.incrementSeconds ?? defaults?.incrementSeconds ?? 1,
+        perMinute: { ...defaults?.perMinute, ...pricing?.perMinute },
+      };
+    }
+
+    console.log(`[Pricing] Loaded price table from ${tablePath}`);
+    return table;
+  }
+}
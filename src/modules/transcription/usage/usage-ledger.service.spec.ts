@@ -0,0 +1,103 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ApiClient } from '../../auth/api-client.interface';
+import { JobManagerService, JobStatus } from '../job-manager.service';
+import { InMemoryJobStore } from '../job-store/in-memory-job-store';
+import { TranscriptResult } from '../providers/transcript-result.interface';
+import { PricingService } from './pricing.service';
+import { UsageLedgerService } from './usage-ledger.service';
+import { UsageController } from './usage.controller';
+
+describe('UsageLedgerService', () => {
+  let directory: string;
+  let ledgerFile: string;
+
+  const createLedger = () => {
+    const ledger = new UsageLedgerService(
+      new ConfigService({ usage: { ledgerFile } }),
+    );
+    ledger.onModuleInit();
+    return ledger;
+  };
+
+  const client = (id: string): ApiClient => ({
+    id,
+    admin: false,
+    quotas: { uploadsPerHour: 0, audioMinutesPerDay: 0 },
+  });
+
+  const usage = {
+    model: 'standard',
+    audioSeconds: 60,
+    billedSeconds: 60,
+    estimatedCost: 0.024,
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'usage-ledger-'));
+    ledgerFile = path.join(directory, 'usage.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should keep reporting usage after jobs are purged and on restart', () => {
+    const jobManager = new JobManagerService(new InMemoryJobStore());
+    const ledger = createLedger();
+    const jobId = jobManager.createJob('a.mp3', '/tmp/a.mp3', 'en-US', 'aws', {
+      clientId: 'team-a',
+    });
+    jobManager.completeJob(jobId, {} as TranscriptResult, usage);
+    ledger.record({
+      jobId,
+      clientId: 'team-a',
+      provider: 'aws',
+      usage,
+      completedAt: new Date('2026-03-01T10:00:00Z'),
+    });
+
+    jobManager.purgeExpiredJobs(
+      { [JobStatus.COMPLETED]: 1 },
+      new Date('2100-01-01T00:00:00Z'),
+    );
+    expect(jobManager.getAllJobs()).toEqual([]);
+
+    const controller = new UsageController(
+      createLedger(),
+      new PricingService(new ConfigService({})),
+    );
+    const report = controller.getUsage({}, client('team-a'));
+    expect(report.total).toMatchObject({ calls: 1, estimatedCost: 0.024 });
+    expect(report.groups).toEqual([
+      expect.objectContaining({ date: '2026-03-01', provider: 'aws' }),
+    ]);
+    expect(controller.getUsage({}, client('team-b')).total.calls).toBe(0);
+  });
+
+  it('should drop a record cut off by a crash', () => {
+    createLedger().record({
+      jobId: 'a',
+      provider: 'aws',
+      usage,
+      completedAt: new Date(),
+    });
+    fs.appendFileSync(ledgerFile, '{"jobId":"b","prov');
+
+    const ledger = createLedger();
+    ledger.record({
+      jobId: 'c',
+      provider: 'aws',
+      usage,
+      completedAt: new Date(),
+    });
+
+    expect(
+      createLedger()
+        .list()
+        .map((record) => record.jobId),
+    ).toEqual(['a', 'c']);
+  });
+});
@@ -0,0 +1,79 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProviderUsage } from './price-table';
+
+// Billed usage of every finished provider call, kept apart from the jobs so
+// usage reports survive retention purges, cancelled jobs and restarts.
+// Records are appended to a JSON Lines file, one call per line.
+
+export interface UsageRecord {
+  jobId: string;
+  clientId?: string;
+  provider: string;
+  usage: ProviderUsage;
+  completedAt: Date;
+}
+
+@Injectable()
+export class UsageLedgerService implements OnModuleInit {
+  private records: UsageRecord[] = [];
+
+  constructor(private configService: ConfigService) {}
+
+  // A missing file is treated as empty; it is created with the first record
+  onModuleInit() {
+    const filePath = this.getFilePath();
+    if (!filePath || !fs.existsSync(filePath)) return;
+
+    const content = fs.readFileSync(filePath, 'utf8');
+    const lines = content.split('\n').filter((line) => line.trim());
+    for (const [index, line] of lines.entries()) {
+      let record: UsageRecord;
+      try {
+        record = JSON.parse(line) as UsageRecord;
+      } catch {
+        // A crash mid-append can cut off the last record, nothing else
+        if (index < lines.length - 1) {
+          throw new Error(
+            `Failed to load usage ledger ${filePath}: record ${index + 1} is not valid JSON`,
+          );
+        }
+        console.warn(`[Usage] Dropped a partial record in ${filePath}`);
+        fs.truncateSync(
+          filePath,
+          Buffer.byteLength(content.slice(0, content.lastIndexOf(line))),
+        );
+        break;
+      }
+      this.records.push({
+        ...record,
+        completedAt: new Date(record.completedAt),
+      });
+    }
+
+    console.log(`[Usage] Loaded ${this.records.length} usage record(s)`);
+  }
+
+  record(record: UsageRecord): void {
+    this.records.push(record);
+
+    const filePath = this.getFilePath();
+    if (!filePath) return;
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.appendFileSync(filePath, `${JSON.stringify(record)}\n`);
+  }
+
+  // Every record, or only the client's when clientId is set
+  list(clientId?: string): UsageRecord[] {
+    return clientId
+      ? this.records.filter((record) => record.clientId === clientId)
+      : [...this.records];
+  }
+
+  private getFilePath(): string {
+    return this.configService.get<string>('usage.ledgerFile') || '';
+  }
+}
@@ -0,0 +1,100 @@
+import { DEFAULT_PRICE_TABLE, estimateUsage } from './price-table';
+import { UsageRecord } from './usage-ledger.service';
+import { summarizeUsage } from './usage-report';
+
+describe('estimateUsage', () => {
+  it('should apply the minimum and round up to the increment', () => {
+    expect(estimateUsage(DEFAULT_PRICE_TABLE.aws, 'standard', 10)).toEqual({
+      model: 'standard',
+      audioSeconds: 10,
+      billedSeconds: 15,
+      estimatedCost: 0.006,
+    });
+    expect(
+      estimateUsage(DEFAULT_PRICE_TABLE.deepgram, 'nova-3', 59.2).billedSeconds,
+    ).toBe(60);
+  });
+
+  it('should leave the cost empty for unknown models', () => {
+    expect(
+      estimateUsage(DEFAULT_PRICE_TABLE.deepgram, 'custom', 30).estimatedCost,
+    ).toBeNull();
+  });
+});
+
+describe('summarizeUsage', () => {
+  const usage = (
+    model: string,
+    billedSeconds: number,
+    cost: number | null,
+  ) => ({
+    model,
+    audioSeconds: billedSeconds,
+    billedSeconds,
+    estimatedCost: cost,
+  });
+
+  const records: UsageRecord[] = [
+    {
+      jobId: 'compare',
+      provider: 'aws',
+      usage: usage('standard', 60, 0.024),
+      completedAt: new Date('2026-03-01T10:05:00Z'),
+    },
+    {
+      jobId: 'compare',
+      provider: 'deepgram',
+      usage: usage('custom', 60, null),
+      completedAt: new Date('2026-03-01T10:01:00Z'),
+    },
+    {
+      jobId: 'single',
+      provider: 'aws',
+      usage: usage('standard', 30, 0.012),
+      completedAt: new Date('2026-03-02T00:30:00Z'),
+    },
+  ];
+
+  it('should group by day, provider and model', () => {
+    const report = summarizeUsage(records);
+
+    expect(report.groups).toEqual([
+      expect.objectContaining({
+        date: '2026-03-01',
+        provider: 'aws',
+        model: 'standard',
+        calls: 1,
+        estimatedCost: 0.024,
+      }),
+      expect.objectContaining({
+        date: '2026-03-01',
+        provider: 'deepgram',
+        model: 'custom',
+        unpricedCalls: 1,
+        estimatedCost: 0,
+      }),
+      expect.objectContaining({
+        date: '2026-03-02',
+        provider: 'aws',
+        billedSeconds: 30,
+      }),
+    ]);
+    expect(report.total).toEqual({
+      calls: 3,
+      audioSeconds: 150,
+      billedSeconds: 150,
+      estimatedCost: 0.036,
+      unpricedCalls: 1,
+    });
+  });
+
+  it('should filter by provider and date range', () => {
+    const report = summarizeUsage(records, {
+      provider: 'aws',
+      from: new Date('2026-03-02T00:00:00Z'),
+    });
+
+    expect(report.groups.map((group) => group.date)).toEqual(['2026-03-02']);
+    expect(report.total.calls).toBe(1);
+  });
+});
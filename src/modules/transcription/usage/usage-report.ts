@@ -0,0 +1,90 @@
+import { ProviderUsage, roundCost } from './price-table';
+import { UsageRecord } from './usage-ledger.service';
+
+// Billed usage of finished provider calls from the usage ledger, grouped by
+// UTC day, provider and billing model.
+
+export interface UsageFilter {
+  from?: Date;
+  to?: Date;
+  provider?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  audioSeconds: number;
+  billedSeconds: number;
+  estimatedCost: number; // USD; calls without a price count as 0
+  unpricedCalls: number;
+}
+
+export interface UsageGroup extends UsageTotals {
+  date: string; // YYYY-MM-DD (UTC)
+  provider: string;
+  model: string;
+}
+
+export interface UsageReport {
+  currency: 'USD';
+  total: UsageTotals;
+  groups: UsageGroup[];
+}
+
+export function summarizeUsage(
+  records: UsageRecord[],
+  filter: UsageFilter = {},
+): UsageReport {
+  const groups = new Map<string, UsageGroup>();
+  const total = emptyTotals();
+
+  for (const { provider, usage, completedAt } of records) {
+    if (filter.provider && provider !== filter.provider) continue;
+    if (filter.from && completedAt < filter.from) continue;
+    if (filter.to && completedAt > filter.to) continue;
+
+    const date = completedAt.toISOString().slice(0, 10);
+    const key = `${date}|${provider}|${usage.model}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { date, provider, model: usage.model, ...emptyTotals() };
+      groups.set(key, group);
+    }
+
+    addUsage(group, usage);
+    addUsage(total, usage);
+  }
+
+  return {
+    currency: 'USD',
+    total,
+    groups: [...groups.values()].sort(
+      (a, b) =>
+        a.date.localeCompare(b.date) ||
+        a.provider.localeCompare(b.provider) ||
+        a.model.localeCompare(b.model),
+    ),
+  };
+}
+
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    audioSeconds: 0,
+    billedSeconds: 0,
+    estimatedCost: 0,
+    unpricedCalls: 0,
+  };
+}
+
+function addUsage(totals: UsageTotals, usage: ProviderUsage): void {
+  totals.calls++;
+  totals.audioSeconds += usage.audioSeconds;
+  totals.billedSeconds += usage.billedSeconds;
+  if (usage.estimatedCost === null) {
+    totals.unpricedCalls++;
+  } else {
+    totals.estimatedCost = roundCost(
+      totals.estimatedCost + usage.estimatedCost,
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import type { ApiClient } from '../../auth/api-client.interface';
+import { CurrentClient } from '../../auth/current-client.decorator';
+import { UsageQueryDto } from '../dto/usage-query.dto';
+import { PricingService } from './pricing.service';
+import { summarizeUsage } from './usage-report';
+import { UsageLedgerService } from './usage-ledger.service';
+import { getClientFilter } from '../job-access';
+
+@Controller('transcription/usage')
+export class UsageController {
+  constructor(
+    private usageLedger: UsageLedgerService,
+    private pricingService: PricingService,
+  ) {}
+
+  // Billed audio and estimated cost per day, provider and model. API keys
+  // without admin rights only see the usage of their own jobs.
+  @Get()
+  getUsage(
+    @Query() query: UsageQueryDto,
+    @CurrentClient() client: ApiClient | undefined,
+  ) {
+    const records = this.usageLedger.list(getClientFilter(client));
+
+    return {
+      success: true,
+      ...summarizeUsage(records, {
+        from: query.from,
+        to: query.to,
+        provider: query.provider,
+      }),
+      prices: this.pricingService.getTable(),
+    };
+  }
+}
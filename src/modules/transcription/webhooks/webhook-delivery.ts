@@ -0,0 +1,37 @@
+import { createHmac } from 'crypto';
+
+export type WebhookEventType =
+  | 'provider.completed'
+  | 'provider.failed'
+  | 'job.completed'
+  | 'job.failed'
+  | 'job.cancelled';
+
+export interface WebhookAttempt {
+  at: Date;
+  statusCode: number | null; // null when the request never got a response
+  error: string | null;
+  durationMs: number;
+}
+
+// One event sent to a job's callbackUrl, with every attempt made so far
+export interface WebhookDelivery {
+  id: string;
+  event: WebhookEventType;
+  provider?: string;
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: WebhookAttempt[];
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+// Signature sent in X-Notica-Signature: HMAC-SHA256 over
+// "<timestamp>.<raw body>" so receivers can also reject replayed requests
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
@@ -0,0 +1,220 @@
+import { ConfigService } from '@nestjs/config';
+import {
+  createServer,
+  IncomingHttpHeaders,
+  Server,
+  ServerResponse,
+} from 'http';
+import { AddressInfo } from 'net';
+import { JobManagerService } from '../job-manager.service';
+import { InMemoryJobStore } from '../job-store/in-memory-job-store';
+import { signWebhookPayload } from './webhook-delivery';
+import { WebhookService } from './webhook.service';
+
+describe('WebhookService', () => {
+  const secret = 'test-secret';
+  let jobManager: JobManagerService;
+  let webhookService: WebhookService;
+  let server: Server;
+  let baseUrl: string;
+  // Requests the callback server received, and how to answer the next ones
+  let requests: { url: string; headers: IncomingHttpHeaders; body: string }[];
+  let responses: ((response: ServerResponse) => void)[];
+
+  const respondWith =
+    (statusCode: number, headers: Record<string, string> = {}) =>
+    (response: ServerResponse) =>
+      response.writeHead(statusCode, headers).end();
+
+  // Wait for the job's deliveries (and their zero-delay retries) to settle
+  const flush = async (jobId: string) => {
+    for (let i = 0; i < 100; i++) {
+      const deliveries = jobManager.getJob(jobId)?.webhookDeliveries ?? [];
+      if (deliveries.every((delivery) => delivery.status !== 'pending')) return;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  const createJob = (callbackUrl = `${baseUrl}/hook`) =>
+    jobManager.createComparisonJob('a.mp3', '/tmp/a.mp3', 'en-US', ['aws'], {
+      callbackUrl,
+    });
+
+  beforeEach(async () => {
+    requests = [];
+    responses = [];
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      request.on('end', () => {
+        requests.push({
+          url: request.url ?? '',
+          headers: request.headers,
+          body,
+        });
+        (responses.shift() ?? respondWith(204))(response);
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    jobManager = new JobManagerService(new InMemoryJobStore());
+    webhookService = new WebhookService(
+      new ConfigService({
+        webhooks: {
+          secret,
+          maxAttempts: 3,
+          retryDelayMs: 0,
+          timeoutMs: 1000,
+          // The test server listens on loopback
+          allowedHosts: '127.0.0.1',
+        },
+      }),
+      jobManager,
+    );
+    webhookService.onModuleInit();
+  });
+
+  afterEach(async () => {
+    webhookService.onModuleDestroy();
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should POST signed events for provider and job completion', async () => {
+    const jobId = createJob();
+
+    jobManager.failProviderResult(jobId, 'aws', 'boom');
+    await flush(jobId);
+
+    expect(requests).toHaveLength(2);
+    const [first, second] = requests;
+    const payload: unknown = JSON.parse(first.body);
+    expect(first.url).toBe('/hook');
+    expect(payload).toMatchObject({
+      event: 'provider.failed',
+      jobId,
+      provider: 'aws',
+    });
+    expect(first.headers['x-notica-signature']).toBe(
+      signWebhookPayload(
+        secret,
+        Number(first.headers['x-notica-timestamp']),
+        first.body,
+      ),
+    );
+    expect(JSON.parse(second.body)).toMatchObject({ event: 'job.failed' });
+
+    const deliveries = jobManager.getJob(jobId)!.webhookDeliveries!;
+    expect(deliveries.map((delivery) => delivery.status)).toEqual([
+      'delivered',
+      'delivered',
+    ]);
+  });
+
+  it('should retry transient failures and stop on client errors', async () => {
+    responses = [
+      // Drop the connection without answering
+      (response) => response.socket?.destroy(),
+      respondWith(503),
+      respondWith(200),
+      respondWith(410),
+    ];
+    const jobId = createJob();
+
+    jobManager.failProviderResult(jobId, 'aws', 'boom');
+    await flush(jobId);
+
+    const [providerFailed, jobFailed] =
+      jobManager.getJob(jobId)!.webhookDeliveries!;
+    expect(providerFailed.status).toBe('delivered');
+    expect(
+      providerFailed.attempts.map((attempt) => attempt.statusCode),
+    ).toEqual([null, 503, 200]);
+    expect(jobFailed.status).toBe('failed');
+    expect(jobFailed.attempts).toHaveLength(1);
+  });
+
+  it('should not follow redirects', async () => {
+    responses = [respondWith(302, { Location: `${baseUrl}/elsewhere` })];
+    const jobId = createJob();
+
+    jobManager.failJob(jobId, 'boom');
+    await flush(jobId);
+
+    const [delivery] = jobManager.getJob(jobId)!.webhookDeliveries!;
+    expect(delivery.status).toBe('failed');
+    expect(delivery.attempts).toHaveLength(1);
+    expect(delivery.attempts[0].error).toContain('redirects are not followed');
+    expect(requests.map((request) => request.url)).toEqual(['/hook']);
+  });
+
+  it('should check the callback host again before delivering', async () => {
+    // Accepted earlier, but the host now resolves to loopback
+    const jobId = createJob(baseUrl.replace('127.0.0.1', 'localhost'));
+
+    jobManager.failJob(jobId, 'boom');
+    await flush(jobId);
+
+    const [delivery] = jobManager.getJob(jobId)!.webhookDeliveries!;
+    expect(delivery.status).toBe('failed');
+    expect(delivery.attempts).toHaveLength(1);
+    expect(delivery.attempts[0].error).toContain(
+      'resolves to a private address',
+    );
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should ignore jobs without a callback URL', async () => {
+    const jobId = jobManager.createJob('a.mp3', '/tmp/a.mp3', 'en-US', 'aws');
+
+    jobManager.failJob(jobId, 'boom');
+    await flush(jobId);
+
+    expect(requests).toHaveLength(0);
+    expect(jobManager.getJob(jobId)!.webhookDeliveries).toBeUndefined();
+  });
+
+  it('should reject callback URLs that resolve to private addresses', async () => {
+    const strict = new WebhookService(
+      new ConfigService({ webhooks: { secret } }),
+      jobManager,
+    );
+
+    for (const url of [
+      'http://127.0.0.1/hook',
+      'http://localhost:3000/hook',
+      'http://169.254.169.254/latest/meta-data',
+      'http://10.1.2.3/hook',
+      'http://[::1]/hook',
+      'http://[::ffff:192.168.0.1]/hook',
+    ]) {
+      expect(await strict.getCallbackUrlError(url)).toContain(
+        'resolves to a private address',
+      );
+    }
+    expect(await strict.getCallbackUrlError('ftp://8.8.8.8/')).toBe(
+      'callbackUrl must be an http(s) URL',
+    );
+    expect(await strict.getCallbackUrlError('https://8.8.8.8/hook')).toBeNull();
+  });
+
+  it('should allow private hosts listed in WEBHOOK_ALLOWED_HOSTS', async () => {
+    const allowing = new WebhookService(
+      new ConfigService({
+        webhooks: { secret, allowedHosts: 'localhost, 10.1.2.3' },
+      }),
+      jobManager,
+    );
+
+    expect(
+      await allowing.getCallbackUrlError('http://LOCALHOST:3000/hook'),
+    ).toBeNull();
+    expect(await allowing.getCallbackUrlError('http://10.1.2.3/')).toBeNull();
+    expect(await allowing.getCallbackUrlError('http://127.0.0.1/')).toContain(
+      'private address',
+    );
+  });
+});
@@ -0,0 +1,333 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { LookupAddress, promises as dns } from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import { BlockList } from 'net';
+import { Subscription } from 'rxjs';
+import { JobEvent, JobManagerService } from '../job-manager.service';
+import { toJobResponse } from '../job-response';
+import { sleep } from '../providers/abort';
+import {
+  signWebhookPayload,
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookEventType,
+} from './webhook-delivery';
+
+const WEBHOOK_EVENTS: WebhookEventType[] = [
+  'provider.completed',
+  'provider.failed',
+  'job.completed',
+  'job.failed',
+  'job.cancelled',
+];
+
+// Loopback, private, link-local (incl. cloud metadata at 169.254.169.254)
+// and unspecified addresses. IPv4-mapped IPv6 addresses match too.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+@Injectable()
+export class WebhookService implements OnModuleInit, OnModuleDestroy {
+  private subscription?: Subscription;
+  // Deliveries of one job are sent one after another so they arrive in order
+  private queues: Map<string, Promise<void>> = new Map();
+
+  constructor(
+    private configService: ConfigService,
+    private jobManagerService: JobManagerService,
+  ) {}
+
+  onModuleInit() {
+    this.subscription = this.jobManagerService
+      .watchAllJobs()
+      .subscribe((event) => this.handleEvent(event));
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  // Callbacks are only accepted when payloads can be signed
+  isEnabled(): boolean {
+    return !!this.configService.get<string>('webhooks.secret');
+  }
+
+  // Why a callbackUrl can't be used, or null when it's valid. Hosts that
+  // resolve to loopback, private or link-local addresses are rejected
+  // unless listed in WEBHOOK_ALLOWED_HOSTS. Deliveries check the host again
+  // before every attempt, as its addresses can change.
+  async getCallbackUrlError(value: string): Promise<string | null> {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      return 'callbackUrl must be a valid URL';
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return 'callbackUrl must be an http(s) URL';
+    }
+
+    const resolved = await this.resolveCallbackHost(url);
+    return 'error' in resolved ? resolved.error : null;
+  }
+
+  // Addresses of the callback host, or why they can't be used: the host
+  // doesn't resolve, or resolves to a private address and isn't allowed
+  private async resolveCallbackHost(
+    url: URL,
+  ): Promise<
+    { addresses: LookupAddress[] } | { error: string; blocked: boolean }
+  > {
+    // IPv6 literals keep their brackets in url.hostname
+    const host = url.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+
+    let addresses: LookupAddress[];
+    try {
+      addresses = await dns.lookup(host, { all: true });
+    } catch {
+      return {
+        error: `callbackUrl host ${host} could not be resolved`,
+        blocked: false,
+      };
+    }
+    if (this.getAllowedHosts().includes(host)) return { addresses };
+
+    const blocked = addresses.find(({ address, family }) =>
+      PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'),
+    );
+    return blocked
+      ? {
+          error: `callbackUrl host ${host} resolves to a private address (${blocked.address})`,
+          blocked: true,
+        }
+      : { addresses };
+  }
+
+  private getAllowedHosts(): string[] {
+    return (this.configService.get<string>('webhooks.allowedHosts') || '')
+      .split(',')
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean);
+  }
+
+  private handleEvent(event: JobEvent): void {
+    const type = event.type as WebhookEventType;
+    const url = event.job.callbackUrl;
+    if (!url || !WEBHOOK_EVENTS.includes(type)) return;
+
+    const delivery: WebhookDelivery = {
+      id: randomUUID(),
+      event: type,
+      provider: event.provider,
+      url,
+      status: 'pending',
+      attempts: [],
+      createdAt: new Date(),
+    };
+
+    // Serialize now so the payload reflects the job at the time of the event
+    const body = JSON.stringify({
+      id: delivery.id,
+      event: type,
+      jobId: event.jobId,
+      provider: event.provider,
+      providerResult: event.provider
+        ? event.job.providerResults?.[event.provider]
+        : undefined,
+      job: toJobResponse(event.job),
+      createdAt: delivery.createdAt,
+    });
+
+    this.jobManagerService.saveWebhookDelivery(event.jobId, delivery);
+
+    const previous = this.queues.get(event.jobId) ?? Promise.resolve();
+    const next = previous
+      .then(() => this.deliver(event.jobId, delivery, body))
+      .catch((error) => {
+        console.error(
+          `[Webhook] Delivery ${delivery.id} for job ${event.jobId} crashed:`,
+          error,
+        );
+      });
+    this.queues.set(event.jobId, next);
+    void next.then(() => {
+      if (this.queues.get(event.jobId) === next) {
+        this.queues.delete(event.jobId);
+      }
+    });
+  }
+
+  // POST the payload, retrying transient failures with exponential backoff
+  private async deliver(
+    jobId: string,
+    delivery: WebhookDelivery,
+    body: string,
+  ): Promise<void> {
+    const secret = this.configService.get<string>('webhooks.secret') || '';
+    const maxAttempts =
+      this.configService.get<number>('webhooks.maxAttempts') || 5;
+    const retryDelayMs =
+      this.configService.get<number>('webhooks.retryDelayMs') ?? 2000;
+    const timeoutMs =
+      this.configService.get<number>('webhooks.timeoutMs') || 10000;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const { result, retryable } = await this.send(
+        delivery,
+        body,
+        secret,
+        timeoutMs,
+      );
+      delivery.attempts.push(result);
+
+      const succeeded =
+        result.statusCode !== null &&
+        result.statusCode >= 200 &&
+        result.statusCode < 300;
+
+      if (succeeded || !retryable || attempt === maxAttempts) {
+        delivery.status = succeeded ? 'delivered' : 'failed';
+        delivery.completedAt = new Date();
+        this.jobManagerService.saveWebhookDelivery(jobId, delivery);
+
+        if (!succeeded) {
+          console.warn(
+            `[Webhook] Giving up on ${delivery.event} for job ${jobId} after ${attempt} attempt(s): ${result.error}`,
+          );
+        }
+        return;
+      }
+
+      this.jobManagerService.saveWebhookDelivery(jobId, delivery);
+      await sleep(retryDelayMs * 2 ** (attempt - 1));
+    }
+  }
+
+  // One POST to the callback URL. The host is resolved and checked before
+  // every attempt and the request goes to the checked addresses; redirects
+  // are not followed, so neither can reach a private address.
+  private async send(
+    delivery: WebhookDelivery,
+    body: string,
+    secret: string,
+    timeoutMs: number,
+  ): Promise<{ result: WebhookAttempt; retryable: boolean }> {
+    const startedAt = new Date();
+    const timestamp = Math.floor(startedAt.getTime() / 1000);
+    const failed = (error: string, retryable: boolean) => ({
+      result: {
+        at: startedAt,
+        statusCode: null,
+        error,
+        durationMs: Date.now() - startedAt.getTime(),
+      },
+      retryable,
+    });
+
+    const url = new URL(delivery.url);
+    const resolved = await this.resolveCallbackHost(url);
+    if ('error' in resolved) {
+      return failed(resolved.error, !resolved.blocked);
+    }
+
+    try {
+      const response = await this.post(
+        url,
+        resolved.addresses,
+        {
+          'Content-Type': 'application/json',
+          'User-Agent': 'notica-webhooks/1.0',
+          'X-Notica-Event': delivery.event,
+          'X-Notica-Delivery': delivery.id,
+          'X-Notica-Timestamp': String(timestamp),
+          'X-Notica-Signature': signWebhookPayload(secret, timestamp, body),
+        },
+        body,
+        timeoutMs,
+      );
+
+      const { statusCode, statusMessage } = response;
+      const ok = statusCode >= 200 && statusCode < 300;
+      const redirect = statusCode >= 300 && statusCode < 400;
+      return {
+        result: {
+          at: startedAt,
+          statusCode,
+          error: ok
+            ? null
+            : redirect
+              ? `HTTP ${statusCode} ${statusMessage}: redirects are not followed`
+              : `HTTP ${statusCode} ${statusMessage}`,
+          durationMs: Date.now() - startedAt.getTime(),
+        },
+        // Other 3xx/4xx responses won't change on another attempt
+        retryable:
+          statusCode === 408 || statusCode === 429 || statusCode >= 500,
+      };
+    } catch (error) {
+      // Network errors and timeouts
+      return failed((error as Error).message, true);
+    }
+  }
+
+  // Node's http client never follows redirects; the lookup hands it the
+  // checked addresses instead of resolving the host again
+  private post(
+    url: URL,
+    addresses: LookupAddress[],
+    headers: Record<string, string>,
+    body: string,
+    timeoutMs: number,
+  ): Promise<{ statusCode: number; statusMessage: string }> {
+    const client = url.protocol === 'https:' ? https : http;
+
+    return new Promise((resolve, reject) => {
+      const request = client.request(
+        url,
+        {
+          method: 'POST',
+          headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+          signal: AbortSignal.timeout(timeoutMs),
+          lookup: (hostname, options, callback) => {
+            if (options.all) {
+              callback(null, addresses);
+            } else {
+              callback(null, addresses[0].address, addresses[0].family);
+            }
+          },
+        },
+        (response) => {
+          // The body is not used
+          response.resume();
+          resolve({
+            statusCode: response.statusCode ?? 0,
+            statusMessage: response.statusMessage ?? '',
+          });
+        },
+      );
+      request.on('error', reject);
+      request.end(body);
+    });
+  }
+}